@@ -9,6 +9,8 @@ const {
   verifyIntegrityAgainstManifest,
 } = require('../scripts/template-integrity.cjs');
 const { parseVitestRunOutput } = require('../scripts/vitest-output.cjs');
+const { hasExportsMap, validatePackage } = require('../scripts/package-validation.cjs');
+const { findWorkspacePackages, readWorkspacePatterns } = require('../scripts/workspaces.cjs');
 
 // Color codes for terminal output
 const colors = {
@@ -18,17 +20,58 @@ const colors = {
   yellow: '\x1b[33m',
 };
 
+// With --json, human output is suppressed and a single result document is printed instead,
+// in the same shape as the typescript-bootstrap CLI: { ok, command, result } or { ok, command, error }
+const json = process.argv.includes('--json');
+const checks = [];
+let currentStep = null;
+
+function print(message = '') {
+  if (!json) {
+    console.log(message);
+  }
+}
+
 function log(color, message) {
-  console.log(`${color}${message}${colors.reset}`);
+  print(`${color}${message}${colors.reset}`);
+}
+
+function printJson(output) {
+  console.log(JSON.stringify(output, null, 2));
+}
+
+function startStep(step, title) {
+  currentStep = step;
+  print(`Step ${step}: ${title}`);
 }
 
 function printStatus(passed, message) {
+  checks.push({ step: currentStep, ok: passed, message });
   const icon = passed ? '✓' : '✗';
   const color = passed ? colors.green : colors.red;
   log(color, `${icon} ${message}`);
 }
 
-console.log('🔍 Running pre-commit checks...\n');
+function abort(code, reason) {
+  log(colors.red, `\n❌ Commit aborted: ${reason}`);
+  if (json) {
+    printJson({ ok: false, command: 'pre-commit', error: { code, message: reason }, result: { checks } });
+  }
+  process.exit(1);
+}
+
+print('🔍 Running pre-commit checks...\n');
+
+// A workspace root runs this hook again in every package directory, with this variable set. Package
+// steps (tests, lint, build...) run there; repository steps (version, lockfile, secrets) at the root.
+const WORKSPACE_PACKAGE_ENV = 'TS_BOOTSTRAP_WORKSPACE_PACKAGE';
+const scope = process.env[WORKSPACE_PACKAGE_ENV] === '1'
+  ? 'workspace-package'
+  : readWorkspacePatterns(process.cwd()).length > 0 ? 'workspace-root' : 'project';
+
+function runsHere(stepScope) {
+  return scope === 'project' || (stepScope === 'package') === (scope === 'workspace-package');
+}
 
 function isBootstrapProject() {
   try {
@@ -39,8 +82,8 @@ function isBootstrapProject() {
   }
 }
 
-function runTestsWithCoverage(stepLabel) {
-  console.log(`${stepLabel}: Running tests with coverage...`);
+function runTestsWithCoverage(step) {
+  startStep(step, 'Running tests with coverage...');
   try {
     const testOutput = execSync('npx vitest run --coverage', {
       stdio: 'pipe',
@@ -52,36 +95,67 @@ function runTestsWithCoverage(stepLabel) {
     const THRESHOLD = 80;
     if (skippedTests > 0) {
       printStatus(false, `Detected ${skippedTests} skipped test(s)`);
-      console.log(testOutput.split('\n').slice(-20).join('\n'));
-      log(colors.red, '\n❌ Commit aborted: Remove test skips (e.g. it.skip/test.skip/describe.skip) before committing');
-      process.exit(1);
+      print(testOutput.split('\n').slice(-20).join('\n'));
+      abort('TESTS_SKIPPED', 'Remove test skips (e.g. it.skip/test.skip/describe.skip) before committing');
     }
 
     if (coverage < THRESHOLD) {
       printStatus(false, `Tests passed but coverage too low: ${coverage}% (minimum: ${THRESHOLD}%)`);
-      console.log(testOutput.split('\n').slice(-20).join('\n'));
-      log(colors.red, `\n❌ Commit aborted: Code coverage must be at least ${THRESHOLD}%`);
-      process.exit(1);
+      print(testOutput.split('\n').slice(-20).join('\n'));
+      abort('COVERAGE_TOO_LOW', `Code coverage must be at least ${THRESHOLD}%`);
     }
 
     printStatus(true, `Tests passed with ${coverage}% coverage (>= ${THRESHOLD}%)`);
   } catch (error) {
     printStatus(false, 'Tests failed');
-    console.log(error.stdout?.toString().slice(-1000) || '');
-    log(colors.red, '\n❌ Commit aborted: Tests must pass before committing');
-    process.exit(1);
+    print(error.stdout?.toString().slice(-1000) || '');
+    abort('TESTS_FAILED', 'Tests must pass before committing');
   }
-  console.log('');
+  print('');
 }
 
-// Step 0: Always run tests first
-runTestsWithCoverage('Step 0');
+function runWorkspacePackageChecks(step) {
+  const packages = findWorkspacePackages(process.cwd());
+  startStep(step, `Running checks in ${packages.length} workspace package(s)...`);
+
+  const results = packages.map((directory) => {
+    try {
+      execSync(`node "${__filename}"`, {
+        cwd: path.join(process.cwd(), directory),
+        stdio: 'pipe',
+        encoding: 'utf-8',
+        env: { ...process.env, [WORKSPACE_PACKAGE_ENV]: '1' },
+      });
+      return { directory, ok: true, output: '' };
+    } catch (error) {
+      return { directory, ok: false, output: error.stdout?.toString() || '' };
+    }
+  });
+  results.forEach(({ directory, ok }) => printStatus(ok, directory));
+
+  const failed = results.filter(({ ok }) => !ok);
+  if (failed.length > 0) {
+    failed.forEach(({ directory, output }) => {
+      log(colors.red, `\n--- ${directory} ---`);
+      print(output.split('\n').slice(-30).join('\n'));
+    });
+    abort('WORKSPACE_PACKAGE_FAILED', `${failed.length} of ${results.length} workspace package(s) failed their checks`);
+  }
+  print('');
+}
+
+// Step 0: Always run tests first; a workspace root runs every package's checks instead
+if (scope === 'workspace-root') {
+  runWorkspacePackageChecks(0);
+} else {
+  runTestsWithCoverage(0);
+}
 
 // Step 1: Enforce scaffold integrity for managed files
-console.log('Step 1: Verifying scaffold integrity hashes...');
+startStep(1, 'Verifying scaffold integrity hashes...');
 if (!isBootstrapProject()) {
   printStatus(true, 'Scaffold integrity check skipped (not a TypeScript Bootstrap dependent project)');
-  console.log('');
+  print('');
 } else {
   try {
     const stagedFiles = getStagedFiles({ targetDir: process.cwd(), exec: execSync });
@@ -92,14 +166,13 @@ if (!isBootstrapProject()) {
 
     if (!result.ok) {
       printStatus(false, 'Managed scaffold files were modified');
-      console.log('\nFiles with hash mismatches:');
+      print('\nFiles with hash mismatches:');
       result.violations.forEach(({ file, reason }) => {
-        console.log(`  - ${file} (${reason})`);
+        print(`  - ${file} (${reason})`);
       });
       log(colors.yellow, '\n💡 To intentionally accept these changes, run: npm run hash:update');
       log(colors.yellow, '💡 If you did not intend to change managed files, restore them or run: typescript-bootstrap update');
-      log(colors.red, '\n❌ Commit aborted: Managed scaffold files cannot be committed with stale hashes');
-      process.exit(1);
+      abort('INTEGRITY_MISMATCH', 'Managed scaffold files cannot be committed with stale hashes');
     }
 
     printStatus(true, `Scaffold integrity check passed (${result.checkedFiles.length} managed staged file(s) checked)`);
@@ -108,272 +181,322 @@ if (!isBootstrapProject()) {
     if (error.message?.includes(HASH_MANIFEST_RELATIVE_PATH)) {
       log(colors.yellow, '\n💡 Hash manifest is missing. Run: typescript-bootstrap update');
     } else {
-      console.log(error.message || String(error));
+      print(error.message || String(error));
     }
-    log(colors.red, '\n❌ Commit aborted: Could not verify managed scaffold file integrity');
-    process.exit(1);
+    abort('INTEGRITY_CHECK_FAILED', 'Could not verify managed scaffold file integrity');
   }
-  console.log('');
+  print('');
 }
 
 // Step 2: Enforce version bump
-console.log('Step 2: Enforcing version bump...');
-try {
-  const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
-  const currentVersion = packageJson.version;
-  
-  // Get the version from the last commit
-  let lastVersion;
+startStep(2, 'Enforcing version bump...');
+if (!runsHere('repository')) {
+  printStatus(true, 'Version check runs once at the workspace root');
+  print('');
+} else {
   try {
-    const lastPackageJson = execSync('git show HEAD:package.json', {
-      encoding: 'utf-8',
-      stdio: 'pipe'
-    });
-    lastVersion = JSON.parse(lastPackageJson).version;
-  } catch (error) {
-    // No previous commit (initial commit) or package.json doesn't exist in HEAD
-    // This is fine, skip the check
-    printStatus(true, 'Version check skipped (no previous version to compare)');
-    console.log('');
-  }
-  
-  if (lastVersion) {
-    // Parse semantic versions
-    const parseVersion = (v) => v.split('.').map(Number);
-    const [currMajor, currMinor, currPatch] = parseVersion(currentVersion);
-    const [lastMajor, lastMinor, lastPatch] = parseVersion(lastVersion);
-    
-    // Check if current version is lower than last version
-    const isDowngrade = 
-      currMajor < lastMajor ||
-      (currMajor === lastMajor && currMinor < lastMinor) ||
-      (currMajor === lastMajor && currMinor === lastMinor && currPatch < lastPatch);
+    const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+    const currentVersion = packageJson.version;
     
-    const isSameVersion = currentVersion === lastVersion;
-
-    if (isDowngrade) {
-      printStatus(false, `Version downgrade detected: ${lastVersion} → ${currentVersion}`);
-      log(colors.yellow, '\n💡 Version downgrades are not allowed. Use one of these commands:');
-      log(colors.yellow, '   - npm run version:patch (for bug fixes)');
-      log(colors.yellow, '   - npm run version:minor (for new features)');
-      log(colors.yellow, '   - npm run version:major (for breaking changes)');
-      log(colors.red, '\n❌ Commit aborted: Never downgrade package versions');
-      process.exit(1);
-    }
-
-    if (isSameVersion) {
-      printStatus(false, `Version was not bumped: ${lastVersion} → ${currentVersion}`);
-      log(colors.yellow, '\n💡 Every commit must bump package version. Use one of these commands:');
-      log(colors.yellow, '   - npm run version:patch (for bug fixes)');
-      log(colors.yellow, '   - npm run version:minor (for new features)');
-      log(colors.yellow, '   - npm run version:major (for breaking changes)');
-      log(colors.red, '\n❌ Commit aborted: package.json version must be incremented');
-      process.exit(1);
+    // Get the version from the last commit
+    let lastVersion;
+    try {
+      const lastPackageJson = execSync('git show HEAD:package.json', {
+        encoding: 'utf-8',
+        stdio: 'pipe'
+      });
+      lastVersion = JSON.parse(lastPackageJson).version;
+    } catch (error) {
+      // No previous commit (initial commit) or package.json doesn't exist in HEAD
+      // This is fine, skip the check
+      printStatus(true, 'Version check skipped (no previous version to compare)');
+      print('');
     }
     
-    printStatus(true, `Version check passed: ${lastVersion} → ${currentVersion}`);
-    console.log('');
+    if (lastVersion) {
+      // Parse semantic versions
+      const parseVersion = (v) => v.split('.').map(Number);
+      const [currMajor, currMinor, currPatch] = parseVersion(currentVersion);
+      const [lastMajor, lastMinor, lastPatch] = parseVersion(lastVersion);
+      
+      // Check if current version is lower than last version
+      const isDowngrade = 
+        currMajor < lastMajor ||
+        (currMajor === lastMajor && currMinor < lastMinor) ||
+        (currMajor === lastMajor && currMinor === lastMinor && currPatch < lastPatch);
+      
+      const isSameVersion = currentVersion === lastVersion;
+
+      if (isDowngrade) {
+        printStatus(false, `Version downgrade detected: ${lastVersion} → ${currentVersion}`);
+        log(colors.yellow, '\n💡 Version downgrades are not allowed. Use one of these commands:');
+        log(colors.yellow, '   - npm run version:patch (for bug fixes)');
+        log(colors.yellow, '   - npm run version:minor (for new features)');
+        log(colors.yellow, '   - npm run version:major (for breaking changes)');
+        abort('VERSION_DOWNGRADE', 'Never downgrade package versions');
+      }
+
+      if (isSameVersion) {
+        printStatus(false, `Version was not bumped: ${lastVersion} → ${currentVersion}`);
+        log(colors.yellow, '\n💡 Every commit must bump package version. Use one of these commands:');
+        log(colors.yellow, '   - npm run version:patch (for bug fixes)');
+        log(colors.yellow, '   - npm run version:minor (for new features)');
+        log(colors.yellow, '   - npm run version:major (for breaking changes)');
+        abort('VERSION_NOT_BUMPED', 'package.json version must be incremented');
+      }
+      
+      printStatus(true, `Version check passed: ${lastVersion} → ${currentVersion}`);
+      print('');
+    }
+  } catch (error) {
+    // If we can't read package.json, let it fail in later checks
+    printStatus(false, 'Could not check version');
+    abort('PACKAGE_JSON_INVALID', 'Could not read package.json');
   }
-} catch (error) {
-  // If we can't read package.json, let it fail in later checks
-  printStatus(false, 'Could not check version');
-  log(colors.red, '\n❌ Commit aborted: Could not read package.json');
-  process.exit(1);
 }
 
 // Step 3: Verify package-lock.json is in sync
-console.log('Step 3: Verifying package-lock.json...');
-try {
-  // Check if package-lock.json exists
-  if (!fs.existsSync('package-lock.json')) {
-    printStatus(false, 'package-lock.json not found');
-    log(colors.yellow, '\n💡 Run "npm install" to generate package-lock.json');
-    log(colors.red, '\n❌ Commit aborted: package-lock.json is required for CI');
-    process.exit(1);
-  }
+startStep(3, 'Verifying package-lock.json...');
+// pnpm and yarn workspaces keep their own lockfile, which npm cannot verify
+const otherLockfile = ['pnpm-lock.yaml', 'yarn.lock'].find((file) => fs.existsSync(file));
+if (!runsHere('repository')) {
+  printStatus(true, 'package-lock.json is verified once at the workspace root');
+} else if (otherLockfile && !fs.existsSync('package-lock.json')) {
+  printStatus(true, `${otherLockfile} found, npm lockfile check skipped`);
+} else {
+  try {
+    // Check if package-lock.json exists
+    if (!fs.existsSync('package-lock.json')) {
+      printStatus(false, 'package-lock.json not found');
+      log(colors.yellow, '\n💡 Run "npm install" to generate package-lock.json');
+      abort('LOCKFILE_MISSING', 'package-lock.json is required for CI');
+    }
 
-  // Verify npm ci would work (validates package-lock.json is in sync)
-  execSync('npm ci --dry-run', { 
-    stdio: 'pipe',
-    encoding: 'utf-8'
-  });
-  
-  printStatus(true, 'package-lock.json is valid and in sync');
-} catch (error) {
-  printStatus(false, 'package-lock.json validation failed');
-  console.log(error.stdout?.toString().slice(-1000) || error.stderr?.toString().slice(-1000) || '');
-  log(colors.yellow, '\n💡 Run "npm install" to fix package-lock.json');
-  log(colors.red, '\n❌ Commit aborted: package-lock.json must be valid for npm ci to work in CI');
-  process.exit(1);
+    // Verify npm ci would work (validates package-lock.json is in sync)
+    execSync('npm ci --dry-run', { 
+      stdio: 'pipe',
+      encoding: 'utf-8'
+    });
+    
+    printStatus(true, 'package-lock.json is valid and in sync');
+  } catch (error) {
+    printStatus(false, 'package-lock.json validation failed');
+    print(error.stdout?.toString().slice(-1000) || error.stderr?.toString().slice(-1000) || '');
+    log(colors.yellow, '\n💡 Run "npm install" to fix package-lock.json');
+    abort('LOCKFILE_OUT_OF_SYNC', 'package-lock.json must be valid for npm ci to work in CI');
+  }
 }
-console.log('');
+print('');
 
 // Step 4: Run ESLint
-console.log('Step 4: Running ESLint...');
-try {
-  execSync('npm run lint', { 
-    stdio: 'pipe',
-    encoding: 'utf-8'
-  });
-  printStatus(true, 'ESLint passed - no violations');
-} catch (error) {
-  printStatus(false, 'ESLint found violations');
-  console.log(error.stdout?.toString().slice(-2000) || '');
-  log(colors.yellow, '\n💡 Run "npm run lint:fix" to auto-fix some issues');
-  log(colors.red, '\n❌ Commit aborted: Fix all ESLint errors before committing');
-  process.exit(1);
+startStep(4, 'Running ESLint...');
+if (!runsHere('package')) {
+  printStatus(true, 'ESLint runs in every workspace package (Step 0)');
+} else {
+  try {
+    execSync('npm run lint', { 
+      stdio: 'pipe',
+      encoding: 'utf-8'
+    });
+    printStatus(true, 'ESLint passed - no violations');
+  } catch (error) {
+    printStatus(false, 'ESLint found violations');
+    print(error.stdout?.toString().slice(-2000) || '');
+    log(colors.yellow, '\n💡 Run "npm run lint:fix" to auto-fix some issues');
+    abort('LINT_FAILED', 'Fix all ESLint errors before committing');
+  }
 }
-console.log('');
+print('');
 
 // Step 5: Check code duplication
-console.log('Step 5: Checking code duplication...');
-try {
-  // Run jscpd - it will exit with error code if threshold is exceeded
-  execSync('npx jscpd src --reporters json --silent', { 
-    stdio: 'pipe',
-    encoding: 'utf-8'
-  });
-  
-  // Read the report file
-  const reportPath = path.join(process.cwd(), 'report', 'jscpd-report.json');
-  if (fs.existsSync(reportPath)) {
-    const reportData = fs.readFileSync(reportPath, 'utf-8');
-    const report = JSON.parse(reportData);
-    const duplicationPercentage = report.statistics?.total?.percentage || 0;
+startStep(5, 'Checking code duplication...');
+if (!runsHere('package')) {
+  printStatus(true, 'Duplication check runs in every workspace package (Step 0)');
+} else {
+  try {
+    // Run jscpd - it will exit with error code if threshold is exceeded
+    execSync('npx jscpd src --reporters json --silent', { 
+      stdio: 'pipe',
+      encoding: 'utf-8'
+    });
     
-    const DUPLICATION_THRESHOLD = 1;
-    if (duplicationPercentage > DUPLICATION_THRESHOLD) {
+    // Read the report file
+    const reportPath = path.join(process.cwd(), 'report', 'jscpd-report.json');
+    if (fs.existsSync(reportPath)) {
+      const reportData = fs.readFileSync(reportPath, 'utf-8');
+      const report = JSON.parse(reportData);
+      const duplicationPercentage = report.statistics?.total?.percentage || 0;
+      
+      const DUPLICATION_THRESHOLD = 1;
+      if (duplicationPercentage > DUPLICATION_THRESHOLD) {
+        printStatus(false, `Code duplication too high: ${duplicationPercentage.toFixed(2)}% (maximum: ${DUPLICATION_THRESHOLD}%)`);
+        log(colors.yellow, '\n💡 Run "npx jscpd src" to see detailed duplication report');
+        abort('DUPLICATION_TOO_HIGH', `Code duplication must be at most ${DUPLICATION_THRESHOLD}%`);
+      }
+      
+      printStatus(true, `Duplication check passed (${duplicationPercentage.toFixed(2)}% <= ${DUPLICATION_THRESHOLD}%)`);
+    } else {
+      // No report file means no duplication
+      printStatus(true, 'Duplication check passed (0.00% <= 1%)');
+    }
+  } catch (error) {
+    // jscpd exits with non-zero if duplication exceeds threshold
+    const reportPath = path.join(process.cwd(), 'report', 'jscpd-report.json');
+    if (fs.existsSync(reportPath)) {
+      const reportData = fs.readFileSync(reportPath, 'utf-8');
+      const report = JSON.parse(reportData);
+      const duplicationPercentage = report.statistics?.total?.percentage || 0;
+      
+      const DUPLICATION_THRESHOLD = 1;
       printStatus(false, `Code duplication too high: ${duplicationPercentage.toFixed(2)}% (maximum: ${DUPLICATION_THRESHOLD}%)`);
-      log(colors.red, `\n❌ Commit aborted: Code duplication must be at most ${DUPLICATION_THRESHOLD}%`);
-      log(colors.yellow, 'Run "npx jscpd src" to see detailed duplication report');
-      process.exit(1);
+      log(colors.yellow, '\n💡 Run "npx jscpd src" to see detailed duplication report');
+      abort('DUPLICATION_TOO_HIGH', `Code duplication must be at most ${DUPLICATION_THRESHOLD}%`);
+    } else {
+      printStatus(false, 'Duplication check failed - could not read report');
+      abort('DUPLICATION_CHECK_FAILED', 'Could not determine duplication percentage');
     }
-    
-    printStatus(true, `Duplication check passed (${duplicationPercentage.toFixed(2)}% <= ${DUPLICATION_THRESHOLD}%)`);
-  } else {
-    // No report file means no duplication
-    printStatus(true, 'Duplication check passed (0.00% <= 1%)');
-  }
-} catch (error) {
-  // jscpd exits with non-zero if duplication exceeds threshold
-  const reportPath = path.join(process.cwd(), 'report', 'jscpd-report.json');
-  if (fs.existsSync(reportPath)) {
-    const reportData = fs.readFileSync(reportPath, 'utf-8');
-    const report = JSON.parse(reportData);
-    const duplicationPercentage = report.statistics?.total?.percentage || 0;
-    
-    const DUPLICATION_THRESHOLD = 1;
-    printStatus(false, `Code duplication too high: ${duplicationPercentage.toFixed(2)}% (maximum: ${DUPLICATION_THRESHOLD}%)`);
-    log(colors.red, `\n❌ Commit aborted: Code duplication must be at most ${DUPLICATION_THRESHOLD}%`);
-    log(colors.yellow, 'Run "npx jscpd src" to see detailed duplication report');
-    process.exit(1);
-  } else {
-    printStatus(false, 'Duplication check failed - could not read report');
-    log(colors.red, '\n❌ Commit aborted: Could not determine duplication percentage');
-    process.exit(1);
   }
 }
-console.log('');
+print('');
 
 // Step 6: Check for secrets
-console.log('Step 6: Checking for secrets...');
-try {
-  // Get list of staged files (excluding .husky directory to avoid false positives)
-  const stagedFiles = execSync('git diff --cached --name-only', {
-    encoding: 'utf-8'
-  }).trim().split('\n').filter(f => f && !f.startsWith('.husky/'));
-
-  const secretPatterns = [
-    { regex: /_authToken=.+/i, description: 'Auth token' },
-    { regex: /password\s*=\s*['"][^'"]+['"]/i, description: 'Password' },
-    { regex: /api[_-]?key\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'API key' },
-    { regex: /secret[_-]?key\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'Secret key' },
-    { regex: /token\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'Token' },
-    { regex: /bearer\s+[a-zA-Z0-9\-._~+\/]+=*/i, description: 'Bearer token' },
-    { regex: /ghp_[a-zA-Z0-9]{36}/i, description: 'GitHub Personal Access Token' },
-    { regex: /gho_[a-zA-Z0-9]{36}/i, description: 'GitHub OAuth token' },
-    { regex: /github_pat_[a-zA-Z0-9]{22}_[a-zA-Z0-9]{59}/i, description: 'GitHub fine-grained PAT' },
-  ];
-
-  const secretsFound = [];
-
-  for (const file of stagedFiles) {
-    if (!fs.existsSync(file)) continue;
-    
-    const content = fs.readFileSync(file, 'utf-8');
-    const lines = content.split('\n');
-
-    secretPatterns.forEach(({ regex, description }) => {
-      lines.forEach((line, index) => {
-        if (regex.test(line) && !line.includes('${GITHUB_TOKEN}')) {
-          secretsFound.push({
-            file,
-            line: index + 1,
-            description,
-            preview: line.substring(0, 80).trim() + (line.length > 80 ? '...' : '')
-          });
-        }
+startStep(6, 'Checking for secrets...');
+if (!runsHere('repository')) {
+  printStatus(true, 'Secrets are checked once at the workspace root');
+} else {
+  try {
+    // Get list of staged files (excluding .husky directory to avoid false positives)
+    const stagedFiles = execSync('git diff --cached --name-only', {
+      encoding: 'utf-8'
+    }).trim().split('\n').filter(f => f && !f.startsWith('.husky/'));
+
+    const secretPatterns = [
+      { regex: /_authToken=.+/i, description: 'Auth token' },
+      { regex: /password\s*=\s*['"][^'"]+['"]/i, description: 'Password' },
+      { regex: /api[_-]?key\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'API key' },
+      { regex: /secret[_-]?key\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'Secret key' },
+      { regex: /token\s*[:=]\s*['"]?[a-zA-Z0-9]{20,}['"]?/i, description: 'Token' },
+      { regex: /bearer\s+[a-zA-Z0-9\-._~+\/]+=*/i, description: 'Bearer token' },
+      { regex: /ghp_[a-zA-Z0-9]{36}/i, description: 'GitHub Personal Access Token' },
+      { regex: /gho_[a-zA-Z0-9]{36}/i, description: 'GitHub OAuth token' },
+      { regex: /github_pat_[a-zA-Z0-9]{22}_[a-zA-Z0-9]{59}/i, description: 'GitHub fine-grained PAT' },
+    ];
+
+    const secretsFound = [];
+
+    for (const file of stagedFiles) {
+      if (!fs.existsSync(file)) continue;
+      
+      const content = fs.readFileSync(file, 'utf-8');
+      const lines = content.split('\n');
+
+      secretPatterns.forEach(({ regex, description }) => {
+        lines.forEach((line, index) => {
+          if (regex.test(line) && !line.includes('${GITHUB_TOKEN}')) {
+            secretsFound.push({
+              file,
+              line: index + 1,
+              description,
+              preview: line.substring(0, 80).trim() + (line.length > 80 ? '...' : '')
+            });
+          }
+        });
       });
-    });
-  }
+    }
 
-  if (secretsFound.length > 0) {
-    printStatus(false, `Found ${secretsFound.length} potential secret(s)`);
-    console.log('\nSecrets detected:');
-    secretsFound.forEach(({ file, line, description, preview }) => {
-      console.log(`  ${file}:${line} - ${description}`);
-      console.log(`    ${preview}`);
-    });
-    log(colors.yellow, '\n💡 Never commit secrets, tokens, or passwords');
-    log(colors.yellow, 'Use environment variables like ${GITHUB_TOKEN} instead');
-    log(colors.red, '\n❌ Commit aborted: Remove all secrets before committing');
-    process.exit(1);
-  }
+    if (secretsFound.length > 0) {
+      printStatus(false, `Found ${secretsFound.length} potential secret(s)`);
+      print('\nSecrets detected:');
+      secretsFound.forEach(({ file, line, description, preview }) => {
+        print(`  ${file}:${line} - ${description}`);
+        print(`    ${preview}`);
+      });
+      log(colors.yellow, '\n💡 Never commit secrets, tokens, or passwords');
+      log(colors.yellow, 'Use environment variables like ${GITHUB_TOKEN} instead');
+      abort('SECRETS_FOUND', 'Remove all secrets before committing');
+    }
 
-  printStatus(true, 'No secrets detected');
-} catch (error) {
-  if (error.code !== 1) {
-    // Don't fail on git diff errors (e.g., no staged files)
-    printStatus(true, 'No secrets detected (no staged files)');
-  } else {
-    throw error;
+    printStatus(true, 'No secrets detected');
+  } catch (error) {
+    if (error.code !== 1) {
+      // Don't fail on git diff errors (e.g., no staged files)
+      printStatus(true, 'No secrets detected (no staged files)');
+    } else {
+      throw error;
+    }
   }
 }
-console.log('');
+print('');
 
 // Step 7: TypeScript type check
-console.log('Step 7: TypeScript type checking...');
-try {
-  execSync('npx tsc --noEmit', { 
-    stdio: 'pipe',
-    encoding: 'utf-8'
-  });
-  printStatus(true, 'TypeScript type check passed');
-} catch (error) {
-  printStatus(false, 'TypeScript type errors found');
-  console.log(error.stdout?.toString() || '');
-  log(colors.red, '\n❌ Commit aborted: Fix all TypeScript errors before committing');
-  process.exit(1);
+startStep(7, 'TypeScript type checking...');
+if (!runsHere('package')) {
+  printStatus(true, 'Type check runs in every workspace package (Step 0)');
+} else {
+  try {
+    execSync('npx tsc --noEmit', { 
+      stdio: 'pipe',
+      encoding: 'utf-8'
+    });
+    printStatus(true, 'TypeScript type check passed');
+  } catch (error) {
+    printStatus(false, 'TypeScript type errors found');
+    print(error.stdout?.toString() || '');
+    abort('TYPE_CHECK_FAILED', 'Fix all TypeScript errors before committing');
+  }
 }
-console.log('');
+print('');
 
 // Step 8: Build check
-console.log('Step 8: Building project...');
-try {
-  execSync('npm run build', { 
-    stdio: 'pipe',
-    encoding: 'utf-8'
-  });
-  
-  printStatus(true, 'Build successful');
-} catch (error) {
-  printStatus(false, 'Build failed');
-  console.log(error.stdout?.toString().slice(-1000) || '');
-  log(colors.red, '\n❌ Commit aborted: Build must succeed without errors');
-  process.exit(1);
+startStep(8, 'Building project...');
+if (!runsHere('package')) {
+  printStatus(true, 'Build runs in every workspace package (Step 0)');
+} else {
+  try {
+    execSync('npm run build', { 
+      stdio: 'pipe',
+      encoding: 'utf-8'
+    });
+    
+    printStatus(true, 'Build successful');
+  } catch (error) {
+    printStatus(false, 'Build failed');
+    print(error.stdout?.toString().slice(-1000) || '');
+    abort('BUILD_FAILED', 'Build must succeed without errors');
+  }
+}
+print('');
+
+// Step 9: Validate the package a library would publish
+startStep(9, 'Validating package entry points...');
+if (!runsHere('package')) {
+  printStatus(true, 'Package validation runs in every workspace package (Step 0)');
+} else {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync('package.json', 'utf-8'));
+    if (!hasExportsMap(packageJson)) {
+      printStatus(true, 'Package validation skipped (package.json has no "exports" map)');
+    } else {
+      const problems = validatePackage({ targetDir: process.cwd() });
+      if (problems.length > 0) {
+        printStatus(false, `Found ${problems.length} package problem(s)`);
+        problems.forEach((problem) => print(`  - ${problem}`));
+        log(colors.yellow, '\n💡 Check "exports", "main", "types" and "files" in package.json against the files in dist/');
+        abort('PACKAGE_INVALID', 'The package must be publishable as built');
+      }
+      printStatus(true, 'Package entry points are valid and published');
+    }
+  } catch (error) {
+    printStatus(false, 'Package validation failed');
+    print(error.message || String(error));
+    abort('PACKAGE_JSON_INVALID', 'Could not validate package.json');
+  }
 }
-console.log('');
+print('');
 
 // All checks passed
 log(colors.green, '✅ All pre-commit checks passed!');
 log(colors.green, 'Proceeding with commit...');
+if (json) {
+  printJson({ ok: true, command: 'pre-commit', result: { checks } });
+}
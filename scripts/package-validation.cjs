@@ -0,0 +1,153 @@
+const fs = require('fs');
+const path = require('path');
+
+// Files npm always publishes, whatever the "files" whitelist says
+const ALWAYS_PUBLISHED = [/^package\.json$/i, /^readme(\.[^/]*)?$/i, /^licen[cs]e(\.[^/]*)?$/i];
+
+function readPackageJson(targetDir) {
+  return JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf-8'));
+}
+
+/**
+ * Whether a package declares an entry point map, i.e. is meant to be published and consumed
+ */
+function hasExportsMap(packageJson) {
+  return packageJson.exports !== undefined && packageJson.exports !== null;
+}
+
+function normalizeRelativePath(filePath) {
+  return filePath.replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function patternToRegExp(pattern) {
+  const source = normalizeRelativePath(pattern)
+    .split('**')
+    .map((part) => part.split('*').map((piece) => piece.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}(/.*)?$`);
+}
+
+function isPublished(files, relativePath) {
+  if (!Array.isArray(files) || ALWAYS_PUBLISHED.some((pattern) => pattern.test(relativePath))) {
+    return true;
+  }
+  const included = files.filter((entry) => !entry.startsWith('!')).some((entry) => patternToRegExp(entry).test(relativePath));
+  const excluded = files.filter((entry) => entry.startsWith('!')).some((entry) => patternToRegExp(entry.slice(1)).test(relativePath));
+  return included && !excluded;
+}
+
+// Module format a file is loaded as, from its extension and the package's "type"
+function moduleFormat(relativePath, packageType) {
+  if (/\.d\.cts$|\.cjs$/.test(relativePath)) {
+    return 'commonjs';
+  }
+  if (/\.d\.mts$|\.mjs$/.test(relativePath)) {
+    return 'module';
+  }
+  if (/\.(d\.ts|js)$/.test(relativePath)) {
+    return packageType === 'module' ? 'module' : 'commonjs';
+  }
+  return null;
+}
+
+// Every target of an exports map with the conditions leading to it, e.g. [["import", "types"], "./dist/index.d.ts"]
+function collectExportTargets(value, location, conditions, targets, problems) {
+  if (typeof value === 'string') {
+    targets.push({ location, conditions, target: value });
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => collectExportTargets(entry, `${location}[${index}]`, conditions, targets, problems));
+    return;
+  }
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+
+  const keys = Object.keys(value);
+  const isConditionMap = keys.length > 0 && !keys[0].startsWith('.');
+  if (isConditionMap && keys.includes('types') && keys[0] !== 'types') {
+    problems.push(`${location}: "types" must be the first condition, or TypeScript never reaches it`);
+  }
+  if (isConditionMap && keys.includes('default') && keys[keys.length - 1] !== 'default') {
+    problems.push(`${location}: "default" must be the last condition, or the conditions after it are never used`);
+  }
+  keys.forEach((key) => collectExportTargets(
+    value[key],
+    `${location}["${key}"]`,
+    isConditionMap ? [...conditions, key] : conditions,
+    targets,
+    problems
+  ));
+}
+
+/**
+ * Problems that would make a published package break for its consumers, in the spirit of publint:
+ * entry points that are missing from the build or from the "files" whitelist, exports conditions
+ * in an order resolvers skip, and import/require targets in the wrong module format.
+ * Run after a build; an empty list means the package is fine to publish.
+ */
+function validatePackage({ targetDir = process.cwd() } = {}) {
+  const packageJson = readPackageJson(targetDir);
+  const problems = [];
+
+  if (!Array.isArray(packageJson.files)) {
+    problems.push('"files" is missing: without a whitelist every file not in .npmignore or .gitignore is published');
+  }
+
+  const targets = ['main', 'module', 'types', 'typings']
+    .filter((field) => typeof packageJson[field] === 'string')
+    .map((field) => ({ location: `"${field}"`, conditions: [], target: packageJson[field] }));
+  if (hasExportsMap(packageJson)) {
+    collectExportTargets(packageJson.exports, '"exports"', [], targets, problems);
+  }
+
+  for (const { location, conditions, target } of targets) {
+    if (location.startsWith('"exports"') && !target.startsWith('./')) {
+      problems.push(`${location}: "${target}" must start with "./"`);
+      continue;
+    }
+    const relativePath = normalizeRelativePath(target);
+    if (relativePath.includes('*')) {
+      continue;
+    }
+    if (!fs.existsSync(path.join(targetDir, relativePath))) {
+      problems.push(`${location}: ${target} does not exist; run the build first`);
+      continue;
+    }
+    if (!isPublished(packageJson.files, relativePath)) {
+      problems.push(`${location}: ${target} is not included by "files", so it is not published`);
+    }
+
+    const format = moduleFormat(relativePath, packageJson.type);
+    if (conditions.includes('import') && format === 'commonjs') {
+      problems.push(`${location}: ${target} is loaded as CommonJS but is the "import" target`);
+    }
+    if (conditions.includes('require') && format === 'module') {
+      problems.push(`${location}: ${target} is loaded as an ES module but is the "require" target`);
+    }
+  }
+
+  return problems;
+}
+
+if (require.main === module) {
+  try {
+    const problems = validatePackage();
+    if (problems.length > 0) {
+      console.error('Package validation failed:');
+      problems.forEach((problem) => console.error(` - ${problem}`));
+      process.exit(1);
+    }
+    console.log('Package validation passed.');
+    process.exit(0);
+  } catch (error) {
+    console.error(`Failed to validate package: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+module.exports = {
+  hasExportsMap,
+  validatePackage,
+};
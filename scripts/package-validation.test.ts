@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+const validationModule = require('./package-validation.cjs');
+
+const { hasExportsMap, validatePackage } = validationModule as {
+  hasExportsMap: (packageJson: Record<string, unknown>) => boolean;
+  validatePackage: (options: { targetDir?: string }) => string[];
+};
+
+const LIBRARY_PACKAGE_JSON = {
+  name: 'my-library',
+  type: 'module',
+  files: ['dist'],
+  main: './dist/index.cjs',
+  types: './dist/index.d.ts',
+  exports: {
+    '.': {
+      import: { types: './dist/index.d.ts', default: './dist/index.js' },
+      require: { types: './dist/index.d.cts', default: './dist/index.cjs' },
+    },
+    './package.json': './package.json',
+  },
+};
+
+const BUILT_FILES = ['dist/index.js', 'dist/index.cjs', 'dist/index.d.ts', 'dist/index.d.cts'];
+
+function writePackage(packageJson: Record<string, unknown>, files: string[] = BUILT_FILES): string {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'package-validation-'));
+  fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+  for (const file of files) {
+    fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, file), '');
+  }
+  return tempDir;
+}
+
+describe('package-validation.cjs', () => {
+  it('accepts a built dual ESM/CommonJS package', () => {
+    const tempDir = writePackage(LIBRARY_PACKAGE_JSON);
+
+    expect(validatePackage({ targetDir: tempDir })).toEqual([]);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports entry points missing from the build', () => {
+    const tempDir = writePackage(LIBRARY_PACKAGE_JSON, ['dist/index.js', 'dist/index.d.ts']);
+
+    expect(validatePackage({ targetDir: tempDir })).toEqual([
+      '"main": ./dist/index.cjs does not exist; run the build first',
+      '"exports"["."]["require"]["types"]: ./dist/index.d.cts does not exist; run the build first',
+      '"exports"["."]["require"]["default"]: ./dist/index.cjs does not exist; run the build first',
+    ]);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports a missing files whitelist and entry points it does not publish', () => {
+    const withoutFiles = writePackage({ ...LIBRARY_PACKAGE_JSON, files: undefined });
+    const outsideFiles = writePackage({ ...LIBRARY_PACKAGE_JSON, files: ['dist', '!dist/index.cjs'] });
+
+    expect(validatePackage({ targetDir: withoutFiles })).toEqual([
+      '"files" is missing: without a whitelist every file not in .npmignore or .gitignore is published',
+    ]);
+    expect(validatePackage({ targetDir: outsideFiles })).toEqual([
+      '"main": ./dist/index.cjs is not included by "files", so it is not published',
+      '"exports"["."]["require"]["default"]: ./dist/index.cjs is not included by "files", so it is not published',
+    ]);
+
+    fs.rmSync(withoutFiles, { recursive: true, force: true });
+    fs.rmSync(outsideFiles, { recursive: true, force: true });
+  });
+
+  it('reports conditions in an order resolvers skip', () => {
+    const tempDir = writePackage({
+      ...LIBRARY_PACKAGE_JSON,
+      exports: { '.': { default: './dist/index.js', types: './dist/index.d.ts' } },
+    });
+
+    expect(validatePackage({ targetDir: tempDir })).toEqual([
+      '"exports"["."]: "types" must be the first condition, or TypeScript never reaches it',
+      '"exports"["."]: "default" must be the last condition, or the conditions after it are never used',
+    ]);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports import and require targets in the wrong module format', () => {
+    const tempDir = writePackage({
+      ...LIBRARY_PACKAGE_JSON,
+      exports: {
+        '.': {
+          types: './dist/index.d.ts',
+          import: './dist/index.cjs',
+          require: './dist/index.js',
+        },
+      },
+    });
+
+    expect(validatePackage({ targetDir: tempDir })).toEqual([
+      '"exports"["."]["import"]: ./dist/index.cjs is loaded as CommonJS but is the "import" target',
+      '"exports"["."]["require"]: ./dist/index.js is loaded as an ES module but is the "require" target',
+    ]);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('reports export targets that are not relative to the package', () => {
+    const tempDir = writePackage({ ...LIBRARY_PACKAGE_JSON, exports: { '.': 'dist/index.js' } });
+
+    expect(validatePackage({ targetDir: tempDir })).toEqual(['"exports"["."]: "dist/index.js" must start with "./"']);
+
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('only treats packages with an exports map as published libraries', () => {
+    expect(hasExportsMap(LIBRARY_PACKAGE_JSON)).toBe(true);
+    expect(hasExportsMap({ name: 'my-app', main: 'dist/main.js' })).toBe(false);
+  });
+});
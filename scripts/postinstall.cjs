@@ -3,12 +3,12 @@
 const fs = require('fs');
 const path = require('path');
 const { pathToFileURL } = require('url');
+const { deriveProjectTitle, normalizeProjectName, validateProjectName } = require('./project-name.cjs');
 
 const GLOBAL_INSTALL_ENABLED_VALUE = 'true';
 const CI_ENABLED_VALUES = new Set(['true', '1']);
 const AUTO_INIT_DISABLED_VALUE = 'false';
 const DEFAULT_TEMPLATE = 'typescript';
-const VALID_TEMPLATES = new Set(['typescript', 'react']);
 const PACKAGE_NAMES = [
   '@diogo-org/typescript-bootstrap',
 ];
@@ -111,18 +111,23 @@ async function autoInitOnInstall(deps = {}) {
 
   // For existing projects with metadata, use the template from metadata
   // For fresh installs, use env var or default template
+  // Templates may also be local directories or template packages, which init and update validate
   const requestedTemplate = hasBootstrapMetadata
     ? packageJson.typescriptBootstrap.template
-    : (env.TS_BOOTSTRAP_TEMPLATE || DEFAULT_TEMPLATE);
-  const template = VALID_TEMPLATES.has(requestedTemplate)
-    ? requestedTemplate
+    : env.TS_BOOTSTRAP_TEMPLATE;
+  const template = typeof requestedTemplate === 'string' && requestedTemplate.trim().length > 0
+    ? requestedTemplate.trim()
     : DEFAULT_TEMPLATE;
-  const projectName = typeof packageJson.name === 'string' && packageJson.name.trim().length > 0
-    ? packageJson.name
-    : basename(targetDir);
+  const hasName = typeof packageJson.name === 'string' && packageJson.name.trim().length > 0;
+  const rawName = hasName ? packageJson.name : basename(targetDir);
+  // Nobody can answer a prompt during install, so an invalid name is replaced by its normalized form
+  const projectName = validateProjectName(rawName).length === 0 ? rawName : normalizeProjectName(rawName);
+  if (projectName !== rawName) {
+    log(`"${rawName}" is not a valid npm package name, using "${projectName}"`);
+  }
   const projectTitle = typeof packageJson.description === 'string' && packageJson.description.trim().length > 0
     ? packageJson.description
-    : projectName;
+    : (hasName ? projectName : deriveProjectTitle(rawName));
 
   try {
     const action = hasBootstrapMetadata ? 'Updating' : 'Initializing';
@@ -191,6 +191,40 @@ describe('postinstall.cjs', () => {
     }
   });
 
+  it('normalizes an invalid package name and titles a project named after its folder', async () => {
+    await runTest(
+      withPackageJson({
+        name: 'My App!',
+        version: '1.0.0',
+        dependencies: { [PACKAGE_NAME]: '^1.0.0' },
+      }),
+      {
+        log: () => {},
+        expectCalled: true,
+        expectedArgs: {
+          projectName: 'my-app',
+          projectTitle: 'my-app',
+          skipPrompts: true,
+          template: 'typescript',
+        },
+      }
+    );
+
+    const tempDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'postinstall-auto-init-')), 'Acme_Widgets');
+    fs.mkdirSync(tempDir);
+    fs.writeFileSync(path.join(tempDir, 'package.json'), JSON.stringify({ dependencies: { [PACKAGE_NAME]: '^1.0.0' } }), 'utf-8');
+    const bootstrapProject = vi.fn(async () => undefined);
+    try {
+      await autoInitOnInstall({ env: { INIT_CWD: tempDir }, bootstrapProject, log: vi.fn() });
+      expect(bootstrapProject).toHaveBeenCalledWith(expect.objectContaining({
+        projectName: 'acme_widgets',
+        projectTitle: 'Acme Widgets',
+      }));
+    } finally {
+      cleanupTempDir(path.dirname(tempDir));
+    }
+  });
+
   it('skips when package.json is invalid JSON', async () => {
     await runTest(withInvalidJson(), { expectCalled: false });
   });
@@ -287,6 +321,26 @@ describe('postinstall.cjs', () => {
     );
   });
 
+  it('keeps an external template recorded in the project metadata', async () => {
+    await runTest(
+      withPackageJson({
+        name: 'my-app',
+        version: '1.0.0',
+        dependencies: { [PACKAGE_NAME]: '^1.0.0' },
+        typescriptBootstrap: { template: '@acme/web-template' },
+      }),
+      {
+        expectCalled: true,
+        expectedArgs: {
+          projectName: 'my-app',
+          projectTitle: 'my-app',
+          skipPrompts: true,
+          template: '@acme/web-template',
+        },
+      }
+    );
+  });
+
   it('returns exit code 1 when bootstrap operation fails', async () => {
     await runErrorTest(
       {
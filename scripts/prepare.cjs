@@ -6,6 +6,19 @@
  */
 
 const { execSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Whether husky installs its hooks for dir. Hooks belong to the root of the git repository;
+ * workspace packages below it share the root's hooks.
+ * @param {string} dir - Directory to check
+ * @param {Function} existsSync - Function to check whether a path exists
+ * @returns {boolean} True when dir is the root of a git repository
+ */
+function isHooksRoot(dir, existsSync = fs.existsSync) {
+  return existsSync(path.join(dir, '.git'));
+}
 
 /**
  * Core logic for husky installation with dependency injection for testability
@@ -15,6 +28,8 @@ const { execSync } = require('child_process');
  * @param {Function} deps.log - Function for logging
  * @param {Function} deps.error - Function for error logging
  * @param {object} deps.env - Environment variables
+ * @param {Function} deps.existsSync - Function to check whether a path exists
+ * @param {Function} deps.cwd - Function returning the current working directory
  * @returns {number} Exit code (0 = success, 1 = failure)
  */
 function prepareHusky(deps = {}) {
@@ -23,7 +38,9 @@ function prepareHusky(deps = {}) {
     requireResolve = require.resolve,
     log = console.log,
     error = console.error,
-    env = process.env
+    env = process.env,
+    existsSync = fs.existsSync,
+    cwd = process.cwd
   } = deps;
 
   // Check if we're in a CI environment
@@ -35,6 +52,11 @@ function prepareHusky(deps = {}) {
     return 0;
   }
 
+  if (!isHooksRoot(cwd(), existsSync)) {
+    log('Not at the root of a git repository (e.g. a workspace package), skipping husky install');
+    return 0;
+  }
+
   // Check if husky is available using Node's module resolution
   // This is more robust than checking node_modules/husky directly
   try {
@@ -62,4 +84,4 @@ if (require.main === module) {
   process.exit(exitCode);
 }
 
-module.exports = { prepareHusky };
+module.exports = { prepareHusky, isHooksRoot };
@@ -2,7 +2,10 @@ import { describe, it, expect, vi } from 'vitest';
 import * as prepareModule from './prepare.cjs';
 
 // Import the function to test
-const { prepareHusky } = prepareModule as { prepareHusky: (deps?: Record<string, unknown>) => number };
+const { prepareHusky, isHooksRoot } = prepareModule as {
+  prepareHusky: (deps?: Record<string, unknown>) => number;
+  isHooksRoot: (dir: string, existsSync?: (path: string) => boolean) => boolean;
+};
 
 describe('prepare.cjs', () => {
   // Mock dependencies
@@ -11,7 +14,9 @@ describe('prepare.cjs', () => {
     requireResolve: vi.fn(),
     log: vi.fn(),
     error: vi.fn(),
-    env: {} as Record<string, string>
+    env: {} as Record<string, string>,
+    existsSync: vi.fn().mockReturnValue(true),
+    cwd: () => '/project'
   });
 
   it('should skip husky install when CI=true', () => {
@@ -27,6 +32,18 @@ describe('prepare.cjs', () => {
     expect(mocks.requireResolve).not.toHaveBeenCalled(); // CI check happens first
   });
 
+  it('should skip husky install outside the root of a git repository', () => {
+    const mocks = createMocks();
+    mocks.existsSync.mockReturnValue(false);
+
+    const exitCode = prepareHusky(mocks);
+
+    expect(exitCode).toBe(0);
+    expect(mocks.existsSync).toHaveBeenCalledWith('/project/.git');
+    expect(mocks.log).toHaveBeenCalledWith('Not at the root of a git repository (e.g. a workspace package), skipping husky install');
+    expect(mocks.execSync).not.toHaveBeenCalled();
+  });
+
   it('should skip husky install when CI=1', () => {
     const mocks = createMocks();
     mocks.env.CI = '1';
@@ -125,4 +142,11 @@ describe('prepare.cjs', () => {
     expect(mocks.error).toHaveBeenCalledWith('Failed to install husky hooks:', 'Command failed');
     expect(mocks.log).not.toHaveBeenCalledWith('Husky hooks installed successfully');
   });
+
+  it('should treat only a directory containing .git as the hooks root', () => {
+    const existsSync = vi.fn((checkedPath: string) => checkedPath === '/repo/.git');
+
+    expect(isHooksRoot('/repo', existsSync)).toBe(true);
+    expect(isHooksRoot('/repo/packages/api', existsSync)).toBe(false);
+  });
 });
@@ -0,0 +1,96 @@
+const { builtinModules } = require('module');
+
+const MAX_PACKAGE_NAME_LENGTH = 214;
+const RESERVED_NAMES = new Set(['node_modules', 'favicon.ico']);
+const SCOPED_NAME_PATTERN = /^@([^/]+)\/([^/]+)$/;
+const SPECIAL_CHARACTERS_PATTERN = /[~'!()*]/;
+const FALLBACK_NAME = 'my-project';
+
+function isUrlSafe(part) {
+  return encodeURIComponent(part) === part;
+}
+
+/**
+ * Problems that keep name from being published as a new npm package, following npm's rules.
+ * An empty list means the name is valid.
+ */
+function validateProjectName(name) {
+  if (typeof name !== 'string' || name.length === 0) {
+    return ['name must not be empty'];
+  }
+
+  const problems = [];
+  if (name.trim() !== name) {
+    problems.push('name cannot contain leading or trailing spaces');
+  }
+  if (name.startsWith('.') || name.startsWith('_')) {
+    problems.push('name cannot start with a period or an underscore');
+  }
+  if (name.length > MAX_PACKAGE_NAME_LENGTH) {
+    problems.push(`name cannot be longer than ${MAX_PACKAGE_NAME_LENGTH} characters`);
+  }
+  if (name.toLowerCase() !== name) {
+    problems.push('name cannot contain capital letters');
+  }
+  if (RESERVED_NAMES.has(name.toLowerCase()) || builtinModules.includes(name.toLowerCase())) {
+    problems.push(`${name} is a reserved name`);
+  }
+
+  const scoped = SCOPED_NAME_PATTERN.exec(name);
+  const parts = scoped ? [scoped[1], scoped[2]] : [name];
+  if (SPECIAL_CHARACTERS_PATTERN.test(parts[parts.length - 1])) {
+    problems.push('name cannot contain special characters ("~\'!()*")');
+  }
+  if (!parts.every(isUrlSafe)) {
+    problems.push('name can only contain URL-friendly characters');
+  } else if (scoped && scoped[2].startsWith('.')) {
+    problems.push('the name of a scoped package cannot start with a period');
+  }
+
+  return problems;
+}
+
+function normalizeNamePart(part) {
+  return part
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^[._-]+/, '')
+    .replace(/[._-]+$/, '');
+}
+
+/**
+ * The closest valid package name: lowercase, accents dropped, and runs of other characters turned
+ * into dashes; "My App!" becomes "my-app". A scope is kept when it normalizes to a valid scope.
+ */
+function normalizeProjectName(rawName) {
+  const trimmed = String(rawName).trim();
+  const scoped = SCOPED_NAME_PATTERN.exec(trimmed);
+  const scope = scoped ? normalizeNamePart(scoped[1]) : '';
+  let name = normalizeNamePart(scoped ? scoped[2] : trimmed) || FALLBACK_NAME;
+
+  if (RESERVED_NAMES.has(name) || builtinModules.includes(name)) {
+    name = `${name}-project`;
+  }
+  const prefix = scope ? `@${scope}/` : '';
+  return `${prefix}${name.slice(0, MAX_PACKAGE_NAME_LENGTH - prefix.length).replace(/[._-]+$/, '')}`;
+}
+
+/**
+ * A readable title from the raw name, e.g. a folder name: "my-app" and "my_app" become "My App"
+ */
+function deriveProjectTitle(rawName) {
+  const unscoped = String(rawName).trim().replace(/^@[^/]+\//, '');
+  const words = unscoped.split(/[\s_-]+/).filter((word) => word.length > 0);
+  return words.length > 0
+    ? words.map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`).join(' ')
+    : unscoped;
+}
+
+module.exports = {
+  deriveProjectTitle,
+  normalizeProjectName,
+  validateProjectName,
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+const projectNameModule = require('./project-name.cjs');
+
+const { deriveProjectTitle, normalizeProjectName, validateProjectName } = projectNameModule as {
+  deriveProjectTitle: (rawName: string) => string;
+  normalizeProjectName: (rawName: string) => string;
+  validateProjectName: (name: string) => string[];
+};
+
+describe('project-name.cjs', () => {
+  it('accepts valid package names, scoped ones included', () => {
+    expect(validateProjectName('my-app')).toEqual([]);
+    expect(validateProjectName('@acme/web.app_2')).toEqual([]);
+  });
+
+  it('lists every rule an invalid name breaks', () => {
+    expect(validateProjectName('')).toEqual(['name must not be empty']);
+    expect(validateProjectName('My App!')).toEqual([
+      'name cannot contain capital letters',
+      'name cannot contain special characters ("~\'!()*")',
+      'name can only contain URL-friendly characters',
+    ]);
+    expect(validateProjectName('.hidden')).toContain('name cannot start with a period or an underscore');
+    expect(validateProjectName(' padded ')).toContain('name cannot contain leading or trailing spaces');
+    expect(validateProjectName('a'.repeat(215))).toContain('name cannot be longer than 214 characters');
+    expect(validateProjectName('fs')).toContain('fs is a reserved name');
+    expect(validateProjectName('node_modules')).toContain('node_modules is a reserved name');
+    expect(validateProjectName('@acme/.app')).toContain('the name of a scoped package cannot start with a period');
+  });
+
+  it('normalizes names into valid package names', () => {
+    expect(normalizeProjectName('My App!')).toBe('my-app');
+    expect(normalizeProjectName('  __Über Cool--Tool__ ')).toBe('uber-cool-tool');
+    expect(normalizeProjectName('@Acme Corp/Web App')).toBe('@acme-corp/web-app');
+    expect(normalizeProjectName('http')).toBe('http-project');
+    expect(normalizeProjectName('!!!')).toBe('my-project');
+    expect(normalizeProjectName('x'.repeat(300))).toHaveLength(214);
+
+    for (const rawName of ['My App!', '@Acme Corp/Web App', '.hidden', '!!!']) {
+      expect(validateProjectName(normalizeProjectName(rawName))).toEqual([]);
+    }
+  });
+
+  it('derives readable titles from folder names', () => {
+    expect(deriveProjectTitle('my-app')).toBe('My App');
+    expect(deriveProjectTitle('acme_widgets')).toBe('Acme Widgets');
+    expect(deriveProjectTitle('@acme/web-app')).toBe('Web App');
+    expect(deriveProjectTitle('My App!')).toBe('My App!');
+  });
+});
@@ -8,14 +8,52 @@ const { execSync } = require('child_process');
 const HASH_ALGORITHM = 'sha256';
 const HASH_MANIFEST_RELATIVE_PATH = '.github/typescript-bootstrap-hashes.json';
 const MANIFEST_VERSION = 1;
+const STATUS_COLUMN_WIDTH = 13;
+const MANAGED_BLOCK_START = '# >>> typescript-bootstrap >>>';
+const MANAGED_BLOCK_END = '# <<< typescript-bootstrap <<<';
 
 function normalizeRelativePath(filePath) {
   return filePath.split(path.sep).join('/').replace(/^\.\//, '');
 }
 
+class ManagedBlockError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ManagedBlockError';
+    this.code = 'INVALID_MANAGED_BLOCK';
+  }
+}
+
+function splitLines(content) {
+  return content.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+// Line range of the typescript-bootstrap block, or null when the file has none
+function findManagedBlock(lines) {
+  const start = lines.indexOf(MANAGED_BLOCK_START);
+  const end = lines.indexOf(MANAGED_BLOCK_END);
+  if (start === -1 && end === -1) {
+    return null;
+  }
+  if (start === -1 || end < start) {
+    throw new ManagedBlockError(
+      `Unterminated typescript-bootstrap block: expected "${MANAGED_BLOCK_START}" followed by "${MANAGED_BLOCK_END}"`
+    );
+  }
+  return { start, end };
+}
+
+function extractManagedBlock(content) {
+  const lines = splitLines(content);
+  const block = findManagedBlock(lines);
+  return block ? `${lines.slice(block.start, block.end + 1).join('\n')}\n` : null;
+}
+
+// Files with a typescript-bootstrap block only have that block hashed, so lines around it can change
 function getFileHash(filePath) {
   const content = fs.readFileSync(filePath);
-  return crypto.createHash(HASH_ALGORITHM).update(content).digest('hex');
+  const block = extractManagedBlock(content.toString('utf-8'));
+  return crypto.createHash(HASH_ALGORITHM).update(block ?? content).digest('hex');
 }
 
 function uniqueSortedPaths(paths) {
@@ -74,7 +112,8 @@ function readIntegrityManifest({
 }
 
 function getStagedFiles({ targetDir = process.cwd(), exec = execSync } = {}) {
-  const output = exec('git diff --cached --name-only', {
+  // Paths relative to targetDir, which may be a workspace package below the repository root
+  const output = exec('git diff --cached --name-only --relative', {
     cwd: targetDir,
     encoding: 'utf-8',
     stdio: 'pipe',
@@ -124,10 +163,59 @@ function verifyIntegrityAgainstManifest({
   };
 }
 
+function readEjectedFiles(targetDir) {
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf-8'));
+    const ejected = packageJson.typescriptBootstrap?.ejected;
+    return Array.isArray(ejected) ? uniqueSortedPaths(ejected.filter((entry) => typeof entry === 'string')) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Classify every managed file, not just staged ones: unchanged, modified or missing against the manifest,
+ * ejected through typescriptBootstrap.ejected, or unknown-extra when it is hashed or passed in extraFiles
+ * without being listed as managed
+ */
+function getIntegrityStatus({
+  targetDir = process.cwd(),
+  manifestRelativePath = HASH_MANIFEST_RELATIVE_PATH,
+  extraFiles = [],
+} = {}) {
+  const manifest = readIntegrityManifest({ targetDir, manifestRelativePath });
+  const managedFiles = uniqueSortedPaths(manifest.managedFiles || []);
+  const managedSet = new Set(managedFiles);
+  const ejectedFiles = readEjectedFiles(targetDir);
+  const files = [];
+
+  for (const relativeFile of managedFiles) {
+    const absolutePath = path.join(targetDir, relativeFile);
+    let status = 'unchanged';
+    if (!fs.existsSync(absolutePath)) {
+      status = 'missing';
+    } else if (getFileHash(absolutePath) !== manifest.hashes?.[relativeFile]) {
+      status = 'modified';
+    }
+    files.push({ file: relativeFile, status });
+  }
+
+  ejectedFiles
+    .filter((file) => !managedSet.has(file))
+    .forEach((file) => files.push({ file, status: 'ejected' }));
+
+  uniqueSortedPaths([...Object.keys(manifest.hashes || {}), ...extraFiles])
+    .filter((file) => !managedSet.has(file) && !ejectedFiles.includes(file))
+    .filter((file) => fs.existsSync(path.join(targetDir, file)))
+    .forEach((file) => files.push({ file, status: 'unknown-extra' }));
+
+  return files.sort((left, right) => left.file.localeCompare(right.file));
+}
+
 function refreshIntegrityManifest({
   targetDir = process.cwd(),
   manifestRelativePath = HASH_MANIFEST_RELATIVE_PATH,
-}) {
+} = {}) {
   const manifest = readIntegrityManifest({ targetDir, manifestRelativePath });
   return writeIntegrityManifest({
     targetDir,
@@ -136,8 +224,17 @@ function refreshIntegrityManifest({
   });
 }
 
+function errorCode(error) {
+  return error instanceof ManagedBlockError ? error.code : 'UNEXPECTED_ERROR';
+}
+
+function printJson(output) {
+  console.log(JSON.stringify(output, null, 2));
+}
+
 if (require.main === module) {
   const command = process.argv[2] || 'check';
+  const json = process.argv.includes('--json');
 
   if (command === 'update') {
     try {
@@ -154,6 +251,10 @@ if (require.main === module) {
     try {
       const stagedFiles = getStagedFiles();
       const result = verifyIntegrityAgainstManifest({ stagedFiles });
+      if (json) {
+        printJson({ ok: result.ok, command, result: { violations: result.violations } });
+        process.exit(result.ok ? 0 : 1);
+      }
       if (!result.ok) {
         console.error('Scaffold integrity check failed for staged managed files:');
         result.violations.forEach((violation) => {
@@ -163,20 +264,52 @@ if (require.main === module) {
       }
       process.exit(0);
     } catch (error) {
+      if (json) {
+        printJson({ ok: false, command, error: { code: errorCode(error), message: error.message } });
+        process.exit(1);
+      }
       console.error(`Failed to verify scaffold integrity: ${error.message}`);
       process.exit(1);
     }
   }
 
-  console.error(`Unknown command: ${command}. Use "check" or "update".`);
+  if (command === 'status') {
+    try {
+      const files = getIntegrityStatus();
+      if (json) {
+        printJson({ ok: true, command, result: { files } });
+        process.exit(0);
+      }
+      files.forEach((entry) => console.log(`${entry.status.padEnd(STATUS_COLUMN_WIDTH)} ${entry.file}`));
+      const drifted = files.filter((entry) => entry.status === 'modified' || entry.status === 'missing');
+      console.log(`${files.length} managed file(s), ${drifted.length} modified or missing.`);
+      process.exit(0);
+    } catch (error) {
+      if (json) {
+        printJson({ ok: false, command, error: { code: errorCode(error), message: error.message } });
+        process.exit(1);
+      }
+      console.error(`Failed to read scaffold status: ${error.message}`);
+      process.exit(1);
+    }
+  }
+
+  console.error(`Unknown command: ${command}. Use "check", "status" or "update".`);
   process.exit(1);
 }
 
 module.exports = {
   HASH_ALGORITHM,
   HASH_MANIFEST_RELATIVE_PATH,
+  MANAGED_BLOCK_END,
+  MANAGED_BLOCK_START,
+  ManagedBlockError,
+  extractManagedBlock,
+  findManagedBlock,
+  getIntegrityStatus,
   getStagedFiles,
   refreshIntegrityManifest,
+  splitLines,
   verifyIntegrityAgainstManifest,
   writeIntegrityManifest,
 };
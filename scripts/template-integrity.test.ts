@@ -6,10 +6,14 @@ const integrityModule = require('./template-integrity.cjs');
 
 const {
   HASH_MANIFEST_RELATIVE_PATH,
+  getIntegrityStatus,
+  refreshIntegrityManifest,
   verifyIntegrityAgainstManifest,
   writeIntegrityManifest,
 } = integrityModule as {
   HASH_MANIFEST_RELATIVE_PATH: string;
+  getIntegrityStatus: (options: { targetDir?: string; extraFiles?: string[] }) => Array<{ file: string; status: string }>;
+  refreshIntegrityManifest: (options?: { targetDir?: string }) => { hashes: Record<string, string> };
   verifyIntegrityAgainstManifest: (options: {
     targetDir?: string;
     stagedFiles?: string[];
@@ -57,6 +61,25 @@ describe('template-integrity.cjs', () => {
     }
   });
 
+  it('refreshes the manifest of the current directory when called without options, as hash:update does', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-refresh-'));
+    const originalCwd = process.cwd();
+
+    try {
+      fs.writeFileSync(path.join(tempDir, 'eslint.config.js'), 'export default []\n', 'utf-8');
+      writeIntegrityManifest({ targetDir: tempDir, managedFiles: ['eslint.config.js'] });
+      fs.writeFileSync(path.join(tempDir, 'eslint.config.js'), 'export default [{}]\n', 'utf-8');
+
+      process.chdir(tempDir);
+      refreshIntegrityManifest();
+
+      expect(verifyIntegrityAgainstManifest({ targetDir: tempDir, stagedFiles: ['eslint.config.js'] }).ok).toBe(true);
+    } finally {
+      process.chdir(originalCwd);
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
   it('fails verification when staged managed file hash does not match', () => {
     const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-verify-fail-'));
 
@@ -111,4 +134,65 @@ describe('template-integrity.cjs', () => {
       fs.rmSync(tempDir, { recursive: true, force: true });
     }
   });
+
+  it('only hashes the typescript-bootstrap block of files that have one', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-block-'));
+    const block = '# >>> typescript-bootstrap >>>\nnode_modules\n# <<< typescript-bootstrap <<<\n';
+
+    try {
+      fs.writeFileSync(path.join(tempDir, '.gitignore'), block, 'utf-8');
+      writeIntegrityManifest({ targetDir: tempDir, managedFiles: ['.gitignore'] });
+
+      fs.writeFileSync(path.join(tempDir, '.gitignore'), `.env\n${block}coverage-local\n`, 'utf-8');
+      expect(verifyIntegrityAgainstManifest({ targetDir: tempDir, stagedFiles: ['.gitignore'] }).ok).toBe(true);
+
+      fs.writeFileSync(path.join(tempDir, '.gitignore'), block.replace('node_modules', 'dist'), 'utf-8');
+      expect(verifyIntegrityAgainstManifest({ targetDir: tempDir, stagedFiles: ['.gitignore'] }).ok).toBe(false);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails instead of hashing the whole file when the block has no end marker', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-block-'));
+
+    try {
+      fs.writeFileSync(path.join(tempDir, '.gitignore'), '# >>> typescript-bootstrap >>>\nnode_modules\n', 'utf-8');
+
+      expect(() => writeIntegrityManifest({ targetDir: tempDir, managedFiles: ['.gitignore'] }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_MANAGED_BLOCK' }));
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('classifies every managed file for status, not only staged ones', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-status-'));
+
+    try {
+      fs.mkdirSync(path.join(tempDir, '.husky'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'eslint.config.js'), 'export default []\n', 'utf-8');
+      fs.writeFileSync(path.join(tempDir, '.husky', 'pre-commit.cjs'), 'console.log("hook")\n', 'utf-8');
+      writeIntegrityManifest({ targetDir: tempDir, managedFiles });
+
+      fs.writeFileSync(path.join(tempDir, 'eslint.config.js'), 'export default [1]\n', 'utf-8');
+      fs.rmSync(path.join(tempDir, '.husky', 'pre-commit.cjs'));
+      fs.writeFileSync(path.join(tempDir, 'vite.config.ts'), 'export default {}\n', 'utf-8');
+      fs.writeFileSync(path.join(tempDir, 'tsconfig.json'), '{}\n', 'utf-8');
+      fs.writeFileSync(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({ typescriptBootstrap: { ejected: ['tsconfig.json'] } }),
+        'utf-8'
+      );
+
+      expect(getIntegrityStatus({ targetDir: tempDir, extraFiles: ['vite.config.ts', 'index.html'] })).toEqual([
+        { file: '.husky/pre-commit.cjs', status: 'missing' },
+        { file: 'eslint.config.js', status: 'modified' },
+        { file: 'tsconfig.json', status: 'ejected' },
+        { file: 'vite.config.ts', status: 'unknown-extra' },
+      ]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+
+/**
+ * Workspace packages of a monorepo root, as npm, yarn and pnpm declare them, and a runner that
+ * runs a script in every package and reports the results together.
+ */
+
+const { execSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+const PNPM_WORKSPACE_FILE = 'pnpm-workspace.yaml';
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+// The "packages:" list of pnpm-workspace.yaml; other keys are ignored
+function parsePnpmWorkspacePatterns(content) {
+  const patterns = [];
+  let inPackages = false;
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = /^packages\s*:/.test(line);
+      continue;
+    }
+    const entry = inPackages ? /^\s+-\s*(.+?)\s*$/.exec(line) : null;
+    if (entry) {
+      patterns.push(entry[1].replace(/^(["'])(.*)\1$/, '$2'));
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Workspace patterns of the project at rootDir: "workspaces" in package.json (npm and yarn, as an
+ * array or as { packages }) and "packages" in pnpm-workspace.yaml. Empty when it is not a workspace root.
+ */
+function readWorkspacePatterns(rootDir, { existsSync = fs.existsSync, readFileSync = fs.readFileSync } = {}) {
+  const patterns = [];
+  const packageJsonPath = path.join(rootDir, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    const { workspaces } = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+    const declared = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+    if (Array.isArray(declared)) {
+      patterns.push(...declared.filter((pattern) => typeof pattern === 'string'));
+    }
+  }
+
+  const pnpmWorkspacePath = path.join(rootDir, PNPM_WORKSPACE_FILE);
+  if (existsSync(pnpmWorkspacePath)) {
+    patterns.push(...parsePnpmWorkspacePatterns(readFileSync(pnpmWorkspacePath, 'utf-8')));
+  }
+  return [...new Set(patterns)];
+}
+
+function patternToRegExp(pattern) {
+  const source = pattern
+    .replace(/^\.\//, '')
+    .replace(/\/+$/, '')
+    .split('**')
+    .map((part) => part.split('*').map((piece) => piece.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+function listDirectories(rootDir, relativeDir, readdirSync) {
+  const directories = [];
+  for (const entry of readdirSync(path.join(rootDir, relativeDir), { withFileTypes: true })) {
+    if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      directories.push(relativePath, ...listDirectories(rootDir, relativePath, readdirSync));
+    }
+  }
+  return directories;
+}
+
+/**
+ * Directories, relative to rootDir with forward slashes, of the workspace packages: every directory
+ * with a package.json that a workspace pattern matches and no "!" pattern excludes
+ */
+function findWorkspacePackages(rootDir, { existsSync = fs.existsSync, readFileSync = fs.readFileSync, readdirSync = fs.readdirSync } = {}) {
+  const patterns = readWorkspacePatterns(rootDir, { existsSync, readFileSync });
+  const included = patterns.filter((pattern) => !pattern.startsWith('!')).map(patternToRegExp);
+  const excluded = patterns.filter((pattern) => pattern.startsWith('!')).map((pattern) => patternToRegExp(pattern.slice(1)));
+  if (included.length === 0) {
+    return [];
+  }
+
+  return listDirectories(rootDir, '', readdirSync)
+    .filter((directory) => included.some((pattern) => pattern.test(directory)))
+    .filter((directory) => !excluded.some((pattern) => pattern.test(directory)))
+    .filter((directory) => existsSync(path.join(rootDir, directory, 'package.json')))
+    .sort((left, right) => left.localeCompare(right));
+}
+
+/**
+ * Run an npm script in every workspace package that has it, continuing after failures, then print
+ * one line per package. Works with any package manager: npm run only executes the script.
+ * @returns {number} Exit code (0 = every package passed, 1 = at least one failed)
+ */
+function runInWorkspaces(script, deps = {}) {
+  const {
+    rootDir = process.cwd(),
+    exec = execSync,
+    log = console.log,
+    error = console.error,
+    packages = findWorkspacePackages(rootDir),
+  } = deps;
+
+  const results = packages.map((directory) => {
+    log(`\n▶ ${directory}: npm run ${script}`);
+    try {
+      exec(`npm run ${script} --if-present`, { cwd: path.join(rootDir, directory), stdio: 'inherit' });
+      return { directory, ok: true };
+    } catch (_error) {
+      return { directory, ok: false };
+    }
+  });
+
+  log(`\n"${script}" in ${results.length} workspace package(s):`);
+  results.forEach(({ directory, ok }) => (ok ? log : error)(`  ${ok ? '✓' : '✗'} ${directory}`));
+  return results.every(({ ok }) => ok) ? 0 : 1;
+}
+
+// Only execute when run directly (not when required/imported)
+if (require.main === module) {
+  const [command, script] = process.argv.slice(2);
+  if (command === 'list') {
+    findWorkspacePackages(process.cwd()).forEach((directory) => console.log(directory));
+    process.exit(0);
+  }
+  if (command === 'run' && script) {
+    process.exit(runInWorkspaces(script));
+  }
+  console.error('Usage: node scripts/workspaces.cjs list | run <script>');
+  process.exit(1);
+}
+
+module.exports = {
+  findWorkspacePackages,
+  readWorkspacePatterns,
+  runInWorkspaces,
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+const workspacesModule = require('./workspaces.cjs');
+
+const { findWorkspacePackages, readWorkspacePatterns, runInWorkspaces } = workspacesModule as {
+  findWorkspacePackages: (rootDir: string) => string[];
+  readWorkspacePatterns: (rootDir: string) => string[];
+  runInWorkspaces: (script: string, deps: {
+    rootDir?: string;
+    exec?: (command: string, options: { cwd: string }) => void;
+    log?: (message: string) => void;
+    error?: (message: string) => void;
+    packages?: string[];
+  }) => number;
+};
+
+describe('workspaces.cjs', () => {
+  let rootDir: string;
+
+  function writeFile(relativePath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(rootDir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, relativePath), content);
+  }
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspaces-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('reads workspace patterns of npm, yarn and pnpm', () => {
+    writeFile('package.json', JSON.stringify({ workspaces: ['packages/*', 'tools/cli'] }));
+    expect(readWorkspacePatterns(rootDir)).toEqual(['packages/*', 'tools/cli']);
+
+    writeFile('package.json', JSON.stringify({ workspaces: { packages: ['apps/*'], nohoist: ['**/react'] } }));
+    writeFile('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n  - \"apps/*\"\n  - '!**/test/**'\ncatalog:\n  react: ^18.0.0\n");
+    expect(readWorkspacePatterns(rootDir)).toEqual(['apps/*', 'packages/*', '!**/test/**']);
+  });
+
+  it('returns no patterns for a project that is not a workspace root', () => {
+    writeFile('package.json', JSON.stringify({ name: 'single' }));
+    expect(readWorkspacePatterns(rootDir)).toEqual([]);
+    expect(findWorkspacePackages(rootDir)).toEqual([]);
+  });
+
+  it('finds the directories with a package.json that the patterns match', () => {
+    writeFile('package.json', JSON.stringify({ workspaces: ['packages/*', 'apps/**', '!apps/legacy'] }));
+    writeFile('packages/web/package.json', '{}');
+    writeFile('packages/api/package.json', '{}');
+    writeFile('packages/notes/README.md', '');
+    writeFile('packages/web/node_modules/dep/package.json', '{}');
+    writeFile('apps/mobile/ios/package.json', '{}');
+    writeFile('apps/legacy/package.json', '{}');
+
+    expect(findWorkspacePackages(rootDir)).toEqual(['apps/mobile/ios', 'packages/api', 'packages/web']);
+  });
+
+  it('runs a script in every package and fails when any of them failed', () => {
+    const exec = vi.fn((_command: string, options: { cwd: string }) => {
+      if (options.cwd.endsWith('api')) {
+        throw new Error('exit 1');
+      }
+    });
+    const log = vi.fn();
+    const error = vi.fn();
+
+    const exitCode = runInWorkspaces('test', { rootDir, exec, log, error, packages: ['packages/api', 'packages/web'] });
+
+    expect(exitCode).toBe(1);
+    expect(exec).toHaveBeenCalledTimes(2);
+    expect(exec).toHaveBeenCalledWith('npm run test --if-present', expect.objectContaining({ cwd: path.join(rootDir, 'packages/web') }));
+    expect(error).toHaveBeenCalledWith('  ✗ packages/api');
+    expect(log).toHaveBeenCalledWith('  ✓ packages/web');
+  });
+
+  it('succeeds when every package passed', () => {
+    const exitCode = runInWorkspaces('build', { rootDir, exec: () => {}, log: () => {}, error: () => {}, packages: ['packages/web'] });
+
+    expect(exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createChangeSet, diskWriter } from './changeset.js';
+
+describe('changeset', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-bootstrap-changeset-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should create parent directories when writing through the disk writer', () => {
+    const filePath = path.join(testDir, 'nested', 'dir', 'file.txt');
+
+    diskWriter.writeFile(filePath, 'content');
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('content');
+  });
+
+  it('should keep staged writes in memory', () => {
+    const changeSet = createChangeSet(testDir);
+    const filePath = path.join(testDir, 'config', 'settings.json');
+
+    changeSet.writeFile(filePath, '{}');
+
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(changeSet.exists(filePath)).toBe(true);
+    expect(changeSet.readFile(filePath).toString('utf-8')).toBe('{}');
+  });
+
+  it('should report only files whose content differs from disk', () => {
+    fs.writeFileSync(path.join(testDir, 'same.txt'), 'same', 'utf-8');
+    fs.writeFileSync(path.join(testDir, 'changed.txt'), 'before', 'utf-8');
+
+    const changeSet = createChangeSet(testDir);
+    changeSet.writeFile(path.join(testDir, 'same.txt'), 'same');
+    changeSet.writeFile(path.join(testDir, 'changed.txt'), 'after');
+    changeSet.writeFile(path.join(testDir, 'sub', 'new.txt'), 'new');
+
+    const changes = changeSet.changes();
+
+    expect(changes.map((change) => change.relativePath)).toEqual(['changed.txt', 'sub/new.txt']);
+    expect(changes[0].previousContent?.toString('utf-8')).toBe('before');
+    expect(changes[0].content?.toString('utf-8')).toBe('after');
+    expect(changes[1].previousContent).toBeNull();
+  });
+
+  it('should stage removals and report them with null content', () => {
+    fs.writeFileSync(path.join(testDir, 'obsolete.json'), '{}', 'utf-8');
+
+    const changeSet = createChangeSet(testDir);
+    changeSet.removeFile(path.join(testDir, 'obsolete.json'));
+    changeSet.removeFile(path.join(testDir, 'never-existed.json'));
+
+    expect(fs.existsSync(path.join(testDir, 'obsolete.json'))).toBe(true);
+    expect(changeSet.exists(path.join(testDir, 'obsolete.json'))).toBe(false);
+    expect(() => changeSet.readFile(path.join(testDir, 'obsolete.json'))).toThrow(/staged for removal/);
+    expect(changeSet.changes()).toEqual([
+      { relativePath: 'obsolete.json', previousContent: Buffer.from('{}'), content: null },
+    ]);
+  });
+
+  it('should remove files from disk through the disk writer', () => {
+    const filePath = path.join(testDir, 'file.txt');
+    fs.writeFileSync(filePath, 'content', 'utf-8');
+
+    diskWriter.removeFile(filePath);
+    diskWriter.removeFile(filePath);
+
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Minimal file access used by the scaffolding helpers when writing into a project
+ */
+export interface FileWriter {
+  exists(filePath: string): boolean;
+  readFile(filePath: string): Buffer;
+  writeFile(filePath: string, content: string | Buffer): void;
+  removeFile(filePath: string): void;
+  // Names of the directories directly inside dirPath; file systems without it are not searched for workspace packages
+  listDirectories?(dirPath: string): string[];
+}
+
+/**
+ * A file whose content differs between the project on disk and the staged writes;
+ * content is null when the file is staged for removal
+ */
+export interface StagedChange {
+  relativePath: string;
+  previousContent: Buffer | null;
+  content: Buffer | null;
+}
+
+/**
+ * Writer that keeps every write in memory; changes() lists what would differ on disk
+ */
+export interface ChangeSet extends FileWriter {
+  changes(): StagedChange[];
+}
+
+/**
+ * Writer that goes straight to disk, creating parent directories as needed
+ */
+export const diskWriter: FileWriter = {
+  exists: (filePath) => fs.existsSync(filePath),
+  readFile: (filePath) => fs.readFileSync(filePath),
+  writeFile: (filePath, content) => {
+    const directory = path.dirname(filePath);
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+    fs.writeFileSync(filePath, content);
+  },
+  removeFile: (filePath) => {
+    fs.rmSync(filePath, { force: true });
+  },
+  listDirectories: (dirPath) => fs.readdirSync(dirPath, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name),
+};
+
+function toBuffer(content: string | Buffer): Buffer {
+  return typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+}
+
+/**
+ * Stage writes below rootDir in memory; reads see staged content before falling back to base
+ */
+export function createChangeSet(rootDir: string, base: FileWriter = diskWriter): ChangeSet {
+  // A null entry marks a staged removal
+  const staged = new Map<string, Buffer | null>();
+
+  const changes = (): StagedChange[] => {
+    const result: StagedChange[] = [];
+
+    for (const [absolutePath, content] of staged) {
+      const previousContent = base.exists(absolutePath) ? base.readFile(absolutePath) : null;
+      const unchanged = content === null
+        ? previousContent === null
+        : previousContent !== null && previousContent.equals(content);
+      if (unchanged) {
+        continue;
+      }
+
+      result.push({
+        relativePath: path.relative(rootDir, absolutePath).split(path.sep).join('/'),
+        previousContent,
+        content,
+      });
+    }
+
+    return result.sort((left, right) => left.relativePath.localeCompare(right.relativePath));
+  };
+
+  const readFile = (filePath: string): Buffer => {
+    const absolutePath = path.resolve(filePath);
+    if (!staged.has(absolutePath)) {
+      return base.readFile(filePath);
+    }
+
+    const content = staged.get(absolutePath);
+    if (!content) {
+      throw new Error(`ENOENT: file staged for removal, ${filePath}`);
+    }
+    return content;
+  };
+
+  return {
+    exists: (filePath) => {
+      const absolutePath = path.resolve(filePath);
+      return staged.has(absolutePath) ? staged.get(absolutePath) !== null : base.exists(filePath);
+    },
+    readFile,
+    writeFile: (filePath, content) => {
+      staged.set(path.resolve(filePath), toBuffer(content));
+    },
+    removeFile: (filePath) => {
+      staged.set(path.resolve(filePath), null);
+    },
+    changes,
+  };
+}
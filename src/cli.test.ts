@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CliUsageError, formatHelp, parseCliArgs, runCli } from './cli.js';
+import { consoleLogger, silentLogger } from './logger.js';
+import { BootstrapError, createResult } from './result.js';
+
+const mocks = vi.hoisted(() => ({
+  addPackage: vi.fn(async () => {}),
+  createOrUpdate: vi.fn(async () => {}),
+  doctor: vi.fn(async (): Promise<Array<{ severity: string }>> => []),
+  eject: vi.fn(async () => {}),
+  init: vi.fn(async () => {}),
+  status: vi.fn(async () => {}),
+  switchTemplate: vi.fn(async () => {}),
+  undo: vi.fn(async () => {}),
+  update: vi.fn(async (): Promise<unknown> => undefined),
+}));
+
+vi.mock('./index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./index.js')>()),
+  ...mocks,
+}));
+
+describe('cli', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('parseCliArgs', () => {
+    it('should default to create-or-update without a command', () => {
+      expect(parseCliArgs(['--template', 'react'])).toEqual({
+        kind: 'command',
+        command: 'create-or-update',
+        positionals: [],
+        flags: { template: 'react' },
+      });
+    });
+
+    it('should accept inline values and flag aliases', () => {
+      expect(parseCliArgs(['init', '--name=demo', '--title', 'Demo App', '-y'])).toEqual({
+        kind: 'command',
+        command: 'init',
+        positionals: [],
+        flags: { name: 'demo', title: 'Demo App', yes: true },
+      });
+      expect(parseCliArgs(['update', '--skip-prompts']).kind).toBe('command');
+    });
+
+    it('should return help for a command and version at the top level', () => {
+      expect(parseCliArgs(['eject', '--help'])).toEqual({ kind: 'help', command: 'eject' });
+      expect(parseCliArgs(['-h'])).toEqual({ kind: 'help', command: null });
+      expect(parseCliArgs(['--version'])).toEqual({ kind: 'version' });
+    });
+
+    it('should reject unknown flags and flags the command does not support', () => {
+      expect(() => parseCliArgs(['init', '--force'])).toThrow('Unknown option: --force');
+      expect(() => parseCliArgs(['undo', '--dry-run'])).toThrow('Unknown option: --dry-run');
+    });
+
+    it('should reject missing values and unknown commands', () => {
+      expect(() => parseCliArgs(['init', '--name'])).toThrow('Option --name requires a value');
+      expect(() => parseCliArgs(['init', '--dir', '--yes'])).toThrow('Option --dir requires a value');
+      expect(() => parseCliArgs(['upgrade'])).toThrow('Unknown command: upgrade');
+    });
+
+    it('should validate template references before running anything', () => {
+      expect(() => parseCliArgs(['init', '--template', 'Vue App'])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(['switch-template', '@acme/'])).toThrow('Invalid template: @acme/');
+      expect(() => parseCliArgs(['switch-template'])).toThrow('Expected exactly one template name');
+      expect(parseCliArgs(['init', '--template', './templates/web']).kind).toBe('command');
+      expect(parseCliArgs(['switch-template', '@acme/web-template']).kind).toBe('command');
+    });
+
+    it('should require files to eject', () => {
+      expect(() => parseCliArgs(['eject'])).toThrow('Expected at least one file to eject');
+      expect(parseCliArgs(['eject', 'vite.config.ts', 'tsconfig.json']).kind).toBe('command');
+    });
+
+    it('should require exactly one package name to add', () => {
+      expect(() => parseCliArgs(['add-package'])).toThrow('Expected exactly one package name');
+      expect(() => parseCliArgs(['add-package', 'api', 'web'])).toThrow('Expected exactly one package name');
+      expect(() => parseCliArgs(['add-package', 'api', '--template', 'Vue App'])).toThrow('Invalid template: Vue App');
+      expect(parseCliArgs(['add-package', '@acme/api', '--template', 'node-service'])).toEqual({
+        kind: 'command',
+        command: 'add-package',
+        positionals: ['@acme/api'],
+        flags: { template: 'node-service' },
+      });
+    });
+  });
+
+  describe('formatHelp', () => {
+    it('should list every command and the options of one command', () => {
+      const overview = formatHelp(null);
+      expect(overview).toContain('switch-template');
+      expect(overview).toContain('--version');
+
+      const updateHelp = formatHelp('update');
+      expect(updateHelp).toContain('Usage: typescript-bootstrap update [options]');
+      expect(updateHelp).toContain('-y, --yes, --skip-prompts');
+      expect(updateHelp).not.toContain('--template');
+    });
+  });
+
+  describe('runCli', () => {
+    it('should pass every option to init with an absolute directory', async () => {
+      const exitCode = await runCli(['init', '--name', 'demo', '--title', 'Demo', '--dir', 'projects/demo', '--template', 'typescript', '--yes']);
+
+      expect(exitCode).toBe(0);
+      expect(mocks.init).toHaveBeenCalledWith({
+        projectName: 'demo',
+        projectTitle: 'Demo',
+        targetDir: path.resolve('projects/demo'),
+        template: 'typescript',
+        skipPrompts: true,
+        logger: consoleLogger,
+      });
+    });
+
+    it('should add a package to the workspace root in the given directory', async () => {
+      expect(await runCli(['add-package', 'api', '--dir', 'repo', '--template', 'cli', '--yes'])).toBe(0);
+      expect(mocks.addPackage).toHaveBeenCalledWith({
+        projectName: 'api',
+        projectTitle: undefined,
+        targetDir: path.resolve('repo'),
+        template: 'cli',
+        skipPrompts: true,
+        logger: consoleLogger,
+      });
+    });
+
+    it('should exit with 1 when a workspace package could not be updated', async () => {
+      const result = createResult('updated', 'monorepo');
+      mocks.update.mockResolvedValueOnce({ ...result, workspacePackages: [{ directory: 'packages/api', result, error: null }] });
+      expect(await runCli(['update', '--yes'])).toBe(0);
+
+      mocks.update.mockResolvedValueOnce({ ...result, workspacePackages: [{ directory: 'packages/api', result: null, error: 'boom' }] });
+      expect(await runCli(['update', '--yes'])).toBe(1);
+    });
+
+    it('should run plan as a dry-run update', async () => {
+      await runCli(['plan']);
+
+      expect(mocks.update).toHaveBeenCalledWith({ targetDir: undefined, skipPrompts: false, dryRun: true, logger: consoleLogger });
+    });
+
+    it('should report usage errors without running a command', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await runCli(['update', '--bogus'])).toBe(1);
+      expect(error).toHaveBeenCalledWith('Unknown option: --bogus\nRun "typescript-bootstrap update --help" for usage.');
+      expect(mocks.update).not.toHaveBeenCalled();
+    });
+
+    it('should report command failures with a non-zero exit code', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failure = new Error('boom');
+      mocks.undo.mockRejectedValueOnce(failure);
+
+      expect(await runCli(['undo'])).toBe(1);
+      expect(error).toHaveBeenCalledWith('Error restoring project:', failure);
+    });
+
+    it('should run status for the given directory', async () => {
+      expect(await runCli(['status', '--dir', 'project'])).toBe(0);
+      expect(mocks.status).toHaveBeenCalledWith({ targetDir: path.resolve('project'), logger: consoleLogger });
+    });
+
+    it('should exit with 1 when doctor finds errors', async () => {
+      mocks.doctor.mockResolvedValueOnce([{ severity: 'warning' }]);
+      expect(await runCli(['doctor', '--dir', 'project'])).toBe(0);
+      expect(mocks.doctor).toHaveBeenCalledWith({ targetDir: path.resolve('project'), logger: consoleLogger });
+
+      mocks.doctor.mockResolvedValueOnce([{ severity: 'warning' }, { severity: 'error' }]);
+      expect(await runCli(['doctor'])).toBe(1);
+    });
+
+    it('should print the result as JSON without prompting or progress output', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const result = createResult('updated', 'react');
+      result.files.updated.push('tsconfig.json');
+      mocks.update.mockResolvedValueOnce(result);
+
+      expect(await runCli(['update', '--json'])).toBe(0);
+      expect(mocks.update).toHaveBeenCalledWith({ targetDir: undefined, skipPrompts: true, dryRun: false, logger: silentLogger });
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual({ ok: true, command: 'update', result });
+    });
+
+    it('should report failures as JSON with a stable error code', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      mocks.eject.mockRejectedValueOnce(new BootstrapError('UNMANAGED_FILE', 'Not managed by TypeScript Bootstrap: src/main.ts'));
+
+      expect(await runCli(['eject', 'src/main.ts', '--json'])).toBe(1);
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual({
+        ok: false,
+        command: 'eject',
+        error: { code: 'UNMANAGED_FILE', message: 'Not managed by TypeScript Bootstrap: src/main.ts' },
+      });
+
+      mocks.undo.mockRejectedValueOnce(new Error('disk full'));
+      await runCli(['undo', '--json']);
+      expect(JSON.parse(log.mock.calls[1][0]).error).toEqual({ code: 'UNEXPECTED_ERROR', message: 'disk full' });
+
+      expect(await runCli(['init', '--bogus', '--json'])).toBe(1);
+      expect(JSON.parse(log.mock.calls[2][0])).toEqual({
+        ok: false,
+        command: 'init',
+        error: { code: 'INVALID_ARGUMENTS', message: 'Unknown option: --bogus' },
+      });
+    });
+
+    it('should plan without prompting and report missing metadata as JSON', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-plan-test-'));
+      fs.writeFileSync(path.join(projectDir, 'package.json'), JSON.stringify({ name: 'no-metadata' }));
+      const actual = await vi.importActual<typeof import('./index.js')>('./index.js');
+      mocks.update.mockImplementationOnce(actual.update);
+
+      try {
+        expect(await runCli(['plan', '--dir', projectDir, '--json'])).toBe(1);
+      } finally {
+        fs.rmSync(projectDir, { recursive: true, force: true });
+      }
+
+      expect(mocks.update).toHaveBeenCalledWith({ targetDir: projectDir, skipPrompts: true, dryRun: true, logger: silentLogger });
+      expect(log).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({ ok: false, command: 'plan', error: { code: 'METADATA_MISSING' } });
+    });
+
+    it('should mark doctor output as not ok when it finds errors', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      mocks.doctor.mockResolvedValueOnce([{ severity: 'error' }]);
+
+      expect(await runCli(['doctor', '--json'])).toBe(1);
+      expect(JSON.parse(log.mock.calls[0][0])).toEqual({ ok: false, command: 'doctor', result: [{ severity: 'error' }] });
+    });
+
+    it('should print the version', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      expect(await runCli(['--version'])).toBe(0);
+      expect(log).toHaveBeenCalledWith(expect.stringMatching(/^\d+\.\d+\.\d+/));
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import * as path from 'path';
+import {
+  addPackage,
+  createOrUpdate,
+  doctor,
+  eject,
+  init,
+  isTemplateReference,
+  readBootstrapVersion,
+  status,
+  switchTemplate,
+  undo,
+  update,
+} from './index.js';
+import { consoleLogger, silentLogger, type Logger } from './logger.js';
+import { BootstrapError, type BootstrapErrorCode } from './result.js';
+
+const CLI_NAME = 'typescript-bootstrap';
+const OPTION_COLUMN_WIDTH = 25;
+
+type FlagName = 'name' | 'title' | 'dir' | 'template' | 'yes' | 'dryRun' | 'json';
+
+interface FlagDefinition {
+  names: string[];
+  takesValue: boolean;
+  description: string;
+}
+
+const FLAGS: Record<FlagName, FlagDefinition> = {
+  name: { names: ['--name'], takesValue: true, description: 'npm package name (defaults to the directory name)' },
+  title: { names: ['--title'], takesValue: true, description: 'Project title (defaults to the project name)' },
+  dir: { names: ['--dir'], takesValue: true, description: 'Project directory (defaults to the current directory)' },
+  template: { names: ['--template'], takesValue: true, description: 'Template to use: typescript, react, library, cli, node-service, monorepo, a directory (./path) or an installed package' },
+  yes: { names: ['-y', '--yes', '--skip-prompts'], takesValue: false, description: 'Answer every prompt with its default' },
+  dryRun: { names: ['--dry-run'], takesValue: false, description: 'Print the planned changes without writing anything' },
+  json: { names: ['--json'], takesValue: false, description: 'Print one JSON result instead of progress output; implies --yes' },
+};
+
+export type CommandName =
+  | 'create-or-update'
+  | 'init'
+  | 'add-package'
+  | 'update'
+  | 'plan'
+  | 'undo'
+  | 'eject'
+  | 'switch-template'
+  | 'doctor'
+  | 'status';
+
+interface CommandDefinition {
+  usage: string;
+  description: string;
+  flags: FlagName[];
+  // Whether the command takes positional arguments (files or a template name)
+  positional: boolean;
+  errorPrefix: string;
+}
+
+const COMMANDS: Record<CommandName, CommandDefinition> = {
+  'create-or-update': {
+    usage: '[options]',
+    description: 'Create a new project, or update it when it already uses TypeScript Bootstrap',
+    flags: ['name', 'title', 'dir', 'template', 'yes', 'dryRun', 'json'],
+    positional: false,
+    errorPrefix: 'Error creating or updating project:',
+  },
+  init: {
+    usage: 'init [options]',
+    description: 'Create a new project from a template',
+    flags: ['name', 'title', 'dir', 'template', 'yes', 'json'],
+    positional: false,
+    errorPrefix: 'Error initializing project:',
+  },
+  'add-package': {
+    usage: 'add-package <name> [options]',
+    description: 'Create a package under packages/ of a workspace root (see the monorepo template)',
+    flags: ['title', 'dir', 'template', 'yes', 'json'],
+    positional: true,
+    errorPrefix: 'Error adding package:',
+  },
+  update: {
+    usage: 'update [options]',
+    description: 'Update an existing project to the latest template, and every package of a workspace root',
+    flags: ['dir', 'yes', 'dryRun', 'json'],
+    positional: false,
+    errorPrefix: 'Error updating project:',
+  },
+  plan: {
+    usage: 'plan [options]',
+    description: 'Alias for "update --dry-run"',
+    flags: ['dir', 'json'],
+    positional: false,
+    errorPrefix: 'Error updating project:',
+  },
+  undo: {
+    usage: 'undo [options]',
+    description: 'Restore the files changed by the most recent update',
+    flags: ['dir', 'yes', 'json'],
+    positional: false,
+    errorPrefix: 'Error restoring project:',
+  },
+  eject: {
+    usage: 'eject <file...> [options]',
+    description: 'Stop managing the given files',
+    flags: ['dir', 'json'],
+    positional: true,
+    errorPrefix: 'Error ejecting files:',
+  },
+  'switch-template': {
+    usage: 'switch-template <template> [options]',
+    description: 'Convert the project to another template',
+    flags: ['dir', 'yes', 'dryRun', 'json'],
+    positional: true,
+    errorPrefix: 'Error switching template:',
+  },
+  doctor: {
+    usage: 'doctor [options]',
+    description: 'Check the project setup and suggest fixes; exits with 1 when errors are found',
+    flags: ['dir', 'json'],
+    positional: false,
+    errorPrefix: 'Error checking project:',
+  },
+  status: {
+    usage: 'status [options]',
+    description: 'Show the drift of every managed file and what the next update would change',
+    flags: ['dir', 'json'],
+    positional: false,
+    errorPrefix: 'Error reading project status:',
+  },
+};
+
+/**
+ * Parsed command line, with option values validated but not yet resolved against the project
+ */
+export type ParsedCli =
+  | { kind: 'help'; command: CommandName | null }
+  | { kind: 'version' }
+  | { kind: 'command'; command: CommandName; positionals: string[]; flags: Partial<Record<FlagName, string | true>> };
+
+/**
+ * Invalid command line; the message is shown together with a pointer to --help
+ */
+export class CliUsageError extends Error {
+  constructor(message: string, readonly command: CommandName | null) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+function isCommandName(name: string): name is CommandName {
+  return name in COMMANDS && name !== 'create-or-update';
+}
+
+function findFlag(name: string, command: CommandName): FlagName | undefined {
+  return COMMANDS[command].flags.find((flag) => FLAGS[flag].names.includes(name));
+}
+
+/**
+ * Parse the arguments after the executable name. Flags may be written as "--flag value" or
+ * "--flag=value"; unknown flags, missing values and invalid templates are rejected.
+ */
+export function parseCliArgs(args: string[]): ParsedCli {
+  const first = args[0];
+  const command: CommandName = first !== undefined && isCommandName(first) ? first : 'create-or-update';
+  const rest = command === 'create-or-update' ? args : args.slice(1);
+  const positionals: string[] = [];
+  const flags: Partial<Record<FlagName, string | true>> = {};
+
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+
+    if (arg === '--help' || arg === '-h') {
+      return { kind: 'help', command: command === 'create-or-update' ? null : command };
+    }
+    if ((arg === '--version' || arg === '-v') && command === 'create-or-update') {
+      return { kind: 'version' };
+    }
+    if (!arg.startsWith('-')) {
+      if (!COMMANDS[command].positional) {
+        throw new CliUsageError(command === 'create-or-update' ? `Unknown command: ${arg}` : `Unexpected argument: ${arg}`, command);
+      }
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const flag = findFlag(name, command);
+    if (!flag) {
+      throw new CliUsageError(`Unknown option: ${name}`, command);
+    }
+
+    if (!FLAGS[flag].takesValue) {
+      if (inlineValue !== undefined) {
+        throw new CliUsageError(`Option ${name} does not take a value`, command);
+      }
+      flags[flag] = true;
+      continue;
+    }
+
+    const value = inlineValue ?? rest[index + 1];
+    if (value === undefined || value === '' || (inlineValue === undefined && value.startsWith('-'))) {
+      throw new CliUsageError(`Option ${name} requires a value`, command);
+    }
+    if (inlineValue === undefined) {
+      index++;
+    }
+    flags[flag] = value;
+  }
+
+  const template = command === 'switch-template' ? positionals[0] : flags.template;
+  if (typeof template === 'string' && !isTemplateReference(template)) {
+    throw new CliUsageError(
+      `Invalid template: ${template}. Valid options: typescript, react, library, cli, node-service, monorepo, a path to a template directory or a package name`,
+      command
+    );
+  }
+  if (command === 'switch-template' && positionals.length !== 1) {
+    throw new CliUsageError('Expected exactly one template name', command);
+  }
+  if (command === 'add-package' && positionals.length !== 1) {
+    throw new CliUsageError('Expected exactly one package name', command);
+  }
+  if (command === 'eject' && positionals.length === 0) {
+    throw new CliUsageError('Expected at least one file to eject', command);
+  }
+
+  return { kind: 'command', command, positionals, flags };
+}
+
+/**
+ * Help text for one command, or the overview of every command
+ */
+export function formatHelp(command: CommandName | null): string {
+  if (!command) {
+    const commands = (Object.keys(COMMANDS) as CommandName[]).filter(isCommandName);
+    const width = Math.max(...commands.map((name) => name.length));
+    return [
+      `Usage: ${CLI_NAME} [command] [options]`,
+      '',
+      'Without a command, creates a new project or updates it when it already uses TypeScript Bootstrap.',
+      '',
+      'Commands:',
+      ...commands.map((name) => `  ${name.padEnd(width)}  ${COMMANDS[name].description}`),
+      '',
+      'Options:',
+      ...formatFlags(COMMANDS['create-or-update'].flags),
+      formatOption('-h, --help', 'Show help for a command'),
+      formatOption('-v, --version', 'Show the TypeScript Bootstrap version'),
+      '',
+      `Run "${CLI_NAME} <command> --help" for the options of a command.`,
+    ].join('\n');
+  }
+
+  const definition = COMMANDS[command];
+  return [
+    `Usage: ${CLI_NAME} ${definition.usage}`,
+    '',
+    definition.description,
+    '',
+    'Options:',
+    ...formatFlags(definition.flags),
+    formatOption('-h, --help', 'Show this help'),
+  ].join('\n');
+}
+
+function formatOption(names: string, description: string): string {
+  return `  ${names.padEnd(OPTION_COLUMN_WIDTH)}  ${description}`;
+}
+
+function formatFlags(flags: FlagName[]): string[] {
+  return flags.map((flag) => {
+    const definition = FLAGS[flag];
+    return formatOption(`${definition.names.join(', ')}${definition.takesValue ? ' <value>' : ''}`, definition.description);
+  });
+}
+
+/**
+ * The single document printed by --json. Its shape is a stable contract for scripts and agents:
+ * "result" is what the command returned, "error.code" is one of the BootstrapErrorCode values.
+ */
+export type CliJsonOutput =
+  | { ok: boolean; command: CommandName; result: unknown }
+  | { ok: false; command: CommandName | null; error: { code: BootstrapErrorCode; message: string } };
+
+interface CommandOutcome {
+  exitCode: number;
+  result: unknown;
+}
+
+function resolveTargetDir(dir: string | true | undefined): string | undefined {
+  return typeof dir === 'string' ? path.resolve(dir) : undefined;
+}
+
+/**
+ * Run a parsed command; commands that report problems decide their own exit code
+ */
+async function runCommand(parsed: Extract<ParsedCli, { kind: 'command' }>, logger: Logger): Promise<CommandOutcome> {
+  const { flags, positionals } = parsed;
+  const targetDir = resolveTargetDir(flags.dir);
+  // Nobody can answer prompts when the output is read by a program
+  const skipPrompts = flags.yes === true || flags.json === true;
+  const dryRun = flags.dryRun === true;
+  const projectName = typeof flags.name === 'string' ? flags.name : undefined;
+  const projectTitle = typeof flags.title === 'string' ? flags.title : undefined;
+  const template = typeof flags.template === 'string' ? flags.template : undefined;
+  const succeeded = (result: unknown): CommandOutcome => ({ exitCode: 0, result });
+
+  switch (parsed.command) {
+    case 'init':
+      return succeeded(await init({ projectName, projectTitle, targetDir, template, skipPrompts, logger }));
+    case 'add-package':
+      return succeeded(await addPackage({ projectName: positionals[0], projectTitle, targetDir, template, skipPrompts, logger }));
+    case 'update': {
+      // A workspace package that could not be updated fails the command, after the others were updated
+      const result = await update({ targetDir, skipPrompts, dryRun, logger });
+      return { exitCode: result.workspacePackages?.some((entry) => entry.error !== null) ? 1 : 0, result };
+    }
+    case 'plan':
+      return succeeded(await update({ targetDir, skipPrompts, dryRun: true, logger }));
+    case 'undo':
+      return succeeded(await undo({ targetDir, skipPrompts, logger }));
+    case 'eject':
+      return succeeded(await eject({ targetDir, files: positionals, logger }));
+    case 'switch-template':
+      return succeeded(await switchTemplate({ template: positionals[0], targetDir, skipPrompts, dryRun, logger }));
+    case 'status':
+      return succeeded(await status({ targetDir, logger }));
+    case 'doctor': {
+      const findings = await doctor({ targetDir, logger });
+      return { exitCode: findings.some((finding) => finding.severity === 'error') ? 1 : 0, result: findings };
+    }
+    default:
+      return succeeded(await createOrUpdate({ projectName, projectTitle, targetDir, template, skipPrompts, dryRun, logger }));
+  }
+}
+
+function printJson(output: CliJsonOutput): void {
+  console.log(JSON.stringify(output, null, 2));
+}
+
+function describeError(error: unknown): { code: BootstrapErrorCode; message: string } {
+  if (error instanceof BootstrapError) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: 'UNEXPECTED_ERROR', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Run the command line and return the process exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  // Decided before parsing so that usage errors are reported as JSON too
+  const json = args.includes('--json');
+
+  let parsed: ParsedCli;
+  try {
+    parsed = parseCliArgs(args);
+  } catch (error) {
+    if (!(error instanceof CliUsageError)) {
+      throw error;
+    }
+    if (json) {
+      printJson({ ok: false, command: error.command, error: { code: 'INVALID_ARGUMENTS', message: error.message } });
+    } else {
+      const helpCommand = error.command && error.command !== 'create-or-update' ? `${error.command} --help` : '--help';
+      console.error(`${error.message}\nRun "${CLI_NAME} ${helpCommand}" for usage.`);
+    }
+    return 1;
+  }
+
+  if (parsed.kind === 'help') {
+    console.log(formatHelp(parsed.command));
+    return 0;
+  }
+  if (parsed.kind === 'version') {
+    console.log(readBootstrapVersion());
+    return 0;
+  }
+
+  try {
+    const { exitCode, result } = await runCommand(parsed, json ? silentLogger : consoleLogger);
+    if (json) {
+      printJson({ ok: exitCode === 0, command: parsed.command, result });
+    }
+    return exitCode;
+  } catch (error) {
+    if (json) {
+      printJson({ ok: false, command: parsed.command, error: describeError(error) });
+    } else {
+      console.error(COMMANDS[parsed.command].errorPrefix, error);
+    }
+    return 1;
+  }
+}
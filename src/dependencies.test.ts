@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersionStrings,
+  mergeVersionedSection,
+  parseVersionRange,
+  resolveDependencyRange,
+  type DependencyChange,
+} from './dependencies.js';
+
+describe('dependencies', () => {
+  describe('parseVersionRange', () => {
+    it('should bound caret ranges by the next breaking version', () => {
+      expect(parseVersionRange('^5.1.0')).toEqual({ min: [5, 1, 0], max: [6, 0, 0] });
+      expect(parseVersionRange('^0.4.2')).toEqual({ min: [0, 4, 2], max: [0, 5, 0] });
+      expect(parseVersionRange('^0.0.3')).toEqual({ min: [0, 0, 3], max: [0, 0, 4] });
+    });
+
+    it('should parse tilde, exact, open-ended and x-ranges', () => {
+      expect(parseVersionRange('~1.2.3')).toEqual({ min: [1, 2, 3], max: [1, 3, 0] });
+      expect(parseVersionRange('1.2.3')).toEqual({ min: [1, 2, 3], max: [1, 2, 4] });
+      expect(parseVersionRange('>=4.0.0')).toEqual({ min: [4, 0, 0], max: null });
+      expect(parseVersionRange('2.x')).toEqual({ min: [2, 0, 0], max: [3, 0, 0] });
+      expect(parseVersionRange('2.1')).toEqual({ min: [2, 1, 0], max: [2, 2, 0] });
+    });
+
+    it('should ignore prerelease tags', () => {
+      expect(parseVersionRange('^7.0.0-beta.1')).toEqual({ min: [7, 0, 0], max: [8, 0, 0] });
+    });
+
+    it('should return null for ranges it cannot compare', () => {
+      expect(parseVersionRange('latest')).toBeNull();
+      expect(parseVersionRange('workspace:*')).toBeNull();
+      expect(parseVersionRange('^1.0.0 || ^2.0.0')).toBeNull();
+      expect(parseVersionRange('github:user/repo')).toBeNull();
+    });
+  });
+
+  describe('compareVersionStrings', () => {
+    it('should compare versions numerically', () => {
+      expect(compareVersionStrings('1.10.0', '1.9.2')).toBeGreaterThan(0);
+      expect(compareVersionStrings('1.2.0', '1.2.0')).toBe(0);
+      expect(compareVersionStrings('0.9.0', '1.0.0')).toBeLessThan(0);
+    });
+
+    it('should reject values that are not plain versions', () => {
+      expect(() => compareVersionStrings('^1.0.0', '1.0.0')).toThrow(expect.objectContaining({
+        code: 'INVALID_VERSION',
+        message: expect.stringContaining('"^1.0.0"'),
+      }));
+    });
+  });
+
+  describe('resolveDependencyRange', () => {
+    it('should add dependencies missing locally', () => {
+      expect(resolveDependencyRange(undefined, '^5.1.0')).toEqual({ range: '^5.1.0', decision: 'added' });
+    });
+
+    it('should report nothing when both ranges are identical', () => {
+      expect(resolveDependencyRange('^5.1.0', '^5.1.0')).toEqual({ range: '^5.1.0', decision: null });
+    });
+
+    it('should upgrade local ranges older than the template', () => {
+      expect(resolveDependencyRange('^5.0.0', '^5.1.0')).toEqual({ range: '^5.1.0', decision: 'upgraded' });
+      expect(resolveDependencyRange('^4.5.0', '^5.1.0')).toEqual({ range: '^5.1.0', decision: 'upgraded' });
+    });
+
+    it('should keep local ranges that satisfy the template minimum', () => {
+      expect(resolveDependencyRange('~5.2.0', '^5.1.0')).toEqual({ range: '~5.2.0', decision: 'kept' });
+    });
+
+    it('should avoid downgrading local ranges newer than the template allows', () => {
+      expect(resolveDependencyRange('^6.0.0', '^5.1.0')).toEqual({ range: '^6.0.0', decision: 'downgrade-avoided' });
+    });
+
+    it('should keep local ranges that cannot be compared', () => {
+      expect(resolveDependencyRange('workspace:*', '^5.1.0')).toEqual({ range: 'workspace:*', decision: 'kept' });
+    });
+  });
+
+  describe('mergeVersionedSection', () => {
+    it('should merge a section and record each decision', () => {
+      const changes: DependencyChange[] = [];
+
+      const merged = mergeVersionedSection(
+        'devDependencies',
+        { vite: '^6.0.0', typescript: '^5.0.0', custom: '^1.0.0' },
+        { vite: '^5.1.0', typescript: '^5.4.5', vitest: '^4.0.17' },
+        changes
+      );
+
+      expect(merged).toEqual({ vite: '^6.0.0', typescript: '^5.4.5', custom: '^1.0.0', vitest: '^4.0.17' });
+      expect(changes.map(({ name, decision }) => `${name}:${decision}`)).toEqual([
+        'vite:downgrade-avoided',
+        'typescript:upgraded',
+        'vitest:added',
+      ]);
+    });
+
+    it('should copy nested overrides only when missing locally', () => {
+      const changes: DependencyChange[] = [];
+
+      const merged = mergeVersionedSection(
+        'overrides',
+        { glob: { minimatch: '^9.0.0' } },
+        { glob: { minimatch: '^10.0.0' }, semver: { lru: '^7.0.0' } },
+        changes
+      );
+
+      expect(merged).toEqual({ glob: { minimatch: '^9.0.0' }, semver: { lru: '^7.0.0' } });
+      expect(changes).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { BootstrapError } from './result.js';
+
+/**
+ * package.json sections whose entries are merged with the template by comparing version ranges
+ */
+export const VERSIONED_SECTIONS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'overrides',
+  'resolutions',
+] as const;
+
+export type VersionedSection = typeof VERSIONED_SECTIONS[number];
+
+export type DependencyDecision = 'added' | 'upgraded' | 'kept' | 'downgrade-avoided';
+
+export interface DependencyChange {
+  section: VersionedSection;
+  name: string;
+  decision: DependencyDecision;
+  local: string | null;
+  template: string;
+}
+
+type Version = [number, number, number];
+
+interface VersionRange {
+  min: Version;
+  // Exclusive upper bound, null when the range is open-ended
+  max: Version | null;
+}
+
+const VERSION_PATTERN = /^v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(?:[-+][0-9A-Za-z.-]*)?$/;
+
+function compareVersions(left: Version, right: Version): number {
+  for (let index = 0; index < left.length; index++) {
+    if (left[index] !== right[index]) {
+      return left[index] - right[index];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare two plain versions such as "1.10.0" and "1.9.2", ignoring prerelease tags
+ */
+export function compareVersionStrings(left: string, right: string): number {
+  const leftVersion = VERSION_PATTERN.test(left) ? parseVersionRange(left) : null;
+  const rightVersion = VERSION_PATTERN.test(right) ? parseVersionRange(right) : null;
+  if (!leftVersion || !rightVersion) {
+    throw new BootstrapError('INVALID_VERSION', `Invalid version "${leftVersion ? right : left}", expected a version such as 1.2.3`);
+  }
+  return compareVersions(leftVersion.min, rightVersion.min);
+}
+
+function caretUpperBound([major, minor, patch]: Version): Version {
+  if (major > 0) {
+    return [major + 1, 0, 0];
+  }
+  return minor > 0 ? [0, minor + 1, 0] : [0, 0, patch + 1];
+}
+
+/**
+ * Parse the common single-comparator ranges (^, ~, >=, exact and x-ranges).
+ * Prerelease tags are ignored; anything else (unions, tags, URLs, workspace:) returns null.
+ */
+export function parseVersionRange(range: string): VersionRange | null {
+  const match = /^(\^|~|>=|>|=)?\s*(.+)$/.exec(range.trim());
+  const versionMatch = match ? VERSION_PATTERN.exec(match[2]) : null;
+  if (!match || !versionMatch) {
+    return null;
+  }
+
+  const operator = match[1] ?? '=';
+  const isWildcard = (part: string | undefined) => part === undefined || part === 'x' || part === '*';
+  const major = Number(versionMatch[1]);
+  const minor = isWildcard(versionMatch[2]) ? null : Number(versionMatch[2]);
+  const patch = isWildcard(versionMatch[3]) ? null : Number(versionMatch[3]);
+  const min: Version = [major, minor ?? 0, patch ?? 0];
+
+  if (operator === '>=' || operator === '>') {
+    return { min, max: null };
+  }
+  if (operator === '^') {
+    return { min, max: caretUpperBound(min) };
+  }
+  if (minor === null) {
+    return { min, max: [major + 1, 0, 0] };
+  }
+  if (operator === '~' || patch === null) {
+    return { min, max: [major, minor + 1, 0] };
+  }
+  return { min, max: [major, minor, patch + 1] };
+}
+
+/**
+ * Pick the range to keep for one dependency. The template only wins when the local
+ * minimum is older than the template's; newer or equivalent local ranges are kept.
+ */
+export function resolveDependencyRange(
+  local: string | undefined,
+  template: string
+): { range: string; decision: DependencyDecision | null } {
+  if (local === undefined) {
+    return { range: template, decision: 'added' };
+  }
+  if (local === template) {
+    return { range: local, decision: null };
+  }
+
+  const localRange = parseVersionRange(local);
+  const templateRange = parseVersionRange(template);
+  if (!localRange || !templateRange) {
+    // Tags, URLs and protocol specifiers are deliberate choices we cannot compare
+    return { range: local, decision: 'kept' };
+  }
+
+  if (compareVersions(localRange.min, templateRange.min) < 0) {
+    return { range: template, decision: 'upgraded' };
+  }
+  if (templateRange.max && compareVersions(localRange.min, templateRange.max) >= 0) {
+    return { range: local, decision: 'downgrade-avoided' };
+  }
+  return { range: local, decision: 'kept' };
+}
+
+/**
+ * Merge one versioned package.json section, recording every decision that differs from the local file
+ */
+export function mergeVersionedSection(
+  section: VersionedSection,
+  local: Record<string, unknown> | undefined,
+  template: Record<string, unknown>,
+  changes: DependencyChange[]
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...(local ?? {}) };
+
+  for (const [name, templateValue] of Object.entries(template)) {
+    const localValue = local?.[name];
+
+    // Nested overrides are copied when missing but never rewritten
+    if (typeof templateValue !== 'string' || (localValue !== undefined && typeof localValue !== 'string')) {
+      if (localValue === undefined) {
+        merged[name] = templateValue;
+      }
+      continue;
+    }
+
+    const { range, decision } = resolveDependencyRange(localValue, templateValue);
+    merged[name] = range;
+    if (decision) {
+      changes.push({ section, name, decision, local: localValue ?? null, template: templateValue });
+    }
+  }
+
+  return merged;
+}
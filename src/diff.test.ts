@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, describePackageJsonDelta } from './diff.js';
+
+describe('diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('should return an empty string when contents are identical', () => {
+      expect(createUnifiedDiff('file.txt', 'a\nb\n', 'a\nb\n')).toBe('');
+    });
+
+    it('should render a new file against /dev/null', () => {
+      const diff = createUnifiedDiff('new.txt', null, 'one\ntwo\n');
+
+      expect(diff).toBe([
+        '--- /dev/null',
+        '+++ b/new.txt',
+        '@@ -0,0 +1,2 @@',
+        '+one',
+        '+two',
+        '',
+      ].join('\n'));
+    });
+
+    it('should include surrounding context lines for a modified line', () => {
+      const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+      const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9'].join('\n');
+
+      const diff = createUnifiedDiff('numbers.txt', before, after);
+
+      expect(diff).toBe([
+        '--- a/numbers.txt',
+        '+++ b/numbers.txt',
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8',
+        '',
+      ].join('\n'));
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const lines = Array.from({ length: 20 }, (_, index) => `line ${index + 1}`);
+      const changed = [...lines];
+      changed[0] = 'first';
+      changed[19] = 'last';
+
+      const diff = createUnifiedDiff('long.txt', lines.join('\n'), changed.join('\n'));
+      const hunkHeaders = diff.split('\n').filter((line) => line.startsWith('@@'));
+
+      expect(hunkHeaders).toEqual(['@@ -1,4 +1,4 @@', '@@ -17,4 +17,4 @@']);
+    });
+
+    it('should use the preceding line number for pure deletions at the end', () => {
+      const diff = createUnifiedDiff('trim.txt', 'a\nb\n', 'a\n', 0);
+
+      expect(diff).toContain('@@ -2 +1,0 @@');
+      expect(diff).toContain('-b');
+    });
+
+    it('should render a removed file against /dev/null', () => {
+      expect(createUnifiedDiff('old.txt', 'one\n', null)).toBe([
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-one',
+        '',
+      ].join('\n'));
+    });
+  });
+
+  describe('describePackageJsonDelta', () => {
+    it('should report added, removed and changed scripts and dependencies', () => {
+      const delta = describePackageJsonDelta(
+        {
+          scripts: { test: 'vitest', legacy: 'node old.js' },
+          devDependencies: { vite: '^5.0.0' },
+        },
+        {
+          scripts: { test: 'vitest --run' },
+          devDependencies: { vite: '^5.1.0', tsx: '^4.19.2' },
+          dependencies: { react: '^18.3.1' },
+        }
+      );
+
+      expect(delta).toEqual([
+        '- scripts.legacy: node old.js',
+        '~ scripts.test: vitest → vitest --run',
+        '+ dependencies.react: ^18.3.1',
+        '+ devDependencies.tsx: ^4.19.2',
+        '~ devDependencies.vite: ^5.0.0 → ^5.1.0',
+      ]);
+    });
+
+    it('should report peer dependencies and overrides, rendering nested values as JSON', () => {
+      const delta = describePackageJsonDelta(
+        { peerDependencies: { react: '^18.0.0' } },
+        { peerDependencies: { react: '^19.0.0' }, overrides: { glob: { minimatch: '^9.0.0' } } }
+      );
+
+      expect(delta).toEqual([
+        '~ peerDependencies.react: ^18.0.0 → ^19.0.0',
+        '+ overrides.glob: {"minimatch":"^9.0.0"}',
+      ]);
+    });
+
+    it('should treat a missing previous package.json as all additions', () => {
+      expect(describePackageJsonDelta(null, { scripts: { dev: 'vite' } })).toEqual([
+        '+ scripts.dev: vite',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+const DEFAULT_CONTEXT_LINES = 3;
+const DEPENDENCY_SECTIONS = [
+  'scripts',
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'overrides',
+  'resolutions',
+] as const;
+
+export type DiffOperation = {
+  kind: 'equal' | 'remove' | 'add';
+  line: string;
+};
+
+export function splitLines(content: string): string[] {
+  if (content === '') {
+    return [];
+  }
+
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level diff based on the longest common subsequence of both files
+ */
+export function diffLines(before: string[], after: string[]): DiffOperation[] {
+  const common: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0)
+  );
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      operations.push({ kind: 'equal', line: before[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      operations.push({ kind: 'remove', line: before[i] });
+      i++;
+    } else {
+      operations.push({ kind: 'add', line: after[j] });
+      j++;
+    }
+  }
+
+  operations.push(...before.slice(i).map((line) => ({ kind: 'remove' as const, line })));
+  operations.push(...after.slice(j).map((line) => ({ kind: 'add' as const, line })));
+
+  return operations;
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff points empty ranges at the line before the change
+  const displayStart = count === 0 ? start : start + 1;
+  return count === 1 ? `${displayStart}` : `${displayStart},${count}`;
+}
+
+/**
+ * Render a unified diff between two versions of a file, or '' when they are identical.
+ * A null side is a file that does not exist (created or removed).
+ */
+export function createUnifiedDiff(
+  relativePath: string,
+  before: string | null,
+  after: string | null,
+  contextLines = DEFAULT_CONTEXT_LINES
+): string {
+  const operations = diffLines(splitLines(before ?? ''), splitLines(after ?? ''));
+  const changedIndexes = operations
+    .map((operation, index) => (operation.kind === 'equal' ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changedIndexes.length === 0) {
+    return '';
+  }
+
+  const output = [
+    before === null ? '--- /dev/null' : `--- a/${relativePath}`,
+    after === null ? '+++ /dev/null' : `+++ b/${relativePath}`,
+  ];
+
+  let groupStart = 0;
+  while (groupStart < changedIndexes.length) {
+    let groupEnd = groupStart;
+    while (
+      groupEnd + 1 < changedIndexes.length &&
+      changedIndexes[groupEnd + 1] - changedIndexes[groupEnd] <= contextLines * 2 + 1
+    ) {
+      groupEnd++;
+    }
+
+    const hunkStart = Math.max(0, changedIndexes[groupStart] - contextLines);
+    const hunkEnd = Math.min(operations.length, changedIndexes[groupEnd] + contextLines + 1);
+    const preceding = operations.slice(0, hunkStart);
+    const hunk = operations.slice(hunkStart, hunkEnd);
+
+    const oldStart = preceding.filter((operation) => operation.kind !== 'add').length;
+    const newStart = preceding.filter((operation) => operation.kind !== 'remove').length;
+    const oldCount = hunk.filter((operation) => operation.kind !== 'add').length;
+    const newCount = hunk.filter((operation) => operation.kind !== 'remove').length;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const operation of hunk) {
+      const prefix = operation.kind === 'equal' ? ' ' : operation.kind === 'remove' ? '-' : '+';
+      output.push(`${prefix}${operation.line}`);
+    }
+
+    groupStart = groupEnd + 1;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+type PackageJsonLike = Record<string, unknown>;
+
+function readSection(pkg: PackageJsonLike | null, section: string): Record<string, string> {
+  const value = pkg?.[section];
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  // Nested overrides are compared and shown as JSON
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => [key, typeof entry === 'string' ? entry : JSON.stringify(entry)])
+  );
+}
+
+/**
+ * Summarize script and dependency changes between two package.json objects
+ */
+export function describePackageJsonDelta(
+  before: PackageJsonLike | null,
+  after: PackageJsonLike
+): string[] {
+  const lines: string[] = [];
+
+  for (const section of DEPENDENCY_SECTIONS) {
+    const previous = readSection(before, section);
+    const next = readSection(after, section);
+    const keys = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+      .sort((left, right) => left.localeCompare(right));
+
+    for (const key of keys) {
+      if (!(key in previous)) {
+        lines.push(`+ ${section}.${key}: ${next[key]}`);
+      } else if (!(key in next)) {
+        lines.push(`- ${section}.${key}: ${previous[key]}`);
+      } else if (previous[key] !== next[key]) {
+        lines.push(`~ ${section}.${key}: ${previous[key]} → ${next[key]}`);
+      }
+    }
+  }
+
+  return lines;
+}
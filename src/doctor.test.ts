@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { runDoctorChecks, type DoctorEnvironment } from './doctor.js';
+
+describe('doctor', () => {
+  let testDir: string;
+  let gitConfig: Record<string, string>;
+  let isGitRepository: boolean;
+
+  const templatePackageJson = {
+    scripts: { test: 'vitest --run', lint: 'eslint src' },
+    devDependencies: { vitest: '^4.0.17' },
+  };
+
+  function writeFile(relativePath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(testDir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(testDir, relativePath), content, 'utf-8');
+  }
+
+  function writePackageJson(overrides: Record<string, unknown> = {}) {
+    writeFile('package.json', JSON.stringify({
+      name: 'doctor-test',
+      typescriptBootstrap: { template: 'typescript' },
+      scripts: { ...templatePackageJson.scripts },
+      engines: { node: '>=18.0.0' },
+      ...overrides,
+    }));
+  }
+
+  function environment(overrides: Partial<DoctorEnvironment> = {}): DoctorEnvironment {
+    return {
+      nodeVersion: 'v20.11.0',
+      git: (args) => {
+        if (!isGitRepository) {
+          throw new Error('not a git repository');
+        }
+        if (args[0] === 'config') {
+          if (!gitConfig[args[2]]) {
+            throw new Error('unset');
+          }
+          return gitConfig[args[2]];
+        }
+        return '.git';
+      },
+      readTemplatePackageJson: (template) => (template === 'typescript' ? templatePackageJson : null),
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'doctor-test-'));
+    isGitRepository = true;
+    gitConfig = { 'core.hooksPath': '.husky/_' };
+
+    const eslintConfig = 'export default [];\n';
+    writeFile('eslint.config.js', eslintConfig);
+    writeFile('.github/typescript-bootstrap-hashes.json', JSON.stringify({
+      version: 1,
+      algorithm: 'sha256',
+      managedFiles: ['eslint.config.js'],
+      hashes: { 'eslint.config.js': createHash('sha256').update(eslintConfig).digest('hex') },
+    }));
+    writeFile('.git/HEAD', '');
+    writeFile('.husky/_/h', '');
+    writeFile('package-lock.json', '{}');
+    writeFile('node_modules/vitest/package.json', '{}');
+    writePackageJson();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should report nothing for a healthy project', () => {
+    expect(runDoctorChecks(testDir, environment())).toEqual([]);
+  });
+
+  it('should report missing or unknown bootstrap metadata', () => {
+    writePackageJson({ typescriptBootstrap: undefined });
+    expect(runDoctorChecks(testDir, environment())[0]).toMatchObject({
+      check: 'metadata',
+      severity: 'error',
+      message: 'package.json has no typescriptBootstrap metadata',
+    });
+
+    writeFile('package.json', '{ invalid');
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'metadata', message: 'package.json is missing or unparsable' }),
+    ]);
+  });
+
+  it('should check every managed file against the manifest, not only staged ones', () => {
+    writeFile('eslint.config.js', 'export default [1];\n');
+
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'integrity', severity: 'error', message: expect.stringContaining('eslint.config.js') }),
+    ]);
+  });
+
+  it('should report missing managed files and a missing manifest', () => {
+    fs.rmSync(path.join(testDir, 'eslint.config.js'));
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'integrity', severity: 'warning' }),
+    ]);
+
+    fs.rmSync(path.join(testDir, '.github'), { recursive: true });
+    expect(runDoctorChecks(testDir, environment())[0].fix).toContain('typescript-bootstrap update');
+  });
+
+  it('should report husky hooks that are not installed or misconfigured', () => {
+    gitConfig = {};
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'hooks', severity: 'error', fix: 'Run "npm run prepare" to install the husky hooks' }),
+    ]);
+
+    gitConfig = { 'core.hooksPath': '.githooks' };
+    expect(runDoctorChecks(testDir, environment())[0].message).toContain('core.hooksPath is ".githooks"');
+
+    isGitRepository = false;
+    expect(runDoctorChecks(testDir, environment())[0]).toMatchObject({ check: 'hooks', severity: 'warning' });
+  });
+
+  it('should warn that the repository root manages the hooks, like the prepare script, when the project is below it', () => {
+    fs.rmSync(path.join(testDir, '.git'), { recursive: true });
+    gitConfig = {};
+
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({
+        check: 'hooks',
+        severity: 'warning',
+        fix: expect.stringContaining('core.hooksPath'),
+      }),
+    ]);
+  });
+
+  it('should report a missing lockfile and an old Node version', () => {
+    fs.rmSync(path.join(testDir, 'package-lock.json'));
+
+    expect(runDoctorChecks(testDir, environment({ nodeVersion: 'v16.20.0' }))).toEqual([
+      expect.objectContaining({ check: 'lockfile', severity: 'warning' }),
+      expect.objectContaining({ check: 'node-version', severity: 'error', message: 'Node 16.20.0 is older than the required >=18.0.0' }),
+    ]);
+  });
+
+  it('should report template dependencies that are not installed', () => {
+    fs.rmSync(path.join(testDir, 'node_modules', 'vitest'), { recursive: true });
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'dependencies', message: 'Template dependency vitest is not installed' }),
+    ]);
+
+    fs.rmSync(path.join(testDir, 'node_modules'), { recursive: true });
+    expect(runDoctorChecks(testDir, environment())[0].message).toContain('node_modules is missing');
+  });
+
+  it('should leave hooks and the lockfile of a workspace package to the root and find hoisted dependencies', () => {
+    const packageDir = path.join(testDir, 'packages', 'app');
+    fs.cpSync(path.join(testDir, '.github'), path.join(packageDir, '.github'), { recursive: true });
+    fs.cpSync(path.join(testDir, 'eslint.config.js'), path.join(packageDir, 'eslint.config.js'));
+    fs.writeFileSync(path.join(packageDir, 'package.json'), JSON.stringify({
+      name: 'app',
+      typescriptBootstrap: { template: 'typescript', workspacePackage: true },
+      scripts: { ...templatePackageJson.scripts },
+    }));
+    gitConfig = {};
+
+    expect(runDoctorChecks(packageDir, environment())).toEqual([]);
+  });
+
+  it('should report managed scripts removed from package.json unless package.json is ejected', () => {
+    writePackageJson({ scripts: { test: 'vitest --run' } });
+    expect(runDoctorChecks(testDir, environment())).toEqual([
+      expect.objectContaining({ check: 'scripts', message: 'Managed script "lint" was removed from package.json' }),
+    ]);
+
+    writePackageJson({ scripts: {}, typescriptBootstrap: { template: 'typescript', ejected: ['package.json'] } });
+    expect(runDoctorChecks(testDir, environment())).toEqual([]);
+  });
+});
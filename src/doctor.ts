@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { compareVersionStrings, parseVersionRange } from './dependencies.js';
+import { huskyHooks } from './hooks.js';
+import { integrity } from './integrity.js';
+
+const HASH_MANIFEST_RELATIVE_PATH = '.github/typescript-bootstrap-hashes.json';
+const HUSKY_HOOKS_PATHS = ['.husky', '.husky/_'];
+
+export type DoctorCheck = 'metadata' | 'integrity' | 'hooks' | 'lockfile' | 'node-version' | 'dependencies' | 'scripts';
+
+export interface DoctorFinding {
+  check: DoctorCheck;
+  severity: 'error' | 'warning';
+  message: string;
+  fix: string;
+}
+
+interface TemplatePackageJson {
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * What the checks need from outside the project directory, injectable for testing
+ */
+export interface DoctorEnvironment {
+  nodeVersion: string;
+  // Run git with the given arguments in the project and return its trimmed output; throws when git fails
+  git: (args: string[]) => string;
+  readTemplatePackageJson: (template: string) => TemplatePackageJson | null;
+}
+
+function readJson(filePath: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function checkIntegrity(targetDir: string): DoctorFinding[] {
+  const manifest = readJson(path.join(targetDir, HASH_MANIFEST_RELATIVE_PATH));
+  if (!manifest) {
+    return [{
+      check: 'integrity',
+      severity: 'error',
+      message: `Hash manifest ${HASH_MANIFEST_RELATIVE_PATH} is missing or unparsable`,
+      fix: 'Run "typescript-bootstrap update" to regenerate it',
+    }];
+  }
+
+  // Every managed file is checked, not only the staged ones the pre-commit hook looks at
+  const managedFiles = Array.isArray(manifest.managedFiles) ? manifest.managedFiles as string[] : [];
+  const result = integrity.verifyIntegrityAgainstManifest({ targetDir, stagedFiles: managedFiles });
+  return result.violations.map((violation) => violation.reason === 'missing-file'
+    ? {
+      check: 'integrity',
+      severity: 'warning',
+      message: `Managed file ${violation.file} is missing`,
+      fix: 'Run "typescript-bootstrap update" to restore it, or "typescript-bootstrap eject" it',
+    }
+    : {
+      check: 'integrity',
+      severity: 'error',
+      message: `Managed file ${violation.file} does not match the hash manifest (${violation.reason})`,
+      fix: 'Run "npm run hash:update" if the change is intended, or "typescript-bootstrap update" to restore it',
+    });
+}
+
+function checkHooks(targetDir: string, environment: DoctorEnvironment): DoctorFinding[] {
+  try {
+    environment.git(['rev-parse', '--git-dir']);
+  } catch {
+    return [{
+      check: 'hooks',
+      severity: 'warning',
+      message: 'Not a git repository, so the pre-commit hook cannot run',
+      fix: 'Run "git init" and then "npm run prepare"',
+    }];
+  }
+
+  // The prepare script only installs hooks at the repository root, so they cannot be checked from below it
+  if (!huskyHooks.isHooksRoot(targetDir)) {
+    return [{
+      check: 'hooks',
+      severity: 'warning',
+      message: 'The project is below the repository root, which manages the git hooks',
+      fix: 'Check that core.hooksPath points to the husky hooks at the repository root, or run doctor there',
+    }];
+  }
+
+  let hooksPath = '';
+  try {
+    hooksPath = environment.git(['config', '--get', 'core.hooksPath']);
+  } catch {
+    // Unset core.hooksPath makes git config exit with an error
+  }
+
+  if (!HUSKY_HOOKS_PATHS.includes(hooksPath) || !fs.existsSync(path.join(targetDir, hooksPath))) {
+    return [{
+      check: 'hooks',
+      severity: 'error',
+      message: hooksPath
+        ? `core.hooksPath is "${hooksPath}", so the husky hooks in .husky are not used`
+        : 'Husky hooks are not installed (core.hooksPath is not set)',
+      fix: 'Run "npm run prepare" to install the husky hooks',
+    }];
+  }
+  return [];
+}
+
+function checkNodeVersion(packageJson: Record<string, unknown>, nodeVersion: string): DoctorFinding[] {
+  const required = (packageJson.engines as Record<string, string> | undefined)?.node;
+  const range = required ? parseVersionRange(required) : null;
+  const current = nodeVersion.replace(/^v/, '');
+  if (!range || compareVersionStrings(current, range.min.join('.')) >= 0) {
+    return [];
+  }
+  return [{
+    check: 'node-version',
+    severity: 'error',
+    message: `Node ${current} is older than the required ${required}`,
+    fix: `Install Node ${range.min.join('.')} or newer`,
+  }];
+}
+
+/**
+ * Where the dependencies of a project are installed. Workspace packages usually have theirs hoisted
+ * to the node_modules of the workspace root, so every parent directory is searched too.
+ */
+function listNodeModulesDirectories(targetDir: string, workspacePackage: boolean): string[] {
+  const directories = [path.join(targetDir, 'node_modules')];
+  for (let directory = path.dirname(targetDir); workspacePackage && directory !== path.dirname(directory); directory = path.dirname(directory)) {
+    directories.push(path.join(directory, 'node_modules'));
+  }
+  return directories.filter((directory) => fs.existsSync(directory));
+}
+
+function checkDependencies(targetDir: string, template: TemplatePackageJson, workspacePackage: boolean): DoctorFinding[] {
+  const names = Object.keys({ ...template.dependencies, ...template.devDependencies });
+  const nodeModulesDirectories = listNodeModulesDirectories(targetDir, workspacePackage);
+  if (nodeModulesDirectories.length === 0) {
+    return names.length === 0 ? [] : [{
+      check: 'dependencies',
+      severity: 'error',
+      message: 'Dependencies are not installed (node_modules is missing)',
+      fix: 'Run "npm install"',
+    }];
+  }
+
+  return names
+    .filter((name) => !nodeModulesDirectories.some((directory) => fs.existsSync(path.join(directory, name, 'package.json'))))
+    .map((name) => ({
+      check: 'dependencies',
+      severity: 'error',
+      message: `Template dependency ${name} is not installed`,
+      fix: 'Run "npm install"',
+    }));
+}
+
+function checkScripts(packageJson: Record<string, unknown>, template: TemplatePackageJson): DoctorFinding[] {
+  const scripts = (packageJson.scripts as Record<string, string> | undefined) ?? {};
+  return Object.keys(template.scripts ?? {})
+    .filter((name) => !(name in scripts))
+    .map((name) => ({
+      check: 'scripts',
+      severity: 'warning',
+      message: `Managed script "${name}" was removed from package.json`,
+      fix: 'Run "typescript-bootstrap update" to restore it, or eject package.json to manage scripts yourself',
+    }));
+}
+
+/**
+ * Inspect a bootstrapped project and report every problem found, each with a suggested fix
+ */
+export function runDoctorChecks(targetDir: string, environment: DoctorEnvironment): DoctorFinding[] {
+  const packageJson = readJson(path.join(targetDir, 'package.json'));
+  if (!packageJson) {
+    return [{
+      check: 'metadata',
+      severity: 'error',
+      message: 'package.json is missing or unparsable',
+      fix: 'Run "typescript-bootstrap init" to create a project, or fix the JSON syntax',
+    }];
+  }
+
+  const findings: DoctorFinding[] = [];
+  const metadata = packageJson.typescriptBootstrap as { template?: unknown; ejected?: unknown; workspacePackage?: unknown } | undefined;
+  // Hooks and the lockfile of a workspace package belong to the workspace root
+  const workspacePackage = metadata?.workspacePackage === true;
+  const template = typeof metadata?.template === 'string' ? environment.readTemplatePackageJson(metadata.template) : null;
+  if (!template) {
+    findings.push({
+      check: 'metadata',
+      severity: 'error',
+      message: metadata
+        ? `typescriptBootstrap.template in package.json is not a known template (${JSON.stringify(metadata.template)})`
+        : 'package.json has no typescriptBootstrap metadata',
+      fix: 'Set "typescriptBootstrap": { "template": "typescript" } (or "react", "library", "cli", "node-service" or "monorepo") in package.json',
+    });
+  }
+
+  findings.push(...checkIntegrity(targetDir));
+  if (!workspacePackage) {
+    findings.push(...checkHooks(targetDir, environment));
+  }
+
+  if (!workspacePackage && !fs.existsSync(path.join(targetDir, 'package-lock.json'))) {
+    findings.push({
+      check: 'lockfile',
+      severity: 'warning',
+      message: 'package-lock.json is missing, so installs are not reproducible',
+      fix: 'Run "npm install" and commit package-lock.json',
+    });
+  }
+
+  findings.push(...checkNodeVersion(packageJson, environment.nodeVersion));
+
+  if (template) {
+    findings.push(...checkDependencies(targetDir, template, workspacePackage));
+    const ejected = Array.isArray(metadata?.ejected) ? metadata.ejected : [];
+    if (!ejected.includes('package.json')) {
+      findings.push(...checkScripts(packageJson, template));
+    }
+  }
+
+  return findings;
+}
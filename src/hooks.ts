@@ -0,0 +1,8 @@
+import { loadPackagedScript } from './packaged-script.js';
+
+interface PrepareModule {
+  isHooksRoot: (dir: string) => boolean;
+}
+
+// Where the prepare script installs the git hooks, so doctor agrees with it
+export const huskyHooks = loadPackagedScript<PrepareModule>('prepare.cjs');
@@ -1,8 +1,11 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { init, update, createOrUpdate, __internal } from './index.js';
+import { createHash } from 'crypto';
+import { init, update, createOrUpdate, undo, eject, switchTemplate, status, addPackage, __internal } from './index.js';
+import { silentLogger } from './logger.js';
+import { createMemoryVolume } from './memory-volume.js';
 
 /**
  * Helper to read package.json from test directory
@@ -12,6 +15,36 @@ function readPackageJson(testDir: string) {
   return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
 }
 
+/**
+ * Simulate a managed file as written by an older bootstrap version: the content is also
+ * recorded as the merge base, so update treats it as untouched and replaces it
+ */
+function writePreviousScaffoldFile(testDir: string, relativePath: string, content: string) {
+  const filePath = path.join(testDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content, 'utf-8');
+
+  const snapshotPath = path.join(testDir, '.github', 'typescript-bootstrap-base.json');
+  const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+  snapshot.files[relativePath] = content;
+  fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+}
+
+/**
+ * Simulate package.json scripts as written by an older bootstrap version, recording them as
+ * the previous template values so update treats them as untouched
+ */
+function writePreviousScaffoldScripts(testDir: string, scripts: Record<string, string>) {
+  const packageJson = readPackageJson(testDir);
+  Object.assign(packageJson.scripts, scripts);
+  fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+  const snapshotPath = path.join(testDir, '.github', 'typescript-bootstrap-base.json');
+  const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+  Object.assign(snapshot.scripts, scripts);
+  fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+}
+
 describe('TypeScript Bootstrap - Feature Tests', () => {
   let testDir: string;
 
@@ -325,10 +358,46 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(packageJson.typescriptBootstrap.template).toBe('react');
     });
 
+    it('should prompt for template and select library when choice is 3', async () => {
+      await init({ projectName: 'prompt-library-test',
+        targetDir: testDir,
+        prompt: async () => '3' });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('library');
+    });
+
+    it('should prompt for template and select cli when choice is 4', async () => {
+      await init({ projectName: 'prompt-cli-test',
+        targetDir: testDir,
+        prompt: async () => '4' });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('cli');
+    });
+
+    it('should prompt for template and select node-service when choice is 5', async () => {
+      await init({ projectName: 'prompt-service-test',
+        targetDir: testDir,
+        prompt: async () => '5' });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('node-service');
+    });
+
+    it('should prompt for template and select monorepo when choice is 6', async () => {
+      await init({ projectName: 'prompt-monorepo-test',
+        targetDir: testDir,
+        prompt: async () => '6' });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('monorepo');
+    });
+
     it('should throw error when prompt choice is invalid', async () => {
       await expect(init({ projectName: 'prompt-invalid-test',
         targetDir: testDir,
-        prompt: async () => '3' })).rejects.toThrow('Invalid choice');
+        prompt: async () => '7' })).rejects.toThrow('Invalid choice');
     });
 
     it('should create all configuration files with valid syntax', async () => {
@@ -443,6 +512,57 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(indexHtml).not.toContain('main.ts"');
     });
 
+    it('should reject project names npm would not publish when prompts are disabled', async () => {
+      await expect(init({ projectName: 'My App!',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({
+          code: 'INVALID_PROJECT_NAME',
+          message: expect.stringContaining('e.g. "my-app"'),
+        });
+      expect(fs.readdirSync(testDir)).toEqual([]);
+    });
+
+    it('should offer a normalized project name and accept another one', async () => {
+      const answers = ['', '1', '@acme/Widgets', '@acme/widgets', '1'];
+      const questions: string[] = [];
+      const prompt = vi.fn(async (question: string) => {
+        questions.push(question);
+        return answers.shift() ?? '';
+      });
+
+      await init({ projectName: 'My App!', targetDir: testDir, prompt, logger: silentLogger });
+      expect(questions[0]).toBe('Package name (my-app): ');
+      expect(readPackageJson(testDir).name).toBe('my-app');
+
+      const otherDir = path.join(testDir, 'other');
+      await init({ projectName: 'Acme Widgets', targetDir: otherDir, prompt, logger: silentLogger });
+      expect(questions.slice(2, 4)).toEqual(['Package name (acme-widgets): ', 'Package name (@acme/widgets): ']);
+      expect(readPackageJson(otherDir).name).toBe('@acme/widgets');
+    });
+
+    it('should title a project named after its folder', async () => {
+      const folder = path.join(testDir, 'acme-widgets');
+      fs.mkdirSync(folder);
+      vi.spyOn(process, 'cwd').mockReturnValue(folder);
+
+      try {
+        await init({ template: 'typescript', skipPrompts: true, logger: silentLogger });
+      } finally {
+        vi.restoreAllMocks();
+      }
+
+      expect(readPackageJson(folder)).toMatchObject({ name: 'acme-widgets', description: 'Acme Widgets' });
+    });
+
+    it('should name and title a project after its target folder rather than the working directory', async () => {
+      const folder = path.join(testDir, 'acme-gadgets');
+
+      await init({ targetDir: folder, template: 'typescript', skipPrompts: true, logger: silentLogger });
+
+      expect(readPackageJson(folder)).toMatchObject({ name: 'acme-gadgets', description: 'Acme Gadgets' });
+    });
+
     it('should throw error for invalid template type', async () => {
       await expect(init({ projectName: 'invalid-template-test',
         targetDir: testDir,
@@ -567,6 +687,168 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(reactPkg.typescriptBootstrap).toBeDefined();
       expect(reactPkg.typescriptBootstrap.template).toBe('react');
     });
+
+    it('should create a publishable package with the library template', async () => {
+      await init({ projectName: 'library-template-test',
+        targetDir: testDir,
+        template: 'library', skipPrompts: true });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.private).toBeUndefined();
+      expect(packageJson.files).toEqual(['dist']);
+      expect(packageJson.exports['.']).toEqual({
+        import: { types: './dist/index.d.ts', default: './dist/index.js' },
+        require: { types: './dist/index.d.cts', default: './dist/index.cjs' },
+      });
+      expect(packageJson.devDependencies).toHaveProperty('vite-plugin-dts');
+      expect(fs.readFileSync(path.join(testDir, 'vite.config.ts'), 'utf-8')).toContain("formats: ['es', 'cjs']");
+      expect(fs.existsSync(path.join(testDir, 'src', 'index.ts'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'scripts', 'package-validation.cjs'))).toBe(true);
+    });
+
+    it('should create an executable command with the cli template', async () => {
+      await init({ projectName: 'cli-template-test',
+        targetDir: testDir,
+        template: 'cli', skipPrompts: true });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.bin).toBe('./dist/cli.js');
+      expect(packageJson.scripts.dev).toBe('tsx src/cli.ts');
+      expect(fs.readFileSync(path.join(testDir, 'vite.config.ts'), 'utf-8')).toContain("const SHEBANG = '#!/usr/bin/env node'");
+      expect(fs.readFileSync(path.join(testDir, 'src', 'run.ts'), 'utf-8')).toContain('Usage: cli-template-test [options]');
+      expect(fs.existsSync(path.join(testDir, 'src', 'testing', 'run-cli.ts'))).toBe(true);
+    });
+
+    it('should create an HTTP service with the node-service template', async () => {
+      await init({ projectName: 'service-template-test',
+        targetDir: testDir,
+        template: 'node-service', skipPrompts: true });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.scripts.start).toBe('node dist/main.js');
+      expect(packageJson.dependencies).toBeUndefined();
+      for (const file of ['main.ts', 'config.ts', 'logic/greeting.ts', 'http/routes.ts', 'http/server.ts', 'http/server.test.ts']) {
+        expect(fs.existsSync(path.join(testDir, 'src', file)), `src/${file} should exist`).toBe(true);
+      }
+      expect(fs.existsSync(path.join(testDir, '.husky', 'pre-commit.cjs'))).toBe(true);
+    });
+
+    it('should only publish a library that opted in', async () => {
+      const optedOutDir = path.join(testDir, 'opted-out');
+      const optedInDir = path.join(testDir, 'opted-in');
+      fs.mkdirSync(optedOutDir, { recursive: true });
+      fs.mkdirSync(optedInDir, { recursive: true });
+      await init({ projectName: 'library-private-test', targetDir: optedOutDir, template: 'library', skipPrompts: true });
+      await init({ projectName: 'library-published-test', targetDir: optedInDir, template: 'library', prompt: async () => 'yes' });
+
+      const optedOutWorkflow = fs.readFileSync(path.join(optedOutDir, '.github', 'workflows', 'publish.yml'), 'utf-8');
+      const optedInWorkflow = fs.readFileSync(path.join(optedInDir, '.github', 'workflows', 'publish.yml'), 'utf-8');
+      expect(optedOutWorkflow).toContain("if: ${{ false && github.event.workflow_run.conclusion == 'success' }}");
+      expect(optedInWorkflow).toContain("if: ${{ true && github.event.workflow_run.conclusion == 'success' }}");
+      expect(optedInWorkflow).toContain('node scripts/package-validation.cjs');
+      expect(readPackageJson(optedInDir).typescriptBootstrap.placeholders).toEqual({ PUBLISH_PACKAGE: 'yes' });
+    });
+  });
+
+  describe('Workspaces', () => {
+    async function createWorkspace() {
+      await init({ projectName: 'workspace-root', targetDir: testDir, template: 'monorepo', skipPrompts: true, logger: silentLogger });
+    }
+
+    it('should create a workspace root with the monorepo template', async () => {
+      await createWorkspace();
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.workspaces).toEqual(['packages/*']);
+      expect(packageJson.scripts.test).toBe('node scripts/workspaces.cjs run test');
+      expect(fs.readFileSync(path.join(testDir, 'pnpm-workspace.yaml'), 'utf-8')).toContain("- 'packages/*'");
+      expect(fs.existsSync(path.join(testDir, 'packages', '.gitkeep'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, '.husky', 'pre-commit.cjs'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'scripts', 'workspaces.cjs'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'tsconfig.json'))).toBe(false);
+    });
+
+    it('should add packages without the workflows and hooks the root provides', async () => {
+      await createWorkspace();
+
+      const result = await addPackage({ projectName: '@acme/api', targetDir: testDir, template: 'node-service', skipPrompts: true, logger: silentLogger });
+
+      const packageDir = path.join(testDir, 'packages', 'api');
+      const packageJson = readPackageJson(packageDir);
+      expect(packageJson.name).toBe('@acme/api');
+      expect(packageJson.typescriptBootstrap).toMatchObject({ template: 'node-service', workspacePackage: true });
+      expect(fs.existsSync(path.join(packageDir, 'src', 'main.ts'))).toBe(true);
+      expect(fs.existsSync(path.join(packageDir, 'scripts', 'template-integrity.cjs'))).toBe(true);
+      expect(fs.existsSync(path.join(packageDir, '.husky'))).toBe(false);
+      expect(fs.existsSync(path.join(packageDir, '.github', 'workflows'))).toBe(false);
+      expect(result.files.created).not.toContain('.husky/pre-commit');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should leave out the workflows a template ships itself', async () => {
+      await createWorkspace();
+
+      const result = await addPackage({ projectName: 'utils', targetDir: testDir, template: 'library', skipPrompts: true, logger: silentLogger });
+
+      // Only the bootstrap's own records of the package live below its .github
+      const githubDir = path.join(testDir, 'packages', 'utils', '.github');
+      expect(fs.readdirSync(githubDir).sort()).toEqual(['typescript-bootstrap-base.json', 'typescript-bootstrap-hashes.json']);
+      expect(result.files.created.filter((file) => file.startsWith('.github/workflows/'))).toEqual([]);
+    });
+
+    it('should refuse to add a package outside a workspace root or twice', async () => {
+      await init({ projectName: 'single-project', targetDir: testDir, template: 'typescript', skipPrompts: true, logger: silentLogger });
+      await expect(addPackage({ projectName: 'api', targetDir: testDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'NOT_A_WORKSPACE' });
+
+      fs.rmSync(testDir, { recursive: true, force: true });
+      fs.mkdirSync(testDir);
+      await createWorkspace();
+      await addPackage({ projectName: 'api', targetDir: testDir, template: 'cli', skipPrompts: true, logger: silentLogger });
+      await expect(addPackage({ projectName: 'api', targetDir: testDir, template: 'cli', skipPrompts: true, logger: silentLogger }))
+        .rejects.toThrow('packages/api already contains a package');
+      await expect(addPackage({ projectName: 'nested', targetDir: testDir, template: 'monorepo', skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'INVALID_TEMPLATE' });
+    });
+
+    it('should warn when the workspace patterns do not match the new package', async () => {
+      await createWorkspace();
+      const packageJson = readPackageJson(testDir);
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify({ ...packageJson, workspaces: ['apps/*'] }, null, 2));
+      fs.rmSync(path.join(testDir, 'pnpm-workspace.yaml'));
+
+      const result = await addPackage({ projectName: 'api', targetDir: testDir, template: 'cli', skipPrompts: true, logger: silentLogger });
+
+      expect(result.warnings).toEqual([expect.stringContaining('packages/api is not matched by the workspace patterns (apps/*)')]);
+    });
+
+    it('should update every workspace package after the root and report each of them', async () => {
+      await createWorkspace();
+      await addPackage({ projectName: 'api', targetDir: testDir, template: 'cli', skipPrompts: true, logger: silentLogger });
+      await addPackage({ projectName: 'web', targetDir: testDir, template: 'typescript', skipPrompts: true, logger: silentLogger });
+      // A package whose package.json cannot be read has no metadata, so it is left alone
+      fs.writeFileSync(path.join(testDir, 'packages', 'web', 'package.json'), '{ invalid');
+      fs.rmSync(path.join(testDir, 'packages', 'api', 'vite.config.ts'));
+
+      const result = await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+
+      expect(result.action).toBe('updated');
+      expect(fs.existsSync(path.join(testDir, 'packages', 'api', 'vite.config.ts'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'packages', 'api', '.husky'))).toBe(false);
+      expect(result.workspacePackages).toEqual([
+        { directory: 'packages/api', result: expect.objectContaining({ action: 'updated', template: 'cli' }), error: null },
+      ]);
+
+      // A failing package is reported and does not stop the others
+      fs.writeFileSync(path.join(testDir, 'packages', 'web', 'package.json'), JSON.stringify({
+        name: 'web',
+        typescriptBootstrap: { template: 'no-such-template', workspacePackage: true },
+      }));
+      const failed = await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+      expect(failed.workspacePackages?.map((entry) => entry.directory)).toEqual(['packages/api', 'packages/web']);
+      expect(failed.workspacePackages?.[1]).toMatchObject({ result: null, error: expect.stringContaining('no-such-template') });
+      expect(failed.warnings).toEqual([expect.stringContaining('Workspace package packages/web was not updated')]);
+    });
   });
 
   describe('Project Update', () => {
@@ -599,6 +881,22 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(updatedPackageJson.name).toBe(projectName);
     });
 
+    it('should restore managed files of a node-service project and keep its service code', async () => {
+      await init({ projectName: 'update-service-test',
+        targetDir: testDir, template: 'node-service', skipPrompts: true });
+
+      const viteConfigPath = path.join(testDir, 'vite.config.ts');
+      const serverPath = path.join(testDir, 'src', 'http', 'server.ts');
+      const originalViteConfig = fs.readFileSync(viteConfigPath, 'utf-8');
+      fs.unlinkSync(viteConfigPath);
+      fs.appendFileSync(serverPath, '\n// Custom middleware\n');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(fs.readFileSync(viteConfigPath, 'utf-8')).toBe(originalViteConfig);
+      expect(fs.readFileSync(serverPath, 'utf-8')).toContain('// Custom middleware');
+    });
+
     it('should abort update when user declines confirmation', async () => {
       await init({ projectName: 'update-cancel-test',
         targetDir: testDir, skipPrompts: true });
@@ -695,7 +993,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
 
       // Modify a configuration file
       const tsconfigPath = path.join(testDir, 'tsconfig.json');
-      fs.writeFileSync(tsconfigPath, '{"modified": true}');
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"modified": true}');
 
       // Update the project
       await update({ targetDir: testDir, skipPrompts: true });
@@ -732,7 +1030,8 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
         'react',
         'package.json'
       );
-      const backupPath = `${templatePackageJsonPath}.bak`;
+      // Kept outside the template directory, whose manifest must cover every file in it
+      const backupPath = path.resolve(process.cwd(), 'templates', 'react-package.json.bak');
 
       if (fs.existsSync(backupPath)) {
         fs.rmSync(backupPath, { force: true });
@@ -975,7 +1274,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
 
       // Modify tsconfig.json to simulate old project
       const tsconfigPath = path.join(testDir, 'tsconfig.json');
-      fs.writeFileSync(tsconfigPath, '{"old": true}');
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"old": true}');
 
       // Update the project
       await update({ targetDir: testDir, skipPrompts: true });
@@ -1012,6 +1311,60 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(gitignoreContent).toContain('dist');
     });
 
+    it('should only rewrite the managed block of .gitignore during update', async () => {
+      await init({ projectName: 'gitignore-block-test',
+        targetDir: testDir, skipPrompts: true });
+
+      const gitignorePath = path.join(testDir, '.gitignore');
+      const initial = fs.readFileSync(gitignorePath, 'utf-8');
+      expect(initial.startsWith('# >>> typescript-bootstrap >>>\n')).toBe(true);
+
+      const outdatedBlock = initial.replace('coverage\n', '');
+      fs.writeFileSync(gitignorePath, `.env\n${outdatedBlock}generated/\n`, 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(fs.readFileSync(gitignorePath, 'utf-8')).toBe(`.env\n${initial}generated/\n`);
+      const manifest = JSON.parse(fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8'));
+      expect(manifest.hashes['.gitignore']).toBe(createHash('sha256').update(initial).digest('hex'));
+    });
+
+    it('should keep user entries of a .gitignore written whole by an older version', async () => {
+      await init({ projectName: 'gitignore-legacy-test',
+        targetDir: testDir, skipPrompts: true });
+
+      const gitignorePath = path.join(testDir, '.gitignore');
+      const rootGitignore = fs.readFileSync(path.join(__dirname, '..', '.gitignore'), 'utf-8');
+      fs.writeFileSync(gitignorePath, `${rootGitignore}.env\n`, 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      const content = fs.readFileSync(gitignorePath, 'utf-8');
+      expect(content).toContain('# <<< typescript-bootstrap <<<\n\n.env\n');
+      expect(content.match(/^node_modules$/gm)).toHaveLength(1);
+    });
+
+    it('should stop tracking seeded files that older versions managed, without removing them', async () => {
+      await init({ projectName: 'seeded-upgrade-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      const manifestPath = path.join(testDir, '.github', 'typescript-bootstrap-hashes.json');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.managedFiles.push('README.md', 'src/main.ts', 'src/test.setup.ts');
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      const updatedManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      expect(updatedManifest.managedFiles).not.toContain('README.md');
+      expect(updatedManifest.managedFiles).not.toContain('src/main.ts');
+      expect(updatedManifest.managedFiles).toContain('tsconfig.json');
+      expect(fs.existsSync(path.join(testDir, 'README.md'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'src', 'main.ts'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'src', 'test.setup.ts'))).toBe(true);
+    });
+
     it('should refresh scaffold hash manifest during update', async () => {
       await init({ projectName: 'hash-manifest-update-test',
         targetDir: testDir, skipPrompts: true });
@@ -1022,7 +1375,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
 
       const eslintPath = path.join(testDir, 'eslint.config.js');
       const originalContent = fs.readFileSync(eslintPath, 'utf-8');
-      fs.writeFileSync(eslintPath, `${originalContent}\n// temporary local change`, 'utf-8');
+      writePreviousScaffoldFile(testDir, 'eslint.config.js', `${originalContent}\n// previous template version`);
 
       await update({ targetDir: testDir, skipPrompts: true });
 
@@ -1194,8 +1547,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
 
       // Modify all files
       for (const file of filesToModify) {
-        const filePath = path.join(testDir, file.path);
-        fs.writeFileSync(filePath, file.content, 'utf-8');
+        writePreviousScaffoldFile(testDir, file.path, file.content);
       }
 
       // Also modify package.json to add custom field
@@ -1314,8 +1666,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
 
       // Modify all files
       for (const file of filesToModify) {
-        const filePath = path.join(testDir, file.path);
-        fs.writeFileSync(filePath, file.content, 'utf-8');
+        writePreviousScaffoldFile(testDir, file.path, file.content);
       }
 
       // Run update
@@ -1369,7 +1720,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       for (const file of expectedUpdatableFiles) {
         const filePath = path.join(testDir, file);
         if (fs.existsSync(filePath)) {
-          fs.writeFileSync(filePath, `// MODIFIED: ${file}`, 'utf-8');
+          writePreviousScaffoldFile(testDir, file, `// MODIFIED: ${file}`);
         }
       }
 
@@ -1484,10 +1835,8 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(packageJson.scripts.dev).toBe('tsx watch src/main.ts');
       expect(packageJson.scripts.preview).toBe('node dist/main.js');
 
-      // Corrupt scripts to simulate manual changes
-      packageJson.scripts.dev = 'vite'; // Wrong for TypeScript template
-      packageJson.scripts.preview = 'vite preview'; // Wrong for TypeScript template
-      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2));
+      // Simulate outdated scripts written by an older template version
+      writePreviousScaffoldScripts(testDir, { dev: 'vite', preview: 'vite preview' });
 
       // Update project
       await update({ targetDir: testDir, skipPrompts: true });
@@ -1579,7 +1928,7 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(fs.existsSync(indexHtmlPath)).toBe(true);
 
       // Modify index.html
-      fs.writeFileSync(indexHtmlPath, '<html><body>old</body></html>');
+      writePreviousScaffoldFile(testDir, 'index.html', '<html><body>old</body></html>');
 
       // Update project
       await update({ targetDir: testDir, skipPrompts: true });
@@ -1704,6 +2053,36 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(updatedPackageJson.scripts).toBeDefined();
     });
 
+    it('should keep newer local dependency ranges and upgrade older ones', async () => {
+      await init({ projectName: 'semver-merge-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+
+      const packageJsonPath = path.join(testDir, 'package.json');
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      const templateTypescript = packageJson.devDependencies.typescript;
+      packageJson.devDependencies.vite = '^99.0.0';
+      packageJson.devDependencies.typescript = '^1.0.0';
+      fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      try {
+        await update({ targetDir: testDir, skipPrompts: true });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      expect(updatedPackageJson.devDependencies.vite).toBe('^99.0.0');
+      expect(updatedPackageJson.devDependencies.typescript).toBe(templateTypescript);
+      const output = logs.join('\n');
+      expect(output).toContain('devDependencies.vite: ^99.0.0 (template: ');
+      expect(output).toContain('downgrade avoided');
+      expect(output).toContain(`devDependencies.typescript: ^1.0.0 → ${templateTypescript} [upgraded]`);
+    });
+
     it('should handle error that is not Error instanceof during package.json parse', async () => {
       // Create a valid project first
       await init({ projectName: 'non-error-test',
@@ -1797,117 +2176,1194 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
     });
   });
 
-  describe('Create Or Update', () => {
-    it('should create a project when package.json does not exist', async () => {
-      await createOrUpdate({ projectName: 'create-or-update-new',
-        targetDir: testDir, skipPrompts: true });
+  describe('Managed File Merging', () => {
+    const snapshotPath = () => path.join(testDir, '.github', 'typescript-bootstrap-base.json');
 
-      const packageJsonPath = path.join(testDir, 'package.json');
-      expect(fs.existsSync(packageJsonPath)).toBe(true);
-    });
+    function setMergeBase(relativePath: string, content: string) {
+      const snapshot = JSON.parse(fs.readFileSync(snapshotPath(), 'utf-8'));
+      snapshot.files[relativePath] = content;
+      fs.writeFileSync(snapshotPath(), JSON.stringify(snapshot, null, 2), 'utf-8');
+    }
 
-    it('should update a project when package.json exists', async () => {
-      await init({ projectName: 'create-or-update-existing',
-        targetDir: testDir, skipPrompts: true });
+    async function captureUpdateOutput(): Promise<string> {
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => {
+        lines.push(args.join(' '));
+      };
+      try {
+        await update({ targetDir: testDir, skipPrompts: true });
+      } finally {
+        console.log = originalLog;
+      }
+      return lines.join('\n');
+    }
 
-      const packageJsonPath = path.join(testDir, 'package.json');
-      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      packageJson.customField = 'custom-value';
-      fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+    it('should record pristine template content as merge base during init', async () => {
+      await init({ projectName: 'merge-base-init-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
 
-      await createOrUpdate({ targetDir: testDir, skipPrompts: true });
+      const snapshot = JSON.parse(fs.readFileSync(snapshotPath(), 'utf-8'));
+      const viteConfig = fs.readFileSync(path.join(testDir, 'vite.config.ts'), 'utf-8');
 
-      const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      expect(updatedPackageJson.customField).toBe('custom-value');
+      expect(snapshot.files['vite.config.ts']).toBe(viteConfig);
+      expect(snapshot.files['eslint.config.js']).toBeDefined();
+      expect(snapshot.files['package.json']).toBeUndefined();
     });
 
-    it('should create a project using current working directory by default', async () => {
-      const projectDir = path.join(testDir, 'cwd-create-test');
-      fs.mkdirSync(projectDir, { recursive: true });
+    it('should keep local edits when the template did not change', async () => {
+      await init({ projectName: 'merge-keep-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
 
-      const originalCwd = process.cwd();
-      process.chdir(projectDir);
+      const vitePath = path.join(testDir, 'vite.config.ts');
+      const localContent = `${fs.readFileSync(vitePath, 'utf-8')}// local tweak\n`;
+      fs.writeFileSync(vitePath, localContent, 'utf-8');
 
-      try {
-        await createOrUpdate({ skipPrompts: true });
+      await update({ targetDir: testDir, skipPrompts: true });
 
-        const packageJsonPath = path.join(projectDir, 'package.json');
-        expect(fs.existsSync(packageJsonPath)).toBe(true);
-      } finally {
-        process.chdir(originalCwd);
-      }
+      expect(fs.readFileSync(vitePath, 'utf-8')).toBe(localContent);
     });
 
-    it('should throw error when package.json in createOrUpdate is not parseable', async () => {
-      const packageJsonPath = path.join(testDir, 'package.json');
-      fs.writeFileSync(packageJsonPath, '{ invalid json }', 'utf-8');
+    it('should merge local edits with template changes', async () => {
+      await init({ projectName: 'merge-combine-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
 
-      await expect(
-        createOrUpdate({ targetDir: testDir, skipPrompts: true })
-      ).rejects.toThrow('but it could not be parsed');
-    });
+      const vitePath = path.join(testDir, 'vite.config.ts');
+      const templateContent = fs.readFileSync(vitePath, 'utf-8');
+      const previousTemplate = templateContent.replace('emptyOutDir: true', 'emptyOutDir: false');
+      setMergeBase('vite.config.ts', previousTemplate);
+      fs.writeFileSync(vitePath, `${previousTemplate}// local tweak\n`, 'utf-8');
 
-    it('should throw error when non-bootstrap project is detected with skipPrompts', async () => {
-      // Create a non-bootstrap package.json (without typescriptBootstrap metadata)
-      const packageJsonPath = path.join(testDir, 'package.json');
-      fs.writeFileSync(packageJsonPath, JSON.stringify({
-        name: 'existing-project',
-        version: '1.0.0'
-      }, null, 2), 'utf-8');
+      const output = await captureUpdateOutput();
 
-      await expect(
-        createOrUpdate({ targetDir: testDir, skipPrompts: true })
-      ).rejects.toThrow('no TypeScript Bootstrap metadata was detected');
+      expect(fs.readFileSync(vitePath, 'utf-8')).toBe(`${templateContent}// local tweak\n`);
+      expect(output).toContain('Local changes merged with the template');
+      expect(output).toContain('   - vite.config.ts');
+
+      const snapshot = JSON.parse(fs.readFileSync(snapshotPath(), 'utf-8'));
+      expect(snapshot.files['vite.config.ts']).toBe(templateContent);
     });
 
-    it('should prompt and update when non-bootstrap project user confirms', async () => {
-      // Create a non-bootstrap package.json
-      const packageJsonPath = path.join(testDir, 'package.json');
-      fs.writeFileSync(packageJsonPath, JSON.stringify({
-        name: 'existing-non-bootstrap',
-        version: '1.0.0'
-      }, null, 2), 'utf-8');
+    it('should write conflict markers and report overlapping edits', async () => {
+      await init({ projectName: 'merge-conflict-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
 
-      // Mock prompt to simulate user saying 'yes' then choosing react template
-      const promptAnswers = ['y', '2'];
-      const mockPrompt = async () => {
-        const answer = promptAnswers.shift();
-        return answer ?? '2';
-      };
+      const vitePath = path.join(testDir, 'vite.config.ts');
+      const templateContent = fs.readFileSync(vitePath, 'utf-8');
+      setMergeBase('vite.config.ts', templateContent.replace('emptyOutDir: true', 'emptyOutDir: false'));
+      fs.writeFileSync(vitePath, templateContent.replace('emptyOutDir: true', "emptyOutDir: process.env.CLEAN === '1'"), 'utf-8');
 
-      await createOrUpdate({ 
-        targetDir: testDir, 
-        skipPrompts: false,
-        prompt: mockPrompt,
-        confirm: async () => true
-      });
+      const output = await captureUpdateOutput();
+      const merged = fs.readFileSync(vitePath, 'utf-8');
 
-      // Verify project was updated with TypeScript Bootstrap metadata
-      const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-      expect(updatedPackageJson.typescriptBootstrap).toBeDefined();
+      expect(merged).toContain('<<<<<<< local');
+      expect(merged).toContain("    emptyOutDir: process.env.CLEAN === '1',\n=======\n    emptyOutDir: true,");
+      expect(merged).toContain('>>>>>>> template');
+      expect(output).toContain('Conflicts between local changes and the template');
+      expect(output).toContain('vite.config.ts (1 conflict(s))');
     });
 
-    it('should abort when non-bootstrap project user declines', async () => {
-      // Create a non-bootstrap package.json
-      const packageJsonPath = path.join(testDir, 'package.json');
-      const originalContent = JSON.stringify({
-        name: 'existing-non-bootstrap',
-        version: '1.0.0'
-      }, null, 2);
-      fs.writeFileSync(packageJsonPath, originalContent, 'utf-8');
+    it('should reconstruct the merge base from the hash manifest when the snapshot is missing', async () => {
+      await init({ projectName: 'merge-reconstruct-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      fs.rmSync(snapshotPath());
 
-      // Mock prompt to simulate user saying 'no'
-      const mockPrompt = async () => {
-        return 'n';
-      };
+      const eslintPath = path.join(testDir, 'eslint.config.js');
+      const localContent = `${fs.readFileSync(eslintPath, 'utf-8')}// project rule\n`;
+      fs.writeFileSync(eslintPath, localContent, 'utf-8');
 
-      await createOrUpdate({ 
-        targetDir: testDir, 
-        skipPrompts: false,
-        prompt: mockPrompt
-      });
+      await update({ targetDir: testDir, skipPrompts: true });
 
-      // Verify project was NOT updated (no TypeScript Bootstrap metadata)
+      expect(fs.readFileSync(eslintPath, 'utf-8')).toBe(localContent);
+      expect(fs.existsSync(snapshotPath())).toBe(true);
+    });
+
+    it('should replace files that still match the previous manifest hash', async () => {
+      await init({ projectName: 'merge-untouched-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      fs.rmSync(snapshotPath());
+
+      const manifestPath = path.join(testDir, '.github', 'typescript-bootstrap-hashes.json');
+      const oldContent = '// written by an older bootstrap\n';
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.hashes['eslint.config.js'] = createHash('sha256').update(oldContent).digest('hex');
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+      fs.writeFileSync(path.join(testDir, 'eslint.config.js'), oldContent, 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(fs.readFileSync(path.join(testDir, 'eslint.config.js'), 'utf-8')).toContain('typescript-eslint');
+    });
+
+    it('should merge tsconfig.json key by key, keeping path aliases and enforcing strict', async () => {
+      await init({ projectName: 'merge-tsconfig-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      const tsconfigPath = path.join(testDir, 'tsconfig.json');
+      const templateContent = fs.readFileSync(tsconfigPath, 'utf-8');
+      const previousTemplate = templateContent.replace('"target": "ES2020"', '"target": "ES2019"');
+      setMergeBase('tsconfig.json', previousTemplate);
+      fs.writeFileSync(
+        tsconfigPath,
+        previousTemplate
+          .replace('"strict": true', '"strict": false')
+          .replace('"noFallthroughCasesInSwitch": true', '"noFallthroughCasesInSwitch": true,\n    // aliases\n    "paths": { "@/*": ["./src/*"] }')
+          .replace('["src"]', '["src", "scripts"]'),
+        'utf-8'
+      );
+
+      const output = await captureUpdateOutput();
+      const merged = fs.readFileSync(tsconfigPath, 'utf-8');
+
+      expect(merged).toContain('// aliases\n    "paths": { "@/*": ["./src/*"] }');
+      expect(merged).toContain('"target": "ES2020"');
+      expect(merged).toContain('"strict": true');
+      expect(merged).toContain('"include": ["src", "scripts"]');
+      expect(merged).not.toContain('<<<<<<<');
+      expect(output).toContain('   - tsconfig.json');
+    });
+  });
+
+  describe('Bootstrap Version And Migrations', () => {
+    const bootstrapVersion = JSON.parse(fs.readFileSync(path.resolve(process.cwd(), 'package.json'), 'utf-8')).version;
+
+    it('should record the bootstrap version on init', async () => {
+      await init({ projectName: 'version-init-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      expect(readPackageJson(testDir).typescriptBootstrap).toEqual({ template: 'typescript', version: bootstrapVersion });
+    });
+
+    it('should record the bootstrap version on update and include it in the hash manifest', async () => {
+      await init({ projectName: 'version-update-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+      const packageJson = readPackageJson(testDir);
+      packageJson.typescriptBootstrap.version = '0.1.0';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(readPackageJson(testDir).typescriptBootstrap.version).toBe(bootstrapVersion);
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8')
+      );
+      expect(manifest.hashes['package.json']).toBe(
+        createHash('sha256').update(fs.readFileSync(path.join(testDir, 'package.json'))).digest('hex')
+      );
+    });
+
+    it('should remove legacy ESLint configs when updating from a version before the migration', async () => {
+      await init({ projectName: 'migration-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+      const packageJson = readPackageJson(testDir);
+      packageJson.typescriptBootstrap.version = '1.30.0';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+      fs.writeFileSync(path.join(testDir, '.eslintrc.json'), '{}', 'utf-8');
+      fs.writeFileSync(path.join(testDir, '.eslintignore'), 'dist\n', 'utf-8');
+
+      const result = await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+
+      expect(result.files.removed).toEqual(expect.arrayContaining(['.eslintignore', '.eslintrc.json']));
+      expect(fs.existsSync(path.join(testDir, '.eslintrc.json'))).toBe(false);
+      expect(fs.existsSync(path.join(testDir, '.eslintignore'))).toBe(false);
+      expect(fs.existsSync(path.join(testDir, 'eslint.config.js'))).toBe(true);
+    });
+
+    it('should not run migrations the project already went through', async () => {
+      await init({ projectName: 'migration-done-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+      fs.writeFileSync(path.join(testDir, '.eslintrc.json'), '{}', 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+
+      expect(fs.existsSync(path.join(testDir, '.eslintrc.json'))).toBe(true);
+    });
+
+    it('should fail with a coded error when the recorded version is malformed', async () => {
+      await init({ projectName: 'migration-invalid-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+      const packageJson = readPackageJson(testDir);
+      packageJson.typescriptBootstrap.version = 'latest';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      await expect(update({ targetDir: testDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'INVALID_VERSION' });
+    });
+
+    it('should not record the version in a dry run', async () => {
+      await init({ projectName: 'version-dry-run-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      const packageJson = readPackageJson(testDir);
+      delete packageJson.typescriptBootstrap.version;
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true, dryRun: true });
+
+      expect(readPackageJson(testDir).typescriptBootstrap.version).toBeUndefined();
+    });
+  });
+
+  describe('Customized Scripts', () => {
+    async function initWithCustomTestScript(): Promise<void> {
+      await init({ projectName: 'scripts-merge-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      // The template changes "test" after the user customized it
+      writePreviousScaffoldScripts(testDir, { test: 'vitest' });
+      const packageJson = readPackageJson(testDir);
+      packageJson.scripts.test = 'vitest --reporter=junit';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+    }
+
+    it('should record the template scripts in the base snapshot', async () => {
+      await init({ projectName: 'scripts-base-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      const snapshot = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-base.json'), 'utf-8')
+      );
+      expect(snapshot.scripts).toEqual(readPackageJson(testDir).scripts);
+    });
+
+    it('should keep scripts changed only locally', async () => {
+      await init({ projectName: 'scripts-local-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      const packageJson = readPackageJson(testDir);
+      packageJson.scripts.test = 'vitest --reporter=junit';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(readPackageJson(testDir).scripts.test).toBe('vitest --reporter=junit');
+    });
+
+    it('should keep the local value of a conflicting script and report it without prompts', async () => {
+      await initWithCustomTestScript();
+
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      try {
+        await update({ targetDir: testDir, skipPrompts: true });
+      } finally {
+        console.log = originalLog;
+      }
+
+      const scripts = readPackageJson(testDir).scripts;
+      expect(scripts.test).toBe('vitest --reporter=junit');
+      expect(logs.join('\n')).toContain('test: local "vitest --reporter=junit", template "vitest --run" [kept local]');
+
+      const snapshot = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-base.json'), 'utf-8')
+      );
+      expect(snapshot.scripts.test).toBe('vitest --run');
+    });
+
+    it('should take the template value when chosen', async () => {
+      await initWithCustomTestScript();
+
+      await update({ targetDir: testDir, confirm: async () => true, prompt: async () => 't' });
+
+      expect(readPackageJson(testDir).scripts.test).toBe('vitest --run');
+    });
+
+    it('should keep both values when chosen', async () => {
+      await initWithCustomTestScript();
+
+      await update({ targetDir: testDir, confirm: async () => true, prompt: async () => 'b' });
+
+      const scripts = readPackageJson(testDir).scripts;
+      expect(scripts.test).toBe('vitest --reporter=junit');
+      expect(scripts['test:template']).toBe('vitest --run');
+    });
+  });
+
+  describe('Ejected Files', () => {
+    const manifestPath = () => path.join(testDir, '.github', 'typescript-bootstrap-hashes.json');
+
+    it('should record ejected files and stop tracking them in the hash manifest', async () => {
+      await init({ projectName: 'eject-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+
+      await eject({ targetDir: testDir, files: ['./vite.config.ts', '.github/workflows/ci.yml'] });
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('react');
+      expect(packageJson.typescriptBootstrap.ejected).toEqual(['.github/workflows/ci.yml', 'vite.config.ts']);
+
+      const manifest = JSON.parse(fs.readFileSync(manifestPath(), 'utf-8'));
+      expect(manifest.managedFiles).not.toContain('vite.config.ts');
+      expect(manifest.managedFiles).not.toContain('.github/workflows/ci.yml');
+      expect(manifest.hashes['vite.config.ts']).toBeUndefined();
+      expect(manifest.hashes['package.json']).toBe(
+        createHash('sha256').update(fs.readFileSync(path.join(testDir, 'package.json'))).digest('hex')
+      );
+    });
+
+    it('should reject files that are not managed by the bootstrap', async () => {
+      await init({ projectName: 'eject-unknown-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      await expect(eject({ targetDir: testDir, files: ['src/index.ts'] }))
+        .rejects.toThrow(/Not managed by TypeScript Bootstrap: src\/index.ts/);
+      expect(readPackageJson(testDir).typescriptBootstrap.ejected).toBeUndefined();
+    });
+
+    it('should leave ejected files untouched on update and report them', async () => {
+      await init({ projectName: 'eject-update-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      await eject({ targetDir: testDir, files: ['tsconfig.json'] });
+      fs.writeFileSync(path.join(testDir, 'tsconfig.json'), '{"owned": true}', 'utf-8');
+
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      try {
+        await update({ targetDir: testDir, skipPrompts: true });
+      } finally {
+        console.log = originalLog;
+      }
+
+      expect(fs.readFileSync(path.join(testDir, 'tsconfig.json'), 'utf-8')).toBe('{"owned": true}');
+      expect(logs.join('\n')).toContain('tsconfig.json (ejected)');
+      expect(readPackageJson(testDir).typescriptBootstrap.ejected).toEqual(['tsconfig.json']);
+
+      const manifest = JSON.parse(fs.readFileSync(manifestPath(), 'utf-8'));
+      expect(manifest.managedFiles).not.toContain('tsconfig.json');
+      const snapshot = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-base.json'), 'utf-8')
+      );
+      expect(snapshot.files['tsconfig.json']).toBeUndefined();
+    });
+
+    it('should keep package.json untouched on update when it is ejected', async () => {
+      await init({ projectName: 'eject-package-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      await eject({ targetDir: testDir, files: ['package.json'] });
+
+      const packageJson = readPackageJson(testDir);
+      packageJson.scripts.build = 'custom-build';
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(readPackageJson(testDir).scripts.build).toBe('custom-build');
+    });
+  });
+
+  describe('Removed Template Files', () => {
+    /**
+     * Simulate a file written by an older template version that the current template no longer ships
+     */
+    function writeDroppedManagedFile(relativePath: string, content: string) {
+      const filePath = path.join(testDir, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content, 'utf-8');
+
+      const manifestPath = path.join(testDir, '.github', 'typescript-bootstrap-hashes.json');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.managedFiles.push(relativePath);
+      manifest.hashes[relativePath] = createHash('sha256').update(content).digest('hex');
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+    }
+
+    async function updateWithLogs(options: Parameters<typeof update>[0]): Promise<string> {
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      try {
+        await update({ targetDir: testDir, ...options });
+      } finally {
+        console.log = originalLog;
+      }
+      return logs.join('\n');
+    }
+
+    beforeEach(async () => {
+      await init({ projectName: 'removed-files-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+    });
+
+    it('should remove untouched files that the template no longer ships', async () => {
+      writeDroppedManagedFile('.github/workflows/legacy.yml', 'name: legacy\n');
+
+      const output = await updateWithLogs({ skipPrompts: true });
+
+      expect(fs.existsSync(path.join(testDir, '.github', 'workflows', 'legacy.yml'))).toBe(false);
+      expect(output).toContain('.github/workflows/legacy.yml (removed)');
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8')
+      );
+      expect(manifest.managedFiles).not.toContain('.github/workflows/legacy.yml');
+    });
+
+    it('should keep locally edited files as unmanaged without prompts', async () => {
+      writeDroppedManagedFile('scripts/legacy.cjs', 'module.exports = {};\n');
+      fs.appendFileSync(path.join(testDir, 'scripts', 'legacy.cjs'), '// local edit\n');
+
+      const output = await updateWithLogs({ skipPrompts: true });
+
+      expect(fs.existsSync(path.join(testDir, 'scripts', 'legacy.cjs'))).toBe(true);
+      expect(output).toContain('Kept as unmanaged files (edited locally, no longer part of the template):\n   - scripts/legacy.cjs');
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8')
+      );
+      expect(manifest.managedFiles).not.toContain('scripts/legacy.cjs');
+    });
+
+    it('should remove locally edited files when chosen', async () => {
+      writeDroppedManagedFile('scripts/legacy.cjs', 'module.exports = {};\n');
+      fs.appendFileSync(path.join(testDir, 'scripts', 'legacy.cjs'), '// local edit\n');
+
+      await updateWithLogs({ confirm: async () => true, prompt: async () => 'r' });
+
+      expect(fs.existsSync(path.join(testDir, 'scripts', 'legacy.cjs'))).toBe(false);
+    });
+
+    it('should never remove source files the template dropped', async () => {
+      writeDroppedManagedFile('src/legacy.ts', 'export const legacy = true;\n');
+
+      await updateWithLogs({ skipPrompts: true });
+
+      expect(fs.existsSync(path.join(testDir, 'src', 'legacy.ts'))).toBe(true);
+    });
+
+    it('should list removals in a dry run without deleting anything', async () => {
+      writeDroppedManagedFile('.github/workflows/legacy.yml', 'name: legacy\n');
+
+      const output = await updateWithLogs({ skipPrompts: true, dryRun: true });
+
+      expect(output).toContain('.github/workflows/legacy.yml (deleted)');
+      expect(fs.existsSync(path.join(testDir, '.github', 'workflows', 'legacy.yml'))).toBe(true);
+    });
+  });
+
+  describe('Template Switching', () => {
+    async function switchWithLogs(template: string): Promise<string> {
+      const logs: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => logs.push(args.join(' '));
+      try {
+        await switchTemplate({ targetDir: testDir, template, skipPrompts: true });
+      } finally {
+        console.log = originalLog;
+      }
+      return logs.join('\n');
+    }
+
+    it('should convert a typescript project to react and keep the old entry point', async () => {
+      await init({ projectName: 'switch-to-react-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      fs.writeFileSync(path.join(testDir, 'src', 'main.ts'), 'console.log("user code");\n', 'utf-8');
+
+      const output = await switchWithLogs('react');
+
+      expect(fs.existsSync(path.join(testDir, 'index.html'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'src', 'main.tsx'))).toBe(true);
+      expect(fs.readFileSync(path.join(testDir, 'src', 'main.ts'), 'utf-8')).toBe('console.log("user code");\n');
+      expect(fs.readFileSync(path.join(testDir, 'vitest.config.ts'), 'utf-8')).toContain("environment: 'happy-dom'");
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('react');
+      expect(packageJson.dependencies).toHaveProperty('react');
+      expect(packageJson.devDependencies).toHaveProperty('@vitejs/plugin-react');
+      expect(packageJson.devDependencies).toHaveProperty('happy-dom');
+      expect(packageJson.devDependencies).not.toHaveProperty('tsx');
+      expect(packageJson.scripts.dev).toBe('vite');
+
+      const manifest = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8')
+      );
+      expect(manifest.managedFiles).toContain('index.html');
+      expect(manifest.managedFiles.filter((file: string) => file.startsWith('src/'))).toEqual([]);
+      expect(output).toContain('src/main.ts comes from the typescript template and was left intact');
+      expect(output).toContain('devDependencies.tsx');
+    });
+
+    it('should convert a react project to typescript, removing untouched react-only files', async () => {
+      await init({ projectName: 'switch-to-typescript-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+
+      const output = await switchWithLogs('typescript');
+
+      expect(fs.existsSync(path.join(testDir, 'index.html'))).toBe(false);
+      expect(fs.existsSync(path.join(testDir, 'src', 'main.tsx'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'src', 'main.ts'))).toBe(true);
+      expect(fs.readFileSync(path.join(testDir, 'vitest.config.ts'), 'utf-8')).toContain("environment: 'node'");
+
+      const packageJson = readPackageJson(testDir);
+      expect(packageJson.typescriptBootstrap.template).toBe('typescript');
+      expect(packageJson.dependencies).toBeUndefined();
+      expect(packageJson.devDependencies).not.toHaveProperty('@vitejs/plugin-react');
+      expect(packageJson.devDependencies).toHaveProperty('tsx');
+      expect(packageJson.scripts.dev).toBe('tsx watch src/main.ts');
+      expect(output).toContain('🗑️  Removed (no longer part of the template):\n   - index.html (removed)');
+
+      const snapshot = JSON.parse(
+        fs.readFileSync(path.join(testDir, '.github', 'typescript-bootstrap-base.json'), 'utf-8')
+      );
+      expect(snapshot.files['index.html']).toBeUndefined();
+    });
+
+    it('should keep locally edited files that the new template does not use and report them', async () => {
+      await init({ projectName: 'switch-edited-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+      fs.writeFileSync(path.join(testDir, 'index.html'), '<html>custom</html>\n', 'utf-8');
+
+      const output = await switchWithLogs('typescript');
+
+      expect(fs.readFileSync(path.join(testDir, 'index.html'), 'utf-8')).toBe('<html>custom</html>\n');
+      expect(output).toContain('📌 Kept as unmanaged files (edited locally, no longer part of the template):\n   - index.html');
+    });
+
+    it('should do nothing when the project already uses the template', async () => {
+      await init({ projectName: 'switch-same-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+      const packageJsonBefore = fs.readFileSync(path.join(testDir, 'package.json'), 'utf-8');
+
+      const output = await switchWithLogs('react');
+
+      expect(output).toContain('already uses the react template');
+      expect(fs.readFileSync(path.join(testDir, 'package.json'), 'utf-8')).toBe(packageJsonBefore);
+    });
+
+    it('should reject unknown templates', async () => {
+      await expect(switchTemplate({ targetDir: testDir, template: 'vue', skipPrompts: true }))
+        .rejects.toThrow('Unknown template "vue"');
+    });
+
+    it('should not change anything when the switch is declined or a dry run', async () => {
+      await init({ projectName: 'switch-declined-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      const packageJsonBefore = fs.readFileSync(path.join(testDir, 'package.json'), 'utf-8');
+
+      await switchTemplate({ targetDir: testDir, template: 'react', confirm: async () => false });
+      await switchTemplate({ targetDir: testDir, template: 'react', dryRun: true });
+
+      expect(fs.readFileSync(path.join(testDir, 'package.json'), 'utf-8')).toBe(packageJsonBefore);
+      expect(fs.existsSync(path.join(testDir, 'index.html'))).toBe(false);
+    });
+  });
+
+  describe('Update Backup And Undo', () => {
+    it('should leave the project untouched when update fails halfway', async () => {
+      await init({ projectName: 'transaction-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"old": true}');
+      const templatePackageJsonPath = path.resolve(process.cwd(), 'templates', 'react', 'package.json');
+      const originalTemplatePackageJson = fs.readFileSync(templatePackageJsonPath, 'utf-8');
+
+      try {
+        fs.writeFileSync(templatePackageJsonPath, '{ invalid json', 'utf-8');
+        await expect(update({ targetDir: testDir, skipPrompts: true })).rejects.toThrow();
+      } finally {
+        fs.writeFileSync(templatePackageJsonPath, originalTemplatePackageJson, 'utf-8');
+      }
+
+      expect(fs.readFileSync(path.join(testDir, 'tsconfig.json'), 'utf-8')).toBe('{"old": true}');
+      expect(fs.existsSync(path.join(testDir, '.github', 'typescript-bootstrap-backups'))).toBe(false);
+    });
+
+    it('should restore files and the previous hash manifest with undo', async () => {
+      await init({ projectName: 'undo-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"old": true}');
+      fs.rmSync(path.join(testDir, 'eslint.config.js'));
+      const manifestPath = path.join(testDir, '.github', 'typescript-bootstrap-hashes.json');
+      const manifestBefore = fs.readFileSync(manifestPath, 'utf-8').replace('"version": 1', '"version": 1 ');
+      fs.writeFileSync(manifestPath, manifestBefore, 'utf-8');
+
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      expect(fs.readFileSync(path.join(testDir, 'tsconfig.json'), 'utf-8')).toContain('compilerOptions');
+      expect(fs.existsSync(path.join(testDir, 'eslint.config.js'))).toBe(true);
+
+      await undo({ targetDir: testDir, skipPrompts: true });
+
+      expect(fs.readFileSync(path.join(testDir, 'tsconfig.json'), 'utf-8')).toBe('{"old": true}');
+      expect(fs.existsSync(path.join(testDir, 'eslint.config.js'))).toBe(false);
+      expect(fs.readFileSync(manifestPath, 'utf-8')).toBe(manifestBefore);
+    });
+
+    it('should throw when there is no backup to restore', async () => {
+      await expect(undo({ targetDir: testDir, skipPrompts: true })).rejects.toThrow(/No update backup found/);
+    });
+
+    it('should not restore anything when undo is declined', async () => {
+      await init({ projectName: 'undo-cancel-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"old": true}');
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      await undo({ targetDir: testDir, confirm: async () => false });
+
+      expect(fs.readFileSync(path.join(testDir, 'tsconfig.json'), 'utf-8')).toContain('compilerOptions');
+    });
+  });
+
+  describe('Update Dry Run', () => {
+    function snapshotFiles(dir: string): Record<string, string> {
+      const files: Record<string, string> = {};
+      const walk = (current: string) => {
+        for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+          const absolutePath = path.join(current, entry.name);
+          if (entry.isDirectory()) {
+            walk(absolutePath);
+          } else {
+            files[path.relative(dir, absolutePath)] = fs.readFileSync(absolutePath, 'utf-8');
+          }
+        }
+      };
+      walk(dir);
+      return files;
+    }
+
+    function captureLogs(): { lines: string[]; restore: () => void } {
+      const lines: string[] = [];
+      const originalLog = console.log;
+      console.log = (...args: unknown[]) => {
+        lines.push(args.join(' '));
+      };
+      return { lines, restore: () => { console.log = originalLog; } };
+    }
+
+    it('should not modify any file when dryRun is set', async () => {
+      await init({ projectName: 'dry-run-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      fs.writeFileSync(path.join(testDir, 'tsconfig.json'), '{"modified": true}\n', 'utf-8');
+      fs.rmSync(path.join(testDir, '.husky'), { recursive: true, force: true });
+      const before = snapshotFiles(testDir);
+
+      await update({ targetDir: testDir, skipPrompts: true, dryRun: true });
+
+      expect(snapshotFiles(testDir)).toEqual(before);
+    });
+
+    it('should print a unified diff for each file that would change', async () => {
+      await init({ projectName: 'dry-run-diff-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      writePreviousScaffoldFile(testDir, 'tsconfig.json', '{"modified": true}\n');
+      fs.rmSync(path.join(testDir, 'eslint.config.js'));
+
+      const logs = captureLogs();
+      try {
+        await update({ targetDir: testDir, skipPrompts: true, dryRun: true });
+      } finally {
+        logs.restore();
+      }
+
+      const output = logs.lines.join('\n');
+      expect(output).toContain('--- a/tsconfig.json');
+      expect(output).toContain('+++ b/tsconfig.json');
+      expect(output).toContain('-{"modified": true}');
+      expect(output).toContain('--- /dev/null\n+++ b/eslint.config.js');
+      expect(output).toContain('tsconfig.json (modified)');
+      expect(output).toContain('eslint.config.js (created)');
+      expect(output).not.toContain('--- a/vite.config.ts');
+    });
+
+    it('should summarize package.json script and dependency changes', async () => {
+      await init({ projectName: 'dry-run-package-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      writePreviousScaffoldScripts(testDir, { test: 'vitest --reporter=junit' });
+      const packageJson = readPackageJson(testDir);
+      packageJson.scripts['dev:custom'] = 'tsx src/custom.ts';
+      delete packageJson.devDependencies.tsx;
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson, null, 2), 'utf-8');
+
+      const logs = captureLogs();
+      try {
+        await update({ targetDir: testDir, skipPrompts: true, dryRun: true });
+      } finally {
+        logs.restore();
+      }
+
+      const output = logs.lines.join('\n');
+      expect(output).toContain('~ scripts.test: vitest --reporter=junit → vitest --run');
+      expect(output).toContain('+ devDependencies.tsx: ^4.19.2');
+      expect(output).not.toContain('scripts.dev:custom');
+      expect(readPackageJson(testDir).scripts.test).toBe('vitest --reporter=junit');
+    });
+
+    it('should report no changes right after an update', async () => {
+      await init({ projectName: 'dry-run-noop-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+      await update({ targetDir: testDir, skipPrompts: true });
+
+      const logs = captureLogs();
+      try {
+        await update({ targetDir: testDir, skipPrompts: true, dryRun: true });
+      } finally {
+        logs.restore();
+      }
+
+      expect(logs.lines.join('\n')).toContain('No files would change');
+    });
+
+    it('should only list files whose content changed as updated', async () => {
+      await init({ projectName: 'updated-list-test',
+        targetDir: testDir,
+        template: 'react', skipPrompts: true });
+      await update({ targetDir: testDir, skipPrompts: true });
+      fs.rmSync(path.join(testDir, 'eslint.config.js'));
+
+      const logs = captureLogs();
+      try {
+        await update({ targetDir: testDir, skipPrompts: true });
+      } finally {
+        logs.restore();
+      }
+
+      const listed = logs.lines.filter((line) => line.startsWith('   - ')).map((line) => line.slice(5));
+      expect(listed).toContain('eslint.config.js');
+      expect(listed).not.toContain('tsconfig.json');
+      expect(listed).not.toContain('package.json');
+    });
+
+    it('should not ask for confirmation during a dry run', async () => {
+      await init({ projectName: 'dry-run-confirm-test',
+        targetDir: testDir, skipPrompts: true });
+
+      let confirmCalled = false;
+      await update({
+        targetDir: testDir,
+        dryRun: true,
+        confirm: async () => {
+          confirmCalled = true;
+          return true;
+        },
+      });
+
+      expect(confirmCalled).toBe(false);
+    });
+  });
+
+  describe('Project Status', () => {
+    it('should classify managed files and flag the ones the next update would change', async () => {
+      await init({ projectName: 'status-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+
+      writePreviousScaffoldFile(testDir, 'vitest.config.ts', '// written by an older bootstrap\n');
+      fs.appendFileSync(path.join(testDir, 'vite.config.ts'), '// local tweak\n', 'utf-8');
+      fs.rmSync(path.join(testDir, 'eslint.config.js'));
+      const before = fs.readFileSync(path.join(testDir, 'vitest.config.ts'), 'utf-8');
+
+      const result = await status({ targetDir: testDir });
+      const byFile = Object.fromEntries(result.files.map((entry) => [entry.file, entry]));
+
+      expect(result.template).toBe('typescript');
+      expect(byFile['tsconfig.json']).toEqual({ file: 'tsconfig.json', state: 'unchanged', updatePending: false });
+      expect(byFile['vite.config.ts']).toMatchObject({ state: 'modified', updatePending: false });
+      expect(byFile['vitest.config.ts']).toMatchObject({ state: 'modified', updatePending: true });
+      expect(byFile['eslint.config.js']).toMatchObject({ state: 'missing', updatePending: true });
+      expect(fs.readFileSync(path.join(testDir, 'vitest.config.ts'), 'utf-8')).toBe(before);
+      expect(fs.existsSync(path.join(testDir, 'eslint.config.js'))).toBe(false);
+    });
+
+    it('should report ejected files and require bootstrap metadata', async () => {
+      await init({ projectName: 'status-ejected-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true });
+      await eject({ targetDir: testDir, files: ['vite.config.ts'] });
+
+      const result = await status({ targetDir: testDir });
+      expect(result.files.find((entry) => entry.file === 'vite.config.ts')).toMatchObject({ state: 'ejected' });
+
+      const packageJson = readPackageJson(testDir);
+      delete packageJson.typescriptBootstrap;
+      fs.writeFileSync(path.join(testDir, 'package.json'), JSON.stringify(packageJson), 'utf-8');
+      await expect(status({ targetDir: testDir })).rejects.toThrow('TypeScript Bootstrap metadata is missing');
+    });
+  });
+
+  describe('External Templates', () => {
+    function writeExternalTemplate(templateDir: string) {
+      const files: Record<string, string> = {
+        'template.json': JSON.stringify({
+          name: 'acme',
+          description: 'Acme web application',
+          placeholders: ['PROJECT_NAME'],
+          files: [
+            { path: 'package.json', ownership: 'managed' },
+            { path: 'acme.config.json', ownership: 'managed' },
+            { path: 'src/**', ownership: 'seeded' },
+          ],
+          shared: [{ path: 'eslint.config.js', ownership: 'managed' }],
+        }),
+        'package.json': JSON.stringify({ name: '{{PROJECT_NAME}}', scripts: { lint: 'acme-lint' } }),
+        'acme.config.json': '{ "theme": "acme" }\n',
+        'src/index.ts': 'export {};\n',
+      };
+      for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(templateDir, file)), { recursive: true });
+        fs.writeFileSync(path.join(templateDir, file), content, 'utf-8');
+      }
+    }
+
+    it('should initialize from a local template directory and keep using it on update', async () => {
+      const templateDir = path.join(testDir, 'acme-template');
+      const projectDir = path.join(testDir, 'app');
+      writeExternalTemplate(templateDir);
+
+      const result = await init({ projectName: 'external-dir-test',
+        targetDir: projectDir,
+        template: path.relative(process.cwd(), templateDir), skipPrompts: true, logger: silentLogger });
+
+      expect(result.template).toBe('../acme-template');
+      expect(readPackageJson(projectDir).typescriptBootstrap.template).toBe('../acme-template');
+      expect(result.files.created).toEqual(expect.arrayContaining(['acme.config.json', 'eslint.config.js', 'src/index.ts']));
+      const manifest = JSON.parse(fs.readFileSync(path.join(projectDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8'));
+      expect(manifest.managedFiles).toEqual(['acme.config.json', 'eslint.config.js', 'package.json']);
+
+      fs.writeFileSync(path.join(templateDir, 'acme.config.json'), '{ "theme": "acme-2" }\n', 'utf-8');
+      const updated = await update({ targetDir: projectDir, skipPrompts: true, logger: silentLogger });
+
+      expect(updated.files.updated).toContain('acme.config.json');
+      expect(fs.readFileSync(path.join(projectDir, 'acme.config.json'), 'utf-8')).toContain('acme-2');
+      expect(readPackageJson(projectDir).typescriptBootstrap.template).toBe('../acme-template');
+    });
+
+    it('should initialize from an installed template package', async () => {
+      const packageDir = path.join(testDir, 'node_modules', '@acme', 'web-template');
+      writeExternalTemplate(path.join(packageDir, 'template'));
+      fs.writeFileSync(
+        path.join(packageDir, 'package.json'),
+        JSON.stringify({ name: '@acme/web-template', typescriptBootstrapTemplate: 'template' }),
+        'utf-8'
+      );
+
+      await init({ projectName: 'external-package-test',
+        targetDir: testDir,
+        template: '@acme/web-template', skipPrompts: true, logger: silentLogger });
+
+      expect(readPackageJson(testDir).typescriptBootstrap.template).toBe('@acme/web-template');
+      expect(readPackageJson(testDir).scripts.lint).toBe('acme-lint');
+      expect(fs.existsSync(path.join(testDir, 'acme.config.json'))).toBe(true);
+
+      const projectStatus = await status({ targetDir: testDir, logger: silentLogger });
+      expect(projectStatus.template).toBe('@acme/web-template');
+      expect(projectStatus.files.every((entry) => !entry.updatePending)).toBe(true);
+    });
+
+    it('should render placeholders in file names and directory names', async () => {
+      const templateDir = path.join(testDir, 'acme-template');
+      writeExternalTemplate(templateDir);
+      fs.mkdirSync(path.join(templateDir, 'packages', '{{PROJECT_NAME}}'), { recursive: true });
+      fs.writeFileSync(path.join(templateDir, 'packages', '{{PROJECT_NAME}}', 'package.json'), '{ "name": "@acme/{{PROJECT_NAME}}" }\n', 'utf-8');
+      const manifestPath = path.join(templateDir, 'template.json');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      manifest.files.push({ path: 'packages/**', ownership: 'managed' });
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest), 'utf-8');
+
+      const projectDir = path.join(testDir, 'app');
+      await init({ projectName: 'widgets',
+        targetDir: projectDir,
+        template: templateDir, skipPrompts: true, logger: silentLogger });
+
+      expect(fs.readFileSync(path.join(projectDir, 'packages', 'widgets', 'package.json'), 'utf-8')).toContain('"@acme/widgets"');
+      const hashes = JSON.parse(fs.readFileSync(path.join(projectDir, '.github', 'typescript-bootstrap-hashes.json'), 'utf-8'));
+      expect(hashes.managedFiles).toContain('packages/widgets/package.json');
+
+      const updated = await update({ targetDir: projectDir, dryRun: true, logger: silentLogger });
+      expect(updated.files.updated).not.toContain('packages/widgets/package.json');
+      expect(updated.files.removed).toEqual([]);
+    });
+
+    it('should fail on placeholders that have no value instead of writing them', async () => {
+      const templateDir = path.join(testDir, 'acme-template');
+      writeExternalTemplate(templateDir);
+      fs.writeFileSync(path.join(templateDir, 'acme.config.json'), '{ "title": "{{PROJECT_TILE}}", "owner": "{{OWNER}}" }\n', 'utf-8');
+
+      await expect(init({ projectName: 'typo-test',
+        targetDir: path.join(testDir, 'app'),
+        template: templateDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'UNRESOLVED_PLACEHOLDERS', message: expect.stringContaining('{{PROJECT_TILE}}, {{OWNER}}') });
+    });
+
+    it('should reject templates that are not installed or have no valid manifest', async () => {
+      await expect(init({ projectName: 'external-missing-test',
+        targetDir: testDir,
+        template: '@acme/missing-template', skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'INVALID_TEMPLATE' });
+
+      const templateDir = path.join(testDir, 'broken-template');
+      writeExternalTemplate(templateDir);
+      fs.rmSync(path.join(templateDir, 'template.json'));
+      await expect(init({ projectName: 'external-invalid-test',
+        targetDir: path.join(testDir, 'app'),
+        template: templateDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'INVALID_TEMPLATE_MANIFEST' });
+    });
+  });
+
+  describe('In-Memory File System', () => {
+    it('should initialize a project into a memory volume without writing to disk', async () => {
+      const volume = createMemoryVolume();
+
+      const result = await init({ projectName: 'memory-init-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger, fileSystem: volume });
+
+      const files = volume.files(testDir);
+      expect(fs.readdirSync(testDir)).toEqual([]);
+      expect(Object.keys(files).sort()).toEqual([...result.files.created].sort());
+      expect(JSON.parse(files['package.json'].toString('utf-8'))).toMatchObject({
+        name: 'memory-init-test',
+        typescriptBootstrap: { template: 'typescript' },
+      });
+      expect(files['.gitignore'].toString('utf-8')).toContain('# >>> typescript-bootstrap >>>');
+    });
+
+    it('should update a project held in a memory volume', async () => {
+      const volume = createMemoryVolume();
+      await createOrUpdate({ projectName: 'memory-update-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger, fileSystem: volume });
+      volume.removeFile(path.join(testDir, 'eslint.config.js'));
+
+      const plan = await update({ targetDir: testDir, dryRun: true, logger: silentLogger, fileSystem: volume });
+      expect(plan.files.created).toEqual(['eslint.config.js']);
+      expect(volume.exists(path.join(testDir, 'eslint.config.js'))).toBe(false);
+
+      const result = await createOrUpdate({ targetDir: testDir, skipPrompts: true, logger: silentLogger, fileSystem: volume });
+      expect(result.action).toBe('updated');
+      expect(volume.exists(path.join(testDir, 'eslint.config.js'))).toBe(true);
+      expect(Object.keys(volume.files(testDir)).some((file) => file.startsWith('.github/typescript-bootstrap-backups/'))).toBe(true);
+      expect(fs.readdirSync(testDir)).toEqual([]);
+    });
+
+    it('should find and update the workspace packages of a root held in a memory volume', async () => {
+      const volume = createMemoryVolume();
+      await init({ projectName: 'memory-workspace', targetDir: testDir, template: 'monorepo', skipPrompts: true, logger: silentLogger, fileSystem: volume });
+      await addPackage({ projectName: 'api', targetDir: testDir, template: 'cli', skipPrompts: true, logger: silentLogger, fileSystem: volume });
+      volume.removeFile(path.join(testDir, 'packages', 'api', 'vite.config.ts'));
+
+      const result = await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger, fileSystem: volume });
+
+      expect(result.workspacePackages).toEqual([
+        { directory: 'packages/api', result: expect.objectContaining({ action: 'updated', template: 'cli' }), error: null },
+      ]);
+      expect(volume.exists(path.join(testDir, 'packages', 'api', 'vite.config.ts'))).toBe(true);
+      expect(fs.readdirSync(testDir)).toEqual([]);
+    });
+  });
+
+  describe('Structured Results', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should return the created files of init without printing through a silent logger', async () => {
+      const log = vi.spyOn(console, 'log');
+
+      const result = await init({ projectName: 'result-init-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+
+      expect(log).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ action: 'initialized', template: 'typescript', warnings: [] });
+      expect(result.files.created).toEqual(expect.arrayContaining(['package.json', 'src/main.ts', '.github/workflows/ci.yml']));
+    });
+
+    it('should report files that existed before init as overwritten', async () => {
+      fs.writeFileSync(path.join(testDir, 'README.md'), '# Existing\n', 'utf-8');
+
+      const result = await init({ projectName: 'result-overwrite-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+
+      expect(result.files.updated).toEqual(['README.md']);
+      expect(result.files.created).not.toContain('README.md');
+      expect(result.manifestPath).toBe('.github/typescript-bootstrap-hashes.json');
+    });
+
+    it('should return planned and applied update changes', async () => {
+      await init({ projectName: 'result-update-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+      writePreviousScaffoldFile(testDir, 'vitest.config.ts', '// written by an older bootstrap\n');
+      fs.rmSync(path.join(testDir, 'eslint.config.js'));
+
+      const plan = await update({ targetDir: testDir, dryRun: true, logger: silentLogger });
+      expect(plan.action).toBe('planned');
+      expect(plan.files.updated).toContain('vitest.config.ts');
+      expect(plan.files.created).toContain('eslint.config.js');
+      expect(plan.manifestPath).toBeNull();
+      expect(fs.existsSync(path.join(testDir, 'eslint.config.js'))).toBe(false);
+
+      const applied = await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+      expect(applied).toMatchObject({
+        action: 'updated',
+        template: 'typescript',
+        files: plan.files,
+        manifestPath: '.github/typescript-bootstrap-hashes.json',
+      });
+    });
+
+    it('should fail with stable error codes', async () => {
+      await expect(update({ targetDir: testDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'PACKAGE_JSON_NOT_FOUND' });
+
+      await init({ projectName: 'result-error-test',
+        targetDir: testDir,
+        template: 'typescript', skipPrompts: true, logger: silentLogger });
+      await expect(eject({ targetDir: testDir, files: ['docs/notes.md'], logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'UNMANAGED_FILE' });
+      await expect(undo({ targetDir: testDir, skipPrompts: true, logger: silentLogger }))
+        .rejects.toMatchObject({ code: 'NO_BACKUP' });
+    });
+  });
+
+  describe('Create Or Update', () => {
+    it('should create a project when package.json does not exist', async () => {
+      await createOrUpdate({ projectName: 'create-or-update-new',
+        targetDir: testDir, skipPrompts: true });
+
+      const packageJsonPath = path.join(testDir, 'package.json');
+      expect(fs.existsSync(packageJsonPath)).toBe(true);
+    });
+
+    it('should update a project when package.json exists', async () => {
+      await init({ projectName: 'create-or-update-existing',
+        targetDir: testDir, skipPrompts: true });
+
+      const packageJsonPath = path.join(testDir, 'package.json');
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      packageJson.customField = 'custom-value';
+      fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+
+      await createOrUpdate({ targetDir: testDir, skipPrompts: true });
+
+      const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      expect(updatedPackageJson.customField).toBe('custom-value');
+    });
+
+    it('should create a project using current working directory by default', async () => {
+      const projectDir = path.join(testDir, 'cwd-create-test');
+      fs.mkdirSync(projectDir, { recursive: true });
+
+      const originalCwd = process.cwd();
+      process.chdir(projectDir);
+
+      try {
+        await createOrUpdate({ skipPrompts: true });
+
+        const packageJsonPath = path.join(projectDir, 'package.json');
+        expect(fs.existsSync(packageJsonPath)).toBe(true);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+
+    it('should throw error when package.json in createOrUpdate is not parseable', async () => {
+      const packageJsonPath = path.join(testDir, 'package.json');
+      fs.writeFileSync(packageJsonPath, '{ invalid json }', 'utf-8');
+
+      await expect(
+        createOrUpdate({ targetDir: testDir, skipPrompts: true })
+      ).rejects.toThrow('but it could not be parsed');
+    });
+
+    it('should throw error when non-bootstrap project is detected with skipPrompts', async () => {
+      // Create a non-bootstrap package.json (without typescriptBootstrap metadata)
+      const packageJsonPath = path.join(testDir, 'package.json');
+      fs.writeFileSync(packageJsonPath, JSON.stringify({
+        name: 'existing-project',
+        version: '1.0.0'
+      }, null, 2), 'utf-8');
+
+      await expect(
+        createOrUpdate({ targetDir: testDir, skipPrompts: true })
+      ).rejects.toThrow('no TypeScript Bootstrap metadata was detected');
+    });
+
+    it('should prompt and update when non-bootstrap project user confirms', async () => {
+      // Create a non-bootstrap package.json
+      const packageJsonPath = path.join(testDir, 'package.json');
+      fs.writeFileSync(packageJsonPath, JSON.stringify({
+        name: 'existing-non-bootstrap',
+        version: '1.0.0'
+      }, null, 2), 'utf-8');
+
+      // Mock prompt to simulate user saying 'yes' then choosing react template
+      const promptAnswers = ['y', '2'];
+      const mockPrompt = async () => {
+        const answer = promptAnswers.shift();
+        return answer ?? '2';
+      };
+
+      await createOrUpdate({ 
+        targetDir: testDir, 
+        skipPrompts: false,
+        prompt: mockPrompt,
+        confirm: async () => true
+      });
+
+      // Verify project was updated with TypeScript Bootstrap metadata
+      const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+      expect(updatedPackageJson.typescriptBootstrap).toBeDefined();
+    });
+
+    it('should abort when non-bootstrap project user declines', async () => {
+      // Create a non-bootstrap package.json
+      const packageJsonPath = path.join(testDir, 'package.json');
+      const originalContent = JSON.stringify({
+        name: 'existing-non-bootstrap',
+        version: '1.0.0'
+      }, null, 2);
+      fs.writeFileSync(packageJsonPath, originalContent, 'utf-8');
+
+      // Mock prompt to simulate user saying 'no'
+      const mockPrompt = async () => {
+        return 'n';
+      };
+
+      await createOrUpdate({ 
+        targetDir: testDir, 
+        skipPrompts: false,
+        prompt: mockPrompt
+      });
+
+      // Verify project was NOT updated (no TypeScript Bootstrap metadata)
       const updatedPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
       expect(updatedPackageJson.typescriptBootstrap).toBeUndefined();
       expect(updatedPackageJson.name).toBe('existing-non-bootstrap');
@@ -1989,23 +3445,36 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(fs.existsSync(vitePath)).toBe(true);
     });
 
-    it('should handle project names with special characters like $', async () => {
-      // Test that $ in project name is treated literally, not as replacement pattern
-      const projectName = 'test-$1-project';
-      const projectTitle = 'Test $& Title';
+    it('should handle project titles with special characters like $', async () => {
+      // Test that $ in the title is treated literally, not as replacement pattern
+      const projectTitle = 'Test $& $1 Title';
 
-      await init({ projectName,
+      await init({ projectName: 'dollar-title-test',
         projectTitle,
         targetDir: testDir,
         template: 'typescript', skipPrompts: true });
 
       const packageJson = readPackageJson(testDir);
-      expect(packageJson.name).toBe('test-$1-project');
+      expect(packageJson.description).toBe('Test $& $1 Title');
       
       // Verify README contains the literal title with $
       const readmePath = path.join(testDir, 'README.md');
       const readmeContent = fs.readFileSync(readmePath, 'utf-8');
-      expect(readmeContent).toContain('Test $& Title');
+      expect(readmeContent).toContain('Test $& $1 Title');
+    });
+
+    it('should escape the title for JSON and HTML files', async () => {
+      const projectTitle = 'Say "Hi" <Acme> & Co';
+
+      await init({ projectName: 'escaped-title-test',
+        projectTitle,
+        targetDir: testDir,
+        template: 'react', skipPrompts: true, logger: silentLogger });
+      await update({ targetDir: testDir, skipPrompts: true, logger: silentLogger });
+
+      expect(readPackageJson(testDir).description).toBe(projectTitle);
+      expect(fs.readFileSync(path.join(testDir, 'index.html'), 'utf-8'))
+        .toContain('<title>Say &quot;Hi&quot; &lt;Acme&gt; &amp; Co</title>');
     });
   });
 
@@ -2027,43 +3496,6 @@ describe('TypeScript Bootstrap - Feature Tests', () => {
       expect(result).toBe(true);
     });
 
-    it('should skip copy when workflows source directory is missing', () => {
-      const workflowsPath = path.join(process.cwd(), '.github', 'workflows');
-      const backupPath = `${workflowsPath}.bak`;
-      const updatedPaths: string[] = [];
-
-      if (fs.existsSync(backupPath)) {
-        fs.rmSync(backupPath, { recursive: true, force: true });
-      }
-
-      fs.renameSync(workflowsPath, backupPath);
-
-      try {
-        __internal.copyWorkflows(testDir, (relPath) => updatedPaths.push(relPath));
-      } finally {
-        fs.renameSync(backupPath, workflowsPath);
-      }
-
-      expect(updatedPaths.length).toBe(0);
-    });
-
-    it('should skip copyFile when source file is missing', () => {
-      const updatedPaths: string[] = [];
-      __internal.copyFile('.github/missing-file.md', testDir, (relPath) => updatedPaths.push(relPath));
-      expect(updatedPaths.length).toBe(0);
-    });
-
-    it('should create target directory when copying a file', () => {
-      const updatedPaths: string[] = [];
-      const targetDir = path.join(testDir, 'nested', 'target');
-
-      __internal.copyFile('eslint.config.js', targetDir, (relPath) => updatedPaths.push(relPath));
-
-      const copiedPath = path.join(targetDir, 'eslint.config.js');
-      expect(fs.existsSync(copiedPath)).toBe(true);
-      expect(updatedPaths).toContain('eslint.config.js');
-    });
-
     it('should throw when template directory is missing', async () => {
       const reactTemplatePath = path.join(process.cwd(), 'templates', 'react');
       const backupPath = `${reactTemplatePath}.bak`;
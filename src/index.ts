@@ -3,99 +3,246 @@ import * as path from 'path';
 import { fileURLToPath } from 'url';
 import * as readline from 'readline';
 import { createHash } from 'crypto';
+import { execFileSync } from 'child_process';
+import { createChangeSet, diskWriter, type ChangeSet, type FileWriter, type StagedChange } from './changeset.js';
+import {
+  mergeVersionedSection,
+  VERSIONED_SECTIONS,
+  type DependencyChange,
+  type DependencyDecision,
+} from './dependencies.js';
+import { createUnifiedDiff, describePackageJsonDelta } from './diff.js';
+import { runDoctorChecks, type DoctorEnvironment, type DoctorFinding } from './doctor.js';
+import {
+  applyScriptResolution,
+  mergeScripts,
+  TEMPLATE_SCRIPT_SUFFIX,
+  type ScriptConflict,
+  type ScriptResolution,
+} from './package-scripts.js';
+import { integrity, type ManagedFileState } from './integrity.js';
+import { projectNames } from './project-name.js';
+import { workspaces, type WorkspaceFileAccess } from './workspaces.js';
+import { consoleLogger, silentLogger, type Logger } from './logger.js';
+import {
+  BootstrapError,
+  createResult,
+  type BootstrapAction,
+  type BootstrapResult,
+  type WorkspacePackageUpdate,
+} from './result.js';
+import {
+  BASE_SNAPSHOT_RELATIVE_PATH,
+  createEjectionFilter,
+  createMergingWriter,
+  createRecordingWriter,
+  isUnchangedSinceScaffold,
+  readPreviousScaffoldState,
+  writeBaseSnapshot,
+  type ManagedFileMerge,
+  type PreviousScaffoldState,
+} from './scaffold-state.js';
+import { commitWithBackup, restoreLatestBackup } from './transaction.js';
+import { MANAGED_BLOCK_FILES, applyManagedBlock, extractManagedBlock } from './managed-block.js';
+import { runMigrations, type Migration, type MigrationContext } from './migrations/index.js';
+import {
+  readTemplateManifest,
+  listTemplateFiles,
+  matchesPathPattern,
+  resolveOwnership,
+  resolvePlaceholderValues,
+  type TemplateFile,
+  type TemplateManifest,
+} from './template-manifest.js';
+import {
+  BUILT_IN_TEMPLATES,
+  resolveTemplateDirectory,
+  toTemplateReference,
+  type BuiltInTemplate,
+} from './template-source.js';
+import { escapingForFile, renderTemplate, renderTemplatePath } from './template-engine.js';
+
+export { consoleLogger, createConsoleLogger, silentLogger, type Logger, type LogLevel } from './logger.js';
+export {
+  BootstrapError,
+  type BootstrapAction,
+  type BootstrapErrorCode,
+  type BootstrapResult,
+  type WorkspacePackageUpdate,
+} from './result.js';
+export type { DoctorFinding } from './doctor.js';
+export { diskWriter, type FileWriter } from './changeset.js';
+export { createMemoryVolume, type MemoryVolume } from './memory-volume.js';
+export { isTemplateName, isTemplateReference, type BuiltInTemplate } from './template-source.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
+const PACKAGE_ROOT = path.join(__dirname, '..');
 
 const HASH_ALGORITHM = 'sha256';
 const HASH_MANIFEST_RELATIVE_PATH = '.github/typescript-bootstrap-hashes.json';
-const PUBLISH_WORKFLOW_FILE = 'publish.yml';
+// Workflows and git hooks belong to the repository, so workspace packages leave them to the root
+const WORKSPACE_ROOT_FILES = ['.github/**', '.husky/**'];
+const WORKSPACE_PACKAGES_DIRECTORY = 'packages';
 
-function toPosixPath(filePath: string): string {
-  return filePath.split(path.sep).join('/');
+/**
+ * Version of the running bootstrap, recorded in projects as typescriptBootstrap.version
+ */
+export function readBootstrapVersion(): string {
+  return JSON.parse(fs.readFileSync(path.join(PACKAGE_ROOT, 'package.json'), 'utf-8')).version;
 }
 
-function collectFilesRecursively(baseDir: string, relativePrefix = ''): string[] {
-  if (!fs.existsSync(baseDir)) {
-    return [];
+/**
+ * Record the template of the project and the bootstrap version that last scaffolded or updated it,
+ * used to select migrations, and the answers to the template's prompts, so that updates render the
+ * same template with the same values
+ */
+function recordBootstrapMetadata(
+  packageJsonPath: string,
+  template: string,
+  writer: FileWriter = diskWriter,
+  promptedValues: Record<string, string> = {},
+  workspacePackage = false
+): void {
+  const packageJson = JSON.parse(writer.readFile(packageJsonPath).toString('utf-8'));
+  packageJson.typescriptBootstrap = { ...packageJson.typescriptBootstrap, template, version: readBootstrapVersion() };
+  if (Object.keys(promptedValues).length > 0) {
+    packageJson.typescriptBootstrap.placeholders = promptedValues;
   }
+  if (workspacePackage) {
+    packageJson.typescriptBootstrap.workspacePackage = true;
+  }
+  writer.writeFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+}
 
-  const entries = fs.readdirSync(baseDir);
-  const files: string[] = [];
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
 
-  for (const entry of entries) {
-    const absolutePath = path.join(baseDir, entry);
-    const relativePath = relativePrefix ? `${relativePrefix}/${entry}` : entry;
-    const stats = fs.statSync(absolutePath);
+function normalizeManagedPath(filePath: string): string {
+  return toPosixPath(path.normalize(filePath)).replace(/^\.\//, '');
+}
 
-    if (stats.isDirectory()) {
-      files.push(...collectFilesRecursively(absolutePath, relativePath));
-    } else if (stats.isFile()) {
-      files.push(relativePath);
-    }
+/**
+ * Files listed in typescriptBootstrap.ejected are owned by the project and never touched by update
+ */
+function readEjectedFiles(packageJson: { typescriptBootstrap?: { ejected?: unknown } }): string[] {
+  const ejected = packageJson.typescriptBootstrap?.ejected;
+  if (!Array.isArray(ejected)) {
+    return [];
   }
+  return ejected.filter((entry): entry is string => typeof entry === 'string').map(normalizeManagedPath);
+}
 
-  return files;
+/**
+ * A template: its manifest and every file it writes into a project
+ */
+interface LoadedTemplate {
+  directory: string;
+  manifest: TemplateManifest;
+  // Paths are rendered with the placeholder values, e.g. src/{{PROJECT_NAME}}.ts
+  files: (replacements: Record<string, string>) => TemplateFile[];
 }
 
-function listManagedFiles(template: 'typescript' | 'react'): string[] {
-  const sourceRoot = path.join(__dirname, '..');
-  const templateRoot = path.join(sourceRoot, 'templates', template);
-  const workflowRoot = path.join(sourceRoot, '.github', 'workflows');
+/**
+ * Whether a project is a package of a workspace, as recorded by add-package
+ */
+function isWorkspacePackage(packageJson: { typescriptBootstrap?: { workspacePackage?: unknown } }): boolean {
+  return packageJson.typescriptBootstrap?.workspacePackage === true;
+}
 
-  const templateFiles = collectFilesRecursively(templateRoot);
-  const workflowFiles = collectFilesRecursively(workflowRoot, '.github/workflows')
-    .filter((relativePath) => path.basename(relativePath) !== PUBLISH_WORKFLOW_FILE);
+/**
+ * Load the template a project references; shared files always come from this package. A workspace
+ * package gets no shared workflows or hooks, which the workspace root provides.
+ */
+function loadTemplate(template: string, projectDir: string, workspacePackage = false): LoadedTemplate {
+  const directory = resolveTemplateDirectory(template, projectDir, PACKAGE_ROOT);
+  if (!directory) {
+    throw new BootstrapError('TEMPLATE_NOT_FOUND', `Template "${template}" not found. Is the template package installed?`);
+  }
+  const manifest = readTemplateManifest(directory);
+  // Applies to the template's own files too, such as the publish workflow of the library template
+  const templateFiles = listTemplateFiles(directory, PACKAGE_ROOT, manifest)
+    .filter((file) => !workspacePackage || !WORKSPACE_ROOT_FILES.some((pattern) => matchesPathPattern(pattern, file.relativePath)));
+  return {
+    directory,
+    manifest,
+    files: (replacements) => templateFiles.map((file) => ({
+      ...file,
+      relativePath: renderTemplatePath(file.relativePath, replacements),
+    })),
+  };
+}
 
-  const managedFiles = [
-    ...templateFiles,
-    ...workflowFiles,
-    ...collectFilesRecursively(path.join(sourceRoot, '.husky'), '.husky'),
-    ...collectFilesRecursively(path.join(sourceRoot, 'scripts'), 'scripts'),
-    '.github/copilot-instructions.md',
-    '.github/PULL_REQUEST_TEMPLATE.md',
-    'eslint.config.js',
-    'src/test.setup.ts',
-    '.gitignore',
-  ];
+function pickPromptedValues(manifest: TemplateManifest, replacements: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(manifest.prompts.map((prompt) => [prompt.placeholder, replacements[prompt.placeholder]]));
+}
 
-  return Array.from(new Set(managedFiles.map((filePath) => toPosixPath(filePath))))
+function listManagedFiles(files: TemplateFile[]): string[] {
+  return files
+    .filter((file) => file.ownership === 'managed')
+    .map((file) => file.relativePath)
     .sort((left, right) => left.localeCompare(right));
 }
 
-function createFileHash(filePath: string): string {
-  const content = fs.readFileSync(filePath);
-  return createHash(HASH_ALGORITHM).update(content).digest('hex');
+/**
+ * Hash a managed file, or only its managed block when it has one so user lines around it can change freely
+ */
+function createFileHash(filePath: string, writer: FileWriter = diskWriter): string {
+  const content = writer.readFile(filePath);
+  const block = extractManagedBlock(content.toString('utf-8'));
+  return createHash(HASH_ALGORITHM).update(block ?? content).digest('hex');
 }
 
-function writeScaffoldHashManifest(targetDir: string, template: 'typescript' | 'react'): string {
-  const manifestPath = path.join(targetDir, HASH_MANIFEST_RELATIVE_PATH);
-  const manifestDir = path.dirname(manifestPath);
+/**
+ * Keep the previous generatedAt when the hashes did not change, so re-running update is a no-op
+ */
+function readUnchangedManifestTimestamp(
+  manifestPath: string,
+  hashes: Record<string, string>,
+  writer: FileWriter
+): string | undefined {
+  if (!writer.exists(manifestPath)) {
+    return undefined;
+  }
 
-  if (!fs.existsSync(manifestDir)) {
-    fs.mkdirSync(manifestDir, { recursive: true });
+  try {
+    const previous = JSON.parse(writer.readFile(manifestPath).toString('utf-8'));
+    return JSON.stringify(previous.hashes) === JSON.stringify(hashes) ? previous.generatedAt : undefined;
+  } catch {
+    return undefined;
   }
+}
+
+function writeScaffoldHashManifest(
+  targetDir: string,
+  templateFiles: TemplateFile[],
+  writer: FileWriter = diskWriter,
+  ejectedFiles: string[] = []
+): string {
+  const manifestPath = path.join(targetDir, HASH_MANIFEST_RELATIVE_PATH);
 
-  const managedFiles = listManagedFiles(template)
+  const managedFiles = listManagedFiles(templateFiles)
     .filter((relativePath) => relativePath !== HASH_MANIFEST_RELATIVE_PATH)
-    .filter((relativePath) => fs.existsSync(path.join(targetDir, relativePath)));
+    .filter((relativePath) => !ejectedFiles.includes(relativePath))
+    .filter((relativePath) => writer.exists(path.join(targetDir, relativePath)));
 
   const hashes = Object.fromEntries(
     managedFiles.map((relativePath) => {
       const absolutePath = path.join(targetDir, relativePath);
-      return [relativePath, createFileHash(absolutePath)];
+      return [relativePath, createFileHash(absolutePath, writer)];
     })
   );
 
   const manifest = {
     version: 1,
     algorithm: HASH_ALGORITHM,
-    generatedAt: new Date().toISOString(),
+    generatedAt: readUnchangedManifestTimestamp(manifestPath, hashes, writer) ?? new Date().toISOString(),
     managedFiles,
     hashes,
   };
 
-  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+  writer.writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
   return HASH_MANIFEST_RELATIVE_PATH;
 }
 
@@ -132,124 +279,67 @@ async function confirm(
   return answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes';
 }
 
-const UPDATABLE_FILES = [
-  // Template-specific configuration files (copied from templates/)
-  'tsconfig.node.json',
-  'tsconfig.json',
-  'vite.config.ts',
-  'vitest.config.ts',
-  'index.html',
-  '.vscode/settings.json',
-  // Note: src/test.setup.ts is intentionally NOT updatable to preserve user customizations
-  // Note: .gitignore and eslint.config.js are copied separately from root via copyFile()
-];
-
-/**
- * Helper function to copy workflows from the main project, excluding publish.yml
- */
-function copyWorkflows(
-  targetBaseDir: string,
-  fileCallback: (relativePath: string, absolutePath: string) => void
-): void {
-  const sourceDir = path.join(__dirname, '..', '.github', 'workflows');
-  const targetDir = path.join(targetBaseDir, '.github', 'workflows');
-  
-  if (!fs.existsSync(sourceDir)) {
-    return;
-  }
-  
-  if (!fs.existsSync(targetDir)) {
-    fs.mkdirSync(targetDir, { recursive: true });
-  }
-  
-  const files = fs.readdirSync(sourceDir);
-  for (const file of files) {
-    // Skip publish.yml as it's specific to the bootstrap package
-    if (file === 'publish.yml') {
-      continue;
-    }
-    
-    const sourcePath = path.join(sourceDir, file);
-    const targetPath = path.join(targetDir, file);
-    const relPath = `.github/workflows/${file}`;
-    
-    const stat = fs.statSync(sourcePath);
-    if (stat.isFile()) {
-      fs.copyFileSync(sourcePath, targetPath);
-      fileCallback(relPath, targetPath);
-    }
-  }
-}
-
 /**
- * Helper function to copy a directory from the main project to a target directory
+ * Helper to write a line-based file from the main project as a managed block, keeping the target's other lines
  */
-function copyDirectory(
+function copyManagedBlock(
   sourceRelPath: string,
   targetBaseDir: string,
-  fileCallback: (relativePath: string, absolutePath: string) => void
+  fileCallback: (relativePath: string, absolutePath: string) => void,
+  writer: FileWriter = diskWriter
 ): void {
-  const sourceDir = path.join(__dirname, '..', sourceRelPath);
-  const targetDir = path.join(targetBaseDir, sourceRelPath);
-  
-  if (fs.existsSync(sourceDir)) {
-    if (!fs.existsSync(targetDir)) {
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-    
-    const files = fs.readdirSync(sourceDir);
-    for (const file of files) {
-      const sourcePath = path.join(sourceDir, file);
-      const targetPath = path.join(targetDir, file);
-      const relPath = `${sourceRelPath}/${file}`;
-      
-      const stat = fs.statSync(sourcePath);
-      if (stat.isDirectory()) {
-        // Recursively copy subdirectories
-        copyDirectory(relPath, targetBaseDir, fileCallback);
-      } else if (stat.isFile()) {
-        fs.copyFileSync(sourcePath, targetPath);
-        fileCallback(relPath, targetPath);
-      }
-    }
+  const sourceFile = path.join(PACKAGE_ROOT, sourceRelPath);
+  const targetFile = path.join(targetBaseDir, sourceRelPath);
+
+  if (fs.existsSync(sourceFile)) {
+    const existing = writer.exists(targetFile) ? writer.readFile(targetFile).toString('utf-8') : null;
+    writer.writeFile(targetFile, applyManagedBlock(existing, fs.readFileSync(sourceFile, 'utf-8')));
+    fileCallback(sourceRelPath, targetFile);
   }
 }
 
 /**
- * Helper function to copy a file from the main project to a target directory
+ * Write one template file into the project: template files get their placeholders replaced,
+ * shared line-based files only get their managed block (through blockWriter), and other shared
+ * files are copied as they are
  */
-function copyFile(
-  sourceRelPath: string,
-  targetBaseDir: string,
-  fileCallback: (relativePath: string, absolutePath: string) => void
+function writeTemplateFile(
+  file: TemplateFile,
+  targetDir: string,
+  replacements: Record<string, string>,
+  writer: FileWriter,
+  blockWriter: FileWriter
 ): void {
-  const sourceFile = path.join(__dirname, '..', sourceRelPath);
-  const targetFile = path.join(targetBaseDir, sourceRelPath);
-  
-  if (fs.existsSync(sourceFile)) {
-    const targetDirPath = path.dirname(targetFile);
-    if (!fs.existsSync(targetDirPath)) {
-      fs.mkdirSync(targetDirPath, { recursive: true });
-    }
-    fs.copyFileSync(sourceFile, targetFile);
-    fileCallback(sourceRelPath, targetFile);
+  const targetPath = path.join(targetDir, file.relativePath);
+  if (file.origin === 'template') {
+    processFileContent(file.sourcePath, targetPath, replacements, writer);
+  } else if (MANAGED_BLOCK_FILES.includes(file.relativePath)) {
+    copyManagedBlock(file.relativePath, targetDir, () => {}, blockWriter);
+  } else {
+    writer.writeFile(targetPath, fs.readFileSync(file.sourcePath));
   }
 }
 
-interface InitOptions {
+export interface InitOptions {
   projectName?: string;
   projectTitle?: string;
   targetDir?: string;
-  template?: 'typescript' | 'react';
+  template?: string; // typescript, react, library, cli, node-service or monorepo, a path to a template directory, or an installed template package
   skipPrompts?: boolean; // For AI/programmatic use
   prompt?: (question: string) => Promise<string>;
+  logger?: Logger; // Defaults to the console
+  fileSystem?: FileWriter; // Where the project is read and written; defaults to the real disk
+  workspacePackage?: boolean; // A package of a workspace: workflows and hooks are left to the workspace root
 }
 
-interface UpdateOptions {
+export interface UpdateOptions {
   targetDir?: string;
   skipPrompts?: boolean; // For AI/programmatic use
+  dryRun?: boolean; // Print the planned changes as a diff without writing anything
   confirm?: (question: string) => Promise<boolean>;
   prompt?: (question: string) => Promise<string>;
+  logger?: Logger; // Defaults to the console
+  fileSystem?: FileWriter; // Where the project is read and written; defaults to the real disk
 }
 
 /**
@@ -259,52 +349,46 @@ function processFileContent(
   templatePath: string,
   targetPath: string,
   replacements: Record<string, string>,
-  ensureDir = false
+  writer: FileWriter = diskWriter
 ): void {
-  let content = fs.readFileSync(templatePath, 'utf-8');
-  
-  // Replace placeholders using function to avoid $ being treated as replacement pattern
-  for (const [key, value] of Object.entries(replacements)) {
-    content = content.replace(new RegExp(`{{${key}}}`, 'g'), () => value);
-  }
-
-  // Ensure target directory exists if requested
-  if (ensureDir) {
-    const targetDir = path.dirname(targetPath);
-    if (!fs.existsSync(targetDir)) {
-      fs.mkdirSync(targetDir, { recursive: true });
-    }
-  }
+  // The writer creates the target directory when it does not exist yet
+  writer.writeFile(targetPath, renderTemplateFile(templatePath, replacements));
+}
 
-  fs.writeFileSync(targetPath, content, 'utf-8');
+/**
+ * Render a template file, escaping values for JSON and HTML files so that e.g. a title with quotes
+ * keeps package.json valid
+ */
+function renderTemplateFile(templatePath: string, replacements: Record<string, string>): string {
+  return renderTemplate(fs.readFileSync(templatePath, 'utf-8'), replacements, {
+    escaping: escapingForFile(templatePath),
+    source: templatePath,
+  });
 }
 
 /**
- * Copy template files to target directory, replacing placeholders
+ * The npm package name for a new project. An invalid name fails under skipPrompts; otherwise a
+ * normalized name is offered, and the user may type another one until it is valid.
  */
-function copyTemplate(
-  templatePath: string,
-  targetPath: string,
-  replacements: Record<string, string>
-): void {
-  const stats = fs.statSync(templatePath);
+async function resolveProjectName(rawName: string, options: InitOptions, logger: Logger): Promise<string> {
+  let name = rawName;
+  let problems = projectNames.validateProjectName(name);
+  if (problems.length > 0 && options.skipPrompts) {
+    throw new BootstrapError(
+      'INVALID_PROJECT_NAME',
+      `"${rawName}" is not a valid npm package name: ${problems.join('; ')}. ` +
+      `Pass a valid project name (--name), e.g. "${projectNames.normalizeProjectName(rawName)}".`
+    );
+  }
 
-  if (stats.isDirectory()) {
-    if (!fs.existsSync(targetPath)) {
-      fs.mkdirSync(targetPath, { recursive: true });
-    }
-    const files = fs.readdirSync(templatePath);
-    for (const file of files) {
-      copyTemplate(
-        path.join(templatePath, file),
-        path.join(targetPath, file),
-        replacements
-      );
-    }
-  } else {
-    processFileContent(templatePath, targetPath, replacements);
-    console.log(`Created: ${path.relative(process.cwd(), targetPath)}`);
+  const promptInput = options.prompt ?? __internal.prompt;
+  while (problems.length > 0) {
+    logger.warn(`\n⚠️  "${name}" is not a valid npm package name: ${problems.join('; ')}`);
+    const suggestion = projectNames.normalizeProjectName(name);
+    name = (await promptInput(`Package name (${suggestion}): `)).trim() || suggestion;
+    problems = projectNames.validateProjectName(name);
   }
+  return name;
 }
 
 /**
@@ -313,181 +397,211 @@ function copyTemplate(
  */
 async function promptTemplateChoice(
   promptInput: (question: string) => Promise<string>,
-  message?: string
-): Promise<'typescript' | 'react'> {
+  message?: string,
+  logger: Logger = consoleLogger
+): Promise<BuiltInTemplate> {
   if (message) {
-    console.log(message);
+    logger.info(message);
   }
-  console.log('   1. typescript');
-  console.log('   2. react\n');
-
-  const choice = await promptInput('Choose a template (1 or 2): ');
+  BUILT_IN_TEMPLATES.forEach((name, index) => logger.info(`   ${index + 1}. ${name}`));
+  logger.info('');
 
-  if (choice === '1') {
-    return 'typescript';
+  const choice = await promptInput(`Choose a template (1-${BUILT_IN_TEMPLATES.length}): `);
+  const template = BUILT_IN_TEMPLATES[Number(choice) - 1];
+  if (template) {
+    return template;
   }
-  if (choice === '2') {
-    return 'react';
-  }
-  throw new Error('Invalid choice. Please select 1 or 2.');
+  throw new BootstrapError('INVALID_ARGUMENTS', `Invalid choice. Please select a number from 1 to ${BUILT_IN_TEMPLATES.length}.`);
 }
 
 /**
  * Initialize a new TypeScript project with best practices
  */
-export async function init(options: InitOptions = {}): Promise<void> {
-  const projectName = options.projectName || path.basename(process.cwd());
-  const projectTitle = options.projectTitle || projectName;
+export async function init(options: InitOptions = {}): Promise<BootstrapResult> {
   const targetDir = options.targetDir || process.cwd();
+  const logger = options.logger ?? consoleLogger;
+  // A name taken from the folder also gives a readable title: "my-app" is titled "My App"
+  const folderName = path.basename(path.resolve(targetDir));
+  const projectName = await resolveProjectName(options.projectName || folderName, options, logger);
+  const projectTitle = options.projectTitle || (options.projectName ? projectName : projectNames.deriveProjectTitle(folderName));
   
   // Prompt for template if not provided (AI-friendly: skip prompt if option is set or skipPrompts is true)
   let template = options.template;
   if (!template && !options.skipPrompts) {
-    console.log('\n📋 Available templates:');
-    console.log('  1. typescript - Pure TypeScript project');
-    console.log('  2. react - React + TypeScript project\n');
+    logger.info('\n📋 Available templates:');
+    BUILT_IN_TEMPLATES.forEach((name, index) => {
+      const { description } = readTemplateManifest(path.join(PACKAGE_ROOT, 'templates', name));
+      logger.info(`  ${index + 1}. ${name} - ${description}`);
+    });
+    logger.info('');
     
     const promptInput = options.prompt ?? __internal.prompt;
-    template = await promptTemplateChoice(promptInput);
+    template = await promptTemplateChoice(promptInput, undefined, logger);
   } else if (!template && options.skipPrompts) {
     // Default to react when skipPrompts is true and no template specified
     template = 'react';
   }
 
-  // Validate template type
-  const validTemplates: Array<'typescript' | 'react'> = ['typescript', 'react'];
-  if (!template || !validTemplates.includes(template)) {
-    throw new Error(`Invalid template: ${template}. Valid options: ${validTemplates.join(', ')}`);
+  // Paths to local templates are recorded relative to the project, so update finds them from anywhere
+  template = template && toTemplateReference(template, targetDir);
+  const templateDir = template ? resolveTemplateDirectory(template, targetDir, PACKAGE_ROOT) : null;
+  if (!template || !templateDir) {
+    throw new BootstrapError(
+      'INVALID_TEMPLATE',
+      `Invalid template: ${template}. Valid options: typescript, react, library, cli, node-service, monorepo, a path to a template directory ` +
+      'or the name of an installed template package'
+    );
   }
 
-  console.log(`\n🚀 Initializing TypeScript Bootstrap for: ${projectName}\n`);
+  if (options.workspacePackage && template === 'monorepo') {
+    throw new BootstrapError('INVALID_TEMPLATE', 'A workspace package cannot use the monorepo template. Choose the template of the package itself.');
+  }
+
+  logger.info(`\n🚀 Initializing TypeScript Bootstrap for: ${projectName}\n`);
+  logger.debug(`Template directory: ${templateDir}`);
 
-  const templateDir = path.join(__dirname, '..', 'templates', template);
-  
   // Verify template directory exists
   if (!fs.existsSync(templateDir)) {
-    throw new Error(`Template directory not found: ${templateDir}`);
+    throw new BootstrapError('TEMPLATE_NOT_FOUND', `Template directory not found: ${templateDir}`);
   }
-  
-  const replacements = {
-    PROJECT_NAME: projectName,
-    PROJECT_TITLE: projectTitle,
-  };
 
-  try {
-    copyTemplate(templateDir, targetDir, replacements);
-    
-    // Helper callback for init (logs "Created: ...")
-    const logCreated = (_relPath: string, absPath: string) => {
-      console.log(`Created: ${path.relative(process.cwd(), absPath)}`);
-    };
-    
-    // Copy .github/workflows from the main project (excluding publish.yml)
-    copyWorkflows(targetDir, logCreated);
-    
-    // Copy .github/copilot-instructions.md from the main project
-    copyFile('.github/copilot-instructions.md', targetDir, logCreated);
-
-    // Copy .github/PULL_REQUEST_TEMPLATE.md from the main project
-    copyFile('.github/PULL_REQUEST_TEMPLATE.md', targetDir, logCreated);
-    
-    // Copy .husky directory from the main project
-    copyDirectory('.husky', targetDir, logCreated);
+  // Placeholders beyond the project name and title are asked for as the template's manifest declares
+  const loadedTemplate = loadTemplate(template, targetDir, options.workspacePackage);
+  const promptInput = options.prompt ?? __internal.prompt;
+  const replacements = await resolvePlaceholderValues(
+    loadedTemplate.manifest,
+    { PROJECT_NAME: projectName, PROJECT_TITLE: projectTitle },
+    options.skipPrompts
+      ? undefined
+      : (prompt) => promptInput(prompt.default ? `${prompt.message} (${prompt.default}): ` : `${prompt.message}: `)
+  );
+  const templateFiles = loadedTemplate.files(replacements);
+  if (!templateFiles.some((file) => file.relativePath === 'package.json')) {
+    throw new BootstrapError('INVALID_TEMPLATE_MANIFEST', `Template "${template}" does not include a package.json`);
+  }
 
-    // Copy scripts directory from the main project
-    copyDirectory('scripts', targetDir, logCreated);
+  // Files that existed before init wrote them are reported as overwritten rather than created
+  const fileSystem = options.fileSystem ?? diskWriter;
+  const overwrittenFiles = new Set<string>();
+  const writtenFiles = new Set<string>();
+  const trackingWriter: FileWriter = {
+    ...fileSystem,
+    writeFile: (filePath, content) => {
+      if (!writtenFiles.has(filePath) && fileSystem.exists(filePath)) {
+        overwrittenFiles.add(filePath);
+      }
+      writtenFiles.add(filePath);
+      fileSystem.writeFile(filePath, content);
+    },
+  };
 
-    // Copy eslint.config.js from the main project
-    copyFile('eslint.config.js', targetDir, logCreated);
+  // Everything written during init is recorded as the merge base for future updates
+  const baseContents: Record<string, string> = {};
+  const writer = createRecordingWriter(targetDir, trackingWriter, baseContents);
+
+  const result = createResult('initialized', template);
+  const logCreated = (_relPath: string, absPath: string) => {
+    const relativePath = toPosixPath(path.relative(targetDir, absPath));
+    if (overwrittenFiles.has(absPath)) {
+      logger.info(`Overwrote: ${path.relative(process.cwd(), absPath)}`);
+      result.files.updated.push(relativePath);
+    } else {
+      logger.info(`Created: ${path.relative(process.cwd(), absPath)}`);
+      result.files.created.push(relativePath);
+    }
+  };
 
-    // Copy src/test.setup.ts from the main project
-    copyFile('src/test.setup.ts', targetDir, logCreated);
+  try {
+    for (const file of templateFiles) {
+      writeTemplateFile(file, targetDir, replacements, writer, trackingWriter);
+      logCreated(file.relativePath, path.join(targetDir, file.relativePath));
+    }
+    recordBootstrapMetadata(
+      path.join(targetDir, 'package.json'),
+      template,
+      trackingWriter,
+      pickPromptedValues(loadedTemplate.manifest, replacements),
+      options.workspacePackage
+    );
 
-    // Copy .gitignore from the main project
-    copyFile('.gitignore', targetDir, logCreated);
+    // package.json has its own merge strategy during update; only its template scripts are recorded
+    const baseScripts = baseContents['package.json'] ? JSON.parse(baseContents['package.json']).scripts : undefined;
+    delete baseContents['package.json'];
+    const baseSnapshotPath = writeBaseSnapshot(targetDir, baseContents, trackingWriter, baseScripts);
+    logCreated(baseSnapshotPath, path.join(targetDir, baseSnapshotPath));
 
-    const hashManifestPath = writeScaffoldHashManifest(targetDir, template);
-    console.log(`Created: ${path.relative(process.cwd(), path.join(targetDir, hashManifestPath))}`);
+    const hashManifestPath = writeScaffoldHashManifest(targetDir, templateFiles, trackingWriter);
+    logCreated(hashManifestPath, path.join(targetDir, hashManifestPath));
+    result.manifestPath = hashManifestPath;
     
-    console.log('\n✅ Project initialized successfully!');
-    console.log('\nNext steps:');
-    console.log('  1. npm install');
-    console.log('  2. npm run dev');
-    console.log('\nAvailable commands:');
-    console.log('  npm run dev         - Start development server');
-    console.log('  npm run build       - Build for production');
-    console.log('  npm test            - Run tests');
-    console.log('  npm run test:ui     - Run tests with UI');
-    console.log('  npm run test:coverage - Generate coverage report');
-    console.log('  npm run lint        - Lint code');
-    console.log('  npm run lint:fix    - Fix linting issues\n');
+    logger.info('\n✅ Project initialized successfully!');
+    logger.info('\nNext steps:');
+    logger.info('  1. npm install');
+    logger.info('  2. npm run dev');
+    logger.info('\nAvailable commands:');
+    logger.info('  npm run dev         - Start development server');
+    logger.info('  npm run build       - Build for production');
+    logger.info('  npm test            - Run tests');
+    logger.info('  npm run test:ui     - Run tests with UI');
+    logger.info('  npm run test:coverage - Generate coverage report');
+    logger.info('  npm run lint        - Lint code');
+    logger.info('  npm run lint:fix    - Fix linting issues\n');
+    return result;
   } catch (error) {
-    console.error('Error initializing project:', error);
+    logger.error('Error initializing project:', error);
     throw error;
   }
 }
 
+interface PackageJsonUpdate {
+  dependencyChanges: DependencyChange[];
+  scriptConflicts: ScriptConflict[];
+  templateScripts: Record<string, string>;
+}
+
 /**
- * Selectively copy only updatable files from template
+ * Ask which side of a script conflict to keep
  */
-function updateTemplate(
-  templatePath: string,
-  targetPath: string,
-  replacements: Record<string, string>,
-  relativePath = ''
-): string[] {
-  const updatedFiles: string[] = [];
-  const stats = fs.statSync(templatePath);
-  const currentRelativePath = relativePath || path.basename(templatePath);
-
-  if (stats.isDirectory()) {
-    const files = fs.readdirSync(templatePath);
-    for (const file of files) {
-      // Skip user code directories
-      if (file === 'src' && relativePath === '') {
-        continue;
-      }
-
-      const newRelativePath = relativePath ? path.join(relativePath, file) : file;
-      
-      const updated = updateTemplate(
-        path.join(templatePath, file),
-        path.join(targetPath, file),
-        replacements,
-        newRelativePath
-      );
-      updatedFiles.push(...updated);
-    }
-  } else {
-    // Check if this file should be updated
-    // Normalize to POSIX separators for cross-platform compatibility
-    const normalizedPath = currentRelativePath.split(path.sep).join('/');
-    const shouldUpdate = UPDATABLE_FILES.some(pattern => 
-      normalizedPath === pattern || normalizedPath.endsWith(`/${pattern}`)
-    );
-
-    if (shouldUpdate) {
-      processFileContent(templatePath, targetPath, replacements, true);
-      updatedFiles.push(currentRelativePath);
-    }
+async function promptScriptResolution(
+  promptInput: (question: string) => Promise<string>,
+  conflict: ScriptConflict,
+  logger: Logger = consoleLogger
+): Promise<ScriptResolution> {
+  logger.info(`\n✏️  Script "${conflict.name}" was changed locally and in the template:`);
+  logger.info(`   local:    ${conflict.local}`);
+  logger.info(`   template: ${conflict.template}`);
+
+  const choice = (await promptInput(
+    `Keep local, take template, or keep both as "${conflict.name}${TEMPLATE_SCRIPT_SUFFIX}"? (k/t/b, default k): `
+  )).trim().toLowerCase();
+
+  if (choice === 't') {
+    return 'take';
   }
-
-  return updatedFiles;
+  if (choice === 'b') {
+    return 'both';
+  }
+  return 'keep';
 }
 
 /**
  * Merge package.json scripts from template while preserving user customizations
  */
-function updatePackageJson(
+async function updatePackageJson(
   templatePath: string,
   targetPath: string,
-  replacements: Record<string, string>
-): void {
-  let templatePkg;
+  replacements: Record<string, string>,
+  writer: FileWriter = diskWriter,
+  baseScripts: Record<string, string> = {},
+  resolveScriptConflict: (conflict: ScriptConflict) => Promise<ScriptResolution> = async () => 'keep'
+): Promise<PackageJsonUpdate> {
+  let processedTemplatePkg;
   let targetPkg;
 
+  // Placeholders are rendered first: conditional blocks may not be valid JSON before
+  const templateContent = renderTemplateFile(templatePath, replacements);
   try {
-    templatePkg = JSON.parse(fs.readFileSync(templatePath, 'utf-8'));
+    processedTemplatePkg = JSON.parse(templateContent);
   } catch {
     throw new Error(
       `Failed to parse template package.json at ${templatePath}`
@@ -495,42 +609,34 @@ function updatePackageJson(
   }
 
   try {
-    targetPkg = JSON.parse(fs.readFileSync(targetPath, 'utf-8'));
+    targetPkg = JSON.parse(writer.readFile(targetPath).toString('utf-8'));
   } catch {
-    throw new Error(
+    throw new BootstrapError(
+      'PACKAGE_JSON_INVALID',
       `Failed to parse package.json at ${targetPath}. Please ensure package.json is valid JSON format.`
     );
   }
 
-  // Replace placeholders in template package.json using function to avoid $ being treated as replacement pattern
-  let templateContent = JSON.stringify(templatePkg, null, 2);
-  for (const [key, value] of Object.entries(replacements)) {
-    templateContent = templateContent.replace(new RegExp(`{{${key}}}`, 'g'), () => value);
-  }
-  const processedTemplatePkg = JSON.parse(templateContent);
-
-  // Update scripts from template - overwrite with template versions, preserve only custom additions
-  // Standard scripts (dev, build, test, etc.) are updated to maintain template consistency
-  targetPkg.scripts = {
-    ...targetPkg.scripts,
-    ...processedTemplatePkg.scripts,
-  };
-
-  // Update devDependencies (merge, preferring template versions)
-  if (processedTemplatePkg.devDependencies) {
-    targetPkg.devDependencies = {
-      ...(targetPkg.devDependencies || {}),
-      ...processedTemplatePkg.devDependencies,
-    };
+  // Update template scripts the user never changed; scripts changed on both sides are resolved one by one
+  const scriptMerge = mergeScripts(targetPkg.scripts, processedTemplatePkg.scripts, baseScripts);
+  for (const conflict of scriptMerge.conflicts) {
+    conflict.resolution = await resolveScriptConflict(conflict);
+    applyScriptResolution(scriptMerge.scripts, conflict);
   }
+  targetPkg.scripts = scriptMerge.scripts;
 
-  // Update dependencies (merge, preferring template versions)
+  // Merge versioned sections by comparing ranges, so deliberate local upgrades are never downgraded
   // This is important for React templates that have dependencies like react and react-dom
-  if (processedTemplatePkg.dependencies) {
-    targetPkg.dependencies = {
-      ...(targetPkg.dependencies || {}),
-      ...processedTemplatePkg.dependencies,
-    };
+  const dependencyChanges: DependencyChange[] = [];
+  for (const section of VERSIONED_SECTIONS) {
+    if (processedTemplatePkg[section]) {
+      targetPkg[section] = mergeVersionedSection(
+        section,
+        targetPkg[section],
+        processedTemplatePkg[section],
+        dependencyChanges
+      );
+    }
   }
 
   // Preserve/update typescriptBootstrap metadata
@@ -539,25 +645,33 @@ function updatePackageJson(
     targetPkg.typescriptBootstrap = targetPkg.typescriptBootstrap ?? processedTemplatePkg.typescriptBootstrap;
   }
 
-  fs.writeFileSync(targetPath, `${JSON.stringify(targetPkg, null, 2)}\n`, 'utf-8');
+  writer.writeFile(targetPath, `${JSON.stringify(targetPkg, null, 2)}\n`);
+  return {
+    dependencyChanges,
+    scriptConflicts: scriptMerge.conflicts,
+    templateScripts: processedTemplatePkg.scripts ?? {},
+  };
 }
 
 /**
  * Create a project or update it if it already exists
  */
-export async function createOrUpdate(options: InitOptions & UpdateOptions = {}): Promise<void> {
+export async function createOrUpdate(options: InitOptions & UpdateOptions = {}): Promise<BootstrapResult> {
   const targetDir = options.targetDir || process.cwd();
   const packageJsonPath = path.join(targetDir, 'package.json');
+  const logger = options.logger ?? consoleLogger;
+  const fileSystem = options.fileSystem ?? diskWriter;
 
-  if (fs.existsSync(packageJsonPath)) {
+  if (fileSystem.exists(packageJsonPath)) {
     let packageJsonContent: string;
     let packageJson: Record<string, unknown>;
 
     try {
-      packageJsonContent = fs.readFileSync(packageJsonPath, 'utf-8');
+      packageJsonContent = fileSystem.readFile(packageJsonPath).toString('utf-8');
       packageJson = JSON.parse(packageJsonContent);
     } catch {
-      throw new Error(
+      throw new BootstrapError(
+        'PACKAGE_JSON_INVALID',
         `Found existing package.json at ${packageJsonPath}, but it could not be parsed. ` +
           'Aborting update to avoid corrupting an existing project. Please ensure package.json is valid JSON.'
       );
@@ -565,14 +679,14 @@ export async function createOrUpdate(options: InitOptions & UpdateOptions = {}):
 
     // Only auto-update when this is a recognized TypeScript Bootstrap project
     if (packageJson && packageJson.typescriptBootstrap) {
-      console.log('\n🔎 Existing TypeScript Bootstrap project detected. Running update...\n');
-      await update({ ...options, targetDir });
-      return;
+      logger.info('\n🔎 Existing TypeScript Bootstrap project detected. Running update...\n');
+      return update({ ...options, targetDir });
     }
 
     // Non-bootstrap project detected. Require explicit opt-in to proceed.
     if (options.skipPrompts) {
-      throw new Error(
+      throw new BootstrapError(
+        'NOT_A_BOOTSTRAP_PROJECT',
         'Existing package.json found, but no TypeScript Bootstrap metadata was detected.\n' +
           'Refusing to update a non-bootstrap project when prompts are disabled, to avoid overwriting configuration.\n' +
           'If you really want to apply the TypeScript Bootstrap template here, re-run without --skip-prompts ' +
@@ -590,47 +704,121 @@ export async function createOrUpdate(options: InitOptions & UpdateOptions = {}):
       .toLowerCase();
 
     if (answer === 'y' || answer === 'yes') {
-      console.log('\n⚠️  Proceeding to update existing non-bootstrap project...\n');
-      await update({ ...options, targetDir });
-      return;
+      logger.warn('\n⚠️  Proceeding to update existing non-bootstrap project...\n');
+      return update({ ...options, targetDir });
     }
 
-    console.log('\nAborting update. No changes were made to the existing project.\n');
-    return;
+    logger.info('\nAborting update. No changes were made to the existing project.\n');
+    return createResult('cancelled', null);
   }
 
-  await init(options);
+  return init(options);
+}
+
+/**
+ * Update an existing project with latest template changes. At a workspace root, every workspace
+ * package created by TypeScript Bootstrap is updated afterwards, with the same options.
+ */
+export async function update(options: UpdateOptions = {}): Promise<BootstrapResult> {
+  const result = await updateProject(options);
+  const targetDir = options.targetDir || process.cwd();
+  const packageDirectories = result.action === 'cancelled'
+    ? []
+    : findBootstrapWorkspacePackages(targetDir, options.fileSystem ?? diskWriter);
+  if (packageDirectories.length === 0) {
+    return result;
+  }
+
+  const workspacePackages = await updateWorkspacePackages(targetDir, packageDirectories, options);
+  workspacePackages
+    .filter((entry) => entry.error !== null)
+    .forEach((entry) => result.warnings.push(`Workspace package ${entry.directory} was not updated: ${entry.error}`));
+  return { ...result, workspacePackages };
+}
+
+/**
+ * Let the workspace helpers read the project through fileSystem instead of the real disk
+ */
+function workspaceFileAccess(fileSystem: FileWriter): WorkspaceFileAccess {
+  return {
+    existsSync: (filePath) => fileSystem.exists(filePath),
+    readFileSync: (filePath) => fileSystem.readFile(filePath).toString('utf-8'),
+    readdirSync: (dirPath) =>
+      (fileSystem.listDirectories?.(dirPath) ?? []).map((name) => ({ name, isDirectory: () => true })),
+  };
+}
+
+/**
+ * Workspace packages of a workspace root that have TypeScript Bootstrap metadata, found and read
+ * through the same file system as the root
+ */
+function findBootstrapWorkspacePackages(rootDir: string, fileSystem: FileWriter): string[] {
+  return workspaces.findWorkspacePackages(rootDir, workspaceFileAccess(fileSystem)).filter((directory) => {
+    try {
+      const packageJsonPath = path.join(rootDir, directory, 'package.json');
+      return Boolean(JSON.parse(fileSystem.readFile(packageJsonPath).toString('utf-8')).typescriptBootstrap);
+    } catch {
+      return false;
+    }
+  });
 }
 
 /**
- * Update an existing project with latest template changes
+ * Update every workspace package in turn; a package that fails is reported and the others still run.
+ * The root update was already confirmed, so packages are not asked about again.
  */
-export async function update(options: UpdateOptions = {}): Promise<void> {
+async function updateWorkspacePackages(
+  rootDir: string,
+  directories: string[],
+  options: UpdateOptions
+): Promise<WorkspacePackageUpdate[]> {
+  const logger = options.logger ?? consoleLogger;
+  const updates: WorkspacePackageUpdate[] = [];
+  for (const directory of directories) {
+    logger.info(`\n📦 Workspace package: ${directory}`);
+    try {
+      const result = await updateProject({ ...options, targetDir: path.join(rootDir, directory), confirm: async () => true });
+      updates.push({ directory, result, error: null });
+    } catch (error) {
+      updates.push({ directory, result: null, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  logger.info(`\n📦 ${updates.length} workspace package(s):`);
+  updates.forEach(({ directory, error }) => (error === null ? logger.info(`   ✓ ${directory}`) : logger.warn(`   ✗ ${directory}: ${error}`)));
+  logger.info('');
+  return updates;
+}
+
+async function updateProject(options: UpdateOptions): Promise<BootstrapResult> {
   const targetDir = options.targetDir || process.cwd();
   const packageJsonPath = path.join(targetDir, 'package.json');
+  const logger = options.logger ?? consoleLogger;
+  const fileSystem = options.fileSystem ?? diskWriter;
 
   // Check if this is a valid project
-  if (!fs.existsSync(packageJsonPath)) {
-    throw new Error('No package.json found. This doesn\'t appear to be a valid project.');
+  if (!fileSystem.exists(packageJsonPath)) {
+    throw new BootstrapError('PACKAGE_JSON_NOT_FOUND', 'No package.json found. This doesn\'t appear to be a valid project.');
   }
 
   let packageJson;
   try {
-    packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+    packageJson = JSON.parse(fileSystem.readFile(packageJsonPath).toString('utf-8'));
   } catch (error) {
-    throw new Error(
+    throw new BootstrapError(
+      'PACKAGE_JSON_INVALID',
       `Failed to parse package.json: ${error instanceof Error ? error.message : 'Invalid JSON'}. ` +
       'Please ensure package.json is valid JSON format.'
     );
   }
 
   const projectName = packageJson.name || path.basename(targetDir);
-  const projectTitle = packageJson.description || projectName;
 
   let template = packageJson.typescriptBootstrap?.template;
   if (!template) {
     if (options.skipPrompts) {
-      throw new Error(
+      throw new BootstrapError(
+        'METADATA_MISSING',
         'TypeScript Bootstrap metadata is missing and template cannot be determined when prompts are disabled. ' +
         'Re-run without --skip-prompts and choose the template to continue.'
       );
@@ -639,107 +827,950 @@ export async function update(options: UpdateOptions = {}): Promise<void> {
     const promptInput = options.prompt ?? __internal.prompt;
     template = await promptTemplateChoice(
       promptInput,
-      'ℹ️  This project is missing template metadata. Choose the template to continue:'
+      'ℹ️  This project is missing template metadata. Choose the template to continue:',
+      logger
     );
   }
 
-  console.log(`\n🔄 Update available for: ${projectName}\n`);
-  console.log('⚠️  This will update your project with the latest template changes:');
-  console.log('   • Configuration files (tsconfig.json, vite.config.ts, etc.) will be overwritten');
-  console.log('   • Dependencies will be updated to template versions');
-  console.log('   • Template scripts (dev, build, test, etc.) will be overwritten');
-  console.log('   • Custom scripts (not in template) will be preserved');
-  console.log('   • Source code (src/) and custom files remain untouched');
-  console.log('   💡 Tip: Use custom script names (e.g., "dev:custom") for your modifications\n');
-
-  // Prompt for confirmation before proceeding (AI-friendly: skip if skipPrompts is true)
-  if (!options.skipPrompts) {
-    const confirmPrompt = options.confirm ?? __internal.confirm;
-    const shouldProceed = await confirmPrompt('Do you want to proceed with the update?');
-    
-    if (!shouldProceed) {
-      console.log('\n❌ Update cancelled.\n');
-      return;
+  if (options.dryRun) {
+    logger.info(`\n🔍 Planning update for: ${projectName} (dry run, no files will be written)\n`);
+  } else {
+    logger.info(`\n🔄 Update available for: ${projectName}\n`);
+    logger.info('⚠️  This will update your project with the latest template changes:');
+    logger.info('   • Configuration files (tsconfig.json, vite.config.ts, etc.) will be updated');
+    logger.info('   • Local edits to those files are merged; overlapping edits get conflict markers');
+    logger.info('   • Dependencies older than the template are upgraded; newer local versions are kept');
+    logger.info('   • Template scripts (dev, build, test, etc.) you never changed will be updated');
+    logger.info('   • Customized and custom scripts will be preserved; you choose when both sides changed');
+    logger.info('   • Source code (src/) and custom files remain untouched');
+    logger.info('   • Files listed in typescriptBootstrap.ejected are never touched');
+    logger.info('   💡 Tip: Run "typescript-bootstrap update --dry-run" to preview the exact changes\n');
+
+    // Prompt for confirmation before proceeding (AI-friendly: skip if skipPrompts is true)
+    if (!options.skipPrompts) {
+      const confirmPrompt = options.confirm ?? __internal.confirm;
+      const shouldProceed = await confirmPrompt('Do you want to proceed with the update?');
+      
+      if (!shouldProceed) {
+        logger.info('\n❌ Update cancelled.\n');
+        return createResult('cancelled', template);
+      }
     }
+
+    logger.info(`\n🔄 Updating TypeScript Bootstrap project: ${projectName}\n`);
   }
 
-  console.log(`\n🔄 Updating TypeScript Bootstrap project: ${projectName}\n`);
+  return applyTemplateUpdate(targetDir, packageJson, template, options);
+}
+
+interface ProjectPackageJson {
+  name?: string;
+  description?: string;
+  typescriptBootstrap?: {
+    template?: string;
+    version?: string;
+    ejected?: unknown;
+    placeholders?: Record<string, string>;
+    workspacePackage?: unknown;
+  };
+}
+
+/**
+ * Placeholder values of an existing project: its name and title, the answers recorded at init, and
+ * the defaults of prompts the template added since
+ */
+function resolveProjectPlaceholders(
+  manifest: TemplateManifest,
+  packageJson: ProjectPackageJson,
+  targetDir: string
+): Promise<Record<string, string>> {
+  const projectName = packageJson.name || path.basename(targetDir);
+  return resolvePlaceholderValues(manifest, {
+    ...packageJson.typescriptBootstrap?.placeholders,
+    PROJECT_NAME: projectName,
+    PROJECT_TITLE: packageJson.description || projectName,
+  });
+}
+
+/**
+ * Hook run before template files are merged, used to reshape a project for a different template
+ */
+type TemplateUpdatePreparation = (context: MigrationContext & { replacements: Record<string, string> }) => void;
+
+/**
+ * Everything a template update would do, staged in memory and not yet written
+ */
+interface TemplateUpdatePlan {
+  changeSet: ChangeSet;
+  appliedMigrations: Migration[];
+  staleFiles: StaleManagedFile[];
+  merges: ManagedFileMerge[];
+  scriptConflicts: ScriptConflict[];
+  dependencyChanges: DependencyChange[];
+  skippedFiles: string[];
+}
 
-  const templateDir = path.join(__dirname, '..', 'templates', template);
+/**
+ * Stage the template update for a project without touching it. Prompts for script conflicts and
+ * edited stale files unless skipPrompts or dryRun is set.
+ */
+async function planTemplateUpdate(
+  targetDir: string,
+  packageJson: ProjectPackageJson,
+  template: string,
+  options: UpdateOptions,
+  prepare?: TemplateUpdatePreparation
+): Promise<TemplateUpdatePlan> {
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const templateDir = resolveTemplateDirectory(template, targetDir, PACKAGE_ROOT);
+  const logger = options.logger ?? consoleLogger;
   
   // Verify template directory exists
-  if (!fs.existsSync(templateDir)) {
-    throw new Error(
-      `Template "${template}" not found in ${path.join(__dirname, '..', 'templates')}. ` +
-      'Please verify your project configuration or reinstall TypeScript Bootstrap.'
+  if (!templateDir || !fs.existsSync(templateDir)) {
+    throw new BootstrapError(
+      'TEMPLATE_NOT_FOUND',
+      `Template "${template}" not found${templateDir ? ` in ${templateDir}` : ''}. ` +
+      'Please verify your project configuration, install the template package or reinstall TypeScript Bootstrap.'
     );
   }
-  
-  const replacements = {
-    PROJECT_NAME: projectName,
-    PROJECT_TITLE: projectTitle,
+
+  const loadedTemplate = loadTemplate(template, targetDir, isWorkspacePackage(packageJson));
+  const replacements = await resolveProjectPlaceholders(loadedTemplate.manifest, packageJson, targetDir);
+  const templateFiles = loadedTemplate.files(replacements);
+
+  // Every write is staged in memory first so a dry run can report it without touching the project
+  const changeSet = createChangeSet(targetDir, options.fileSystem ?? diskWriter);
+
+  // Managed files are three-way merged against the template content written by the previous run
+  const previousState = readPreviousScaffoldState(targetDir, HASH_MANIFEST_RELATIVE_PATH, changeSet);
+  const nextBaseContents = { ...previousState.baseContents };
+  const merges: ManagedFileMerge[] = [];
+  const ejectedFiles = readEjectedFiles(packageJson);
+  const ejectedSet = new Set(ejectedFiles);
+  const writer = createEjectionFilter(
+    targetDir,
+    createMergingWriter(targetDir, changeSet, previousState, nextBaseContents, merges),
+    ejectedSet
+  );
+  const projectWriter = createEjectionFilter(targetDir, changeSet, ejectedSet);
+
+  let dependencyChanges: DependencyChange[] = [];
+  let scriptConflicts: ScriptConflict[] = [];
+  let nextBaseScripts = previousState.baseScripts;
+
+  // Script conflicts are asked about interactively; otherwise the local value is kept and reported
+  const promptInput = options.prompt ?? __internal.prompt;
+  const resolveScriptConflict = async (conflict: ScriptConflict): Promise<ScriptResolution> =>
+    options.skipPrompts || options.dryRun ? 'keep' : promptScriptResolution(promptInput, conflict, logger);
+
+  // Migrations run first so template files and package.json are merged into the migrated project
+  const appliedMigrations = runMigrations(
+    { targetDir, writer: projectWriter },
+    packageJson.typescriptBootstrap?.version,
+    readBootstrapVersion()
+  );
+  prepare?.({ targetDir, writer: projectWriter, replacements });
+
+  // Managed files are kept in sync; package.json is merged separately below
+  const updatedFiles: string[] = [];
+  const managedFiles = templateFiles
+    .filter((file) => file.ownership === 'managed' && file.relativePath !== 'package.json');
+  for (const file of managedFiles) {
+    writeTemplateFile(file, targetDir, replacements, writer, projectWriter);
+    updatedFiles.push(file.relativePath);
+  }
+
+  // Line-based files only get their managed block rewritten in place, so they have no merge base
+  MANAGED_BLOCK_FILES.forEach((file) => delete nextBaseContents[file]);
+
+  // Update package.json separately (merge strategy)
+  const templatePackageJson = path.join(templateDir, 'package.json');
+  if (fs.existsSync(templatePackageJson)) {
+    const packageJsonUpdate = await updatePackageJson(
+      templatePackageJson,
+      packageJsonPath,
+      replacements,
+      projectWriter,
+      previousState.baseScripts,
+      ejectedSet.has('package.json') ? async () => 'keep' : resolveScriptConflict
+    );
+    if (!ejectedSet.has('package.json')) {
+      dependencyChanges = packageJsonUpdate.dependencyChanges;
+      scriptConflicts = packageJsonUpdate.scriptConflicts;
+      nextBaseScripts = packageJsonUpdate.templateScripts;
+    }
+    updatedFiles.push('package.json');
+  }
+  recordBootstrapMetadata(packageJsonPath, template, projectWriter, pickPromptedValues(loadedTemplate.manifest, replacements));
+
+  const staleFiles = await removeStaleManagedFiles(
+    targetDir,
+    loadedTemplate.manifest,
+    templateFiles,
+    previousState,
+    writer,
+    async (file) => (options.skipPrompts || options.dryRun ? 'keep' : promptStaleFileResolution(promptInput, file, logger))
+  );
+
+  // Ejected and removed files have no merge base anymore
+  ejectedFiles.forEach((file) => delete nextBaseContents[file]);
+  Object.keys(nextBaseContents)
+    .filter((file) => !changeSet.exists(path.join(targetDir, file)))
+    .forEach((file) => delete nextBaseContents[file]);
+  updatedFiles.push(writeBaseSnapshot(targetDir, nextBaseContents, changeSet, nextBaseScripts));
+
+  const hashManifestPath = writeScaffoldHashManifest(targetDir, templateFiles, changeSet, ejectedFiles);
+  updatedFiles.push(hashManifestPath);
+
+  const skippedFiles = updatedFiles.filter((file) => ejectedSet.has(file));
+
+  return {
+    changeSet,
+    appliedMigrations,
+    staleFiles,
+    merges,
+    scriptConflicts,
+    dependencyChanges,
+    skippedFiles,
+  };
+}
+
+/**
+ * Describe a planned template update as a result: what it creates, changes and removes, and what needs attention
+ */
+function summarizeTemplateUpdate(
+  action: BootstrapAction,
+  template: string,
+  plan: TemplateUpdatePlan
+): BootstrapResult {
+  const result = createResult(action, template);
+
+  for (const change of plan.changeSet.changes()) {
+    if (change.content === null) {
+      result.files.removed.push(change.relativePath);
+    } else if (change.previousContent === null) {
+      result.files.created.push(change.relativePath);
+    } else {
+      result.files.updated.push(change.relativePath);
+    }
+  }
+
+  const keptStaleFiles = plan.staleFiles.filter(({ resolution }) => resolution === 'keep').map(({ file }) => file);
+  result.files.skipped.push(...plan.skippedFiles, ...keptStaleFiles);
+  result.packageJson.dependencyChanges = plan.dependencyChanges;
+  result.packageJson.scriptConflicts = plan.scriptConflicts;
+
+  plan.merges
+    .filter((merge) => merge.outcome === 'conflict')
+    .forEach(({ file, conflicts }) => result.warnings.push(`${file} has ${conflicts} merge conflict(s) to resolve`));
+  plan.scriptConflicts
+    .filter((conflict) => conflict.resolution === 'keep')
+    .forEach(({ name }) => result.warnings.push(`Script "${name}" was changed locally and in the template; the local value was kept`));
+  keptStaleFiles.forEach((file) => result.warnings.push(`${file} is no longer part of the template and was kept as an unmanaged file`));
+
+  return result;
+}
+
+/**
+ * Stage the template update for a project, then print the plan (dry run) or commit it with a backup
+ */
+async function applyTemplateUpdate(
+  targetDir: string,
+  packageJson: ProjectPackageJson,
+  template: string,
+  options: UpdateOptions,
+  prepare?: TemplateUpdatePreparation
+): Promise<BootstrapResult> {
+  const logger = options.logger ?? consoleLogger;
+
+  try {
+    const plan = await planTemplateUpdate(targetDir, packageJson, template, options, prepare);
+    const {
+      changeSet,
+      appliedMigrations,
+      staleFiles,
+      merges,
+      scriptConflicts,
+      dependencyChanges,
+      skippedFiles,
+    } = plan;
+
+    if (options.dryRun) {
+      printUpdatePlan(changeSet.changes(), logger);
+      printMigrations(appliedMigrations, logger);
+      printStaleFiles(staleFiles, logger);
+      printMergeSummary(merges, logger);
+      printScriptConflicts(scriptConflicts, logger);
+      printDependencySummary(dependencyChanges, logger);
+      printEjectedFiles(skippedFiles, logger);
+      logger.info('\n✅ Dry run complete. No files were modified.');
+      logger.info('   Re-run without --dry-run to apply these changes.\n');
+      return summarizeTemplateUpdate('planned', template, plan);
+    }
+
+    // Summarize before committing, while the change set can still compare against the old files
+    const result = summarizeTemplateUpdate('updated', template, plan);
+    result.manifestPath = HASH_MANIFEST_RELATIVE_PATH;
+
+    // Nothing has touched the project yet: commit every change at once, backing up what it replaces
+    const changes = changeSet.changes();
+    const backupPath = commitWithBackup(targetDir, changes, options.fileSystem ?? diskWriter);
+    logger.debug(`Committed ${changes.length} staged change(s)`);
+
+    // Removed files are reported with the stale files below
+    const writtenFiles = changes.filter(({ content }) => content !== null).map(({ relativePath }) => relativePath);
+    if (writtenFiles.length === 0) {
+      logger.info('✅ Project is already up to date. No files changed.');
+    } else {
+      logger.info('✅ Updated files:');
+      writtenFiles.forEach(file => logger.info(`   - ${file}`));
+    }
+    printMigrations(appliedMigrations, logger);
+    printStaleFiles(staleFiles, logger);
+    printMergeSummary(merges, logger);
+    printScriptConflicts(scriptConflicts, logger);
+    printDependencySummary(dependencyChanges, logger);
+    printEjectedFiles(skippedFiles, logger);
+
+    if (backupPath) {
+      logger.info(`\n💾 Previous versions of changed files saved to ${backupPath}`);
+      logger.info('   Run "typescript-bootstrap undo" to restore them.');
+    }
+
+    logger.info('\n✅ Project updated successfully!');
+    logger.info('\nNext steps:');
+    logger.info('  1. npm install  (to update dependencies)');
+    logger.info('  2. Review changes and test your project\n');
+    return result;
+  } catch (error) {
+    logger.error('Error updating project:', error);
+    throw error;
+  }
+}
+
+type StaleFileResolution = 'keep' | 'remove';
+
+interface StaleManagedFile {
+  file: string;
+  resolution: StaleFileResolution;
+}
+
+/**
+ * Remove files the previous scaffold managed that the template no longer ships. Untouched copies
+ * are removed; locally edited ones are removed or kept as unmanaged files as resolve decides.
+ * package.json and files the template rules hand to the project (seeded or user-owned, such as
+ * code under src/) are never removed, they simply stop being managed.
+ */
+async function removeStaleManagedFiles(
+  targetDir: string,
+  manifest: TemplateManifest,
+  files: TemplateFile[],
+  previous: PreviousScaffoldState,
+  writer: FileWriter,
+  resolve: (file: string) => Promise<StaleFileResolution>
+): Promise<StaleManagedFile[]> {
+  const currentFiles = new Set(files.map((file) => file.relativePath));
+  const staleFiles: StaleManagedFile[] = [];
+
+  for (const file of previous.managedFiles) {
+    const targetPath = path.join(targetDir, file);
+    const ownership = resolveOwnership(manifest.files, file);
+    const isProjectOwned = file === 'package.json' || ownership === 'seeded' || ownership === 'user';
+    if (currentFiles.has(file) || isProjectOwned || !writer.exists(targetPath)) {
+      continue;
+    }
+
+    const unchanged = isUnchangedSinceScaffold(file, writer.readFile(targetPath).toString('utf-8'), previous);
+    const resolution = unchanged ? 'remove' : await resolve(file);
+    if (resolution === 'remove') {
+      writer.removeFile(targetPath);
+    }
+    staleFiles.push({ file, resolution });
+  }
+
+  return staleFiles;
+}
+
+/**
+ * Ask whether to delete a locally edited file the template dropped
+ */
+async function promptStaleFileResolution(
+  promptInput: (question: string) => Promise<string>,
+  file: string,
+  logger: Logger = consoleLogger
+): Promise<StaleFileResolution> {
+  logger.info(`\n🗑️  "${file}" is no longer part of the template, but it was edited locally.`);
+  const choice = await promptInput('Remove it, or keep it as an unmanaged file? (r/k, default k): ');
+  return choice.trim().toLowerCase() === 'r' ? 'remove' : 'keep';
+}
+
+function printStaleFiles(staleFiles: StaleManagedFile[], logger: Logger = consoleLogger): void {
+  const removed = staleFiles.filter(({ resolution }) => resolution === 'remove');
+  const kept = staleFiles.filter(({ resolution }) => resolution === 'keep');
+
+  if (removed.length > 0) {
+    logger.info('\n🗑️  Removed (no longer part of the template):');
+    removed.forEach(({ file }) => logger.info(`   - ${file} (removed)`));
+  }
+  if (kept.length > 0) {
+    logger.info('\n📌 Kept as unmanaged files (edited locally, no longer part of the template):');
+    kept.forEach(({ file }) => logger.info(`   - ${file}`));
+  }
+}
+
+function printMigrations(migrations: Migration[], logger: Logger = consoleLogger): void {
+  if (migrations.length > 0) {
+    logger.info('\n🧬 Migrations applied:');
+    migrations.forEach(({ version, description }) => logger.info(`   - ${version}: ${description}`));
+  }
+}
+
+const SCRIPT_RESOLUTION_LABELS: Record<ScriptResolution, string> = {
+  keep: 'kept local',
+  take: 'took template',
+  both: `kept local, template added as "<name>${TEMPLATE_SCRIPT_SUFFIX}"`,
+};
+
+/**
+ * Report scripts that diverged from the template on both sides and how each was settled
+ */
+function printScriptConflicts(conflicts: ScriptConflict[], logger: Logger = consoleLogger): void {
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  logger.info('\n✏️  Scripts changed both locally and in the template:');
+  for (const { name, local, template, resolution } of conflicts) {
+    const label = SCRIPT_RESOLUTION_LABELS[resolution].replace('<name>', name);
+    logger.info(`   - ${name}: local "${local}", template "${template}" [${label}]`);
+  }
+}
+
+const DEPENDENCY_DECISION_LABELS: Record<DependencyDecision, string> = {
+  'added': 'added',
+  'upgraded': 'upgraded',
+  'kept': 'kept local range',
+  'downgrade-avoided': 'kept newer local range, downgrade avoided',
+};
+
+/**
+ * Report how each dependency range was resolved against the template
+ */
+function printDependencySummary(changes: DependencyChange[], logger: Logger = consoleLogger): void {
+  if (changes.length === 0) {
+    return;
+  }
+
+  logger.info('\n📦 Dependency versions:');
+  for (const change of changes) {
+    logger.info(`   - ${change.section}.${change.name}: ${describeDependencyRange(change)} [${DEPENDENCY_DECISION_LABELS[change.decision]}]`);
+  }
+}
+
+function describeDependencyRange({ decision, local, template }: DependencyChange): string {
+  if (decision === 'added') {
+    return template;
+  }
+  if (decision === 'upgraded') {
+    return `${local} → ${template}`;
+  }
+  return `${local} (template: ${template})`;
+}
+
+function printEjectedFiles(files: string[], logger: Logger = consoleLogger): void {
+  if (files.length > 0) {
+    logger.info('\n⏏️  Ejected files (owned by the project, left untouched):');
+    files.forEach((file) => logger.info(`   - ${file} (ejected)`));
+  }
+}
+
+/**
+ * Report managed files whose local edits were merged with the template, and any conflicts
+ */
+function printMergeSummary(merges: ManagedFileMerge[], logger: Logger = consoleLogger): void {
+  const merged = merges.filter((merge) => merge.outcome === 'merged');
+  const conflicted = merges.filter((merge) => merge.outcome === 'conflict');
+
+  if (merged.length > 0) {
+    logger.info('\n🔀 Local changes merged with the template:');
+    merged.forEach(({ file }) => logger.info(`   - ${file}`));
+  }
+
+  if (conflicted.length > 0) {
+    logger.info('\n⚠️  Conflicts between local changes and the template:');
+    conflicted.forEach(({ file, conflicts }) => logger.info(`   - ${file} (${conflicts} conflict(s))`));
+    logger.info('   💡 Resolve the <<<<<<< / >>>>>>> markers, then run: npm run hash:update');
+  }
+}
+
+/**
+ * Print a unified diff per staged file, plus a script/dependency summary for package.json
+ */
+function printUpdatePlan(changes: StagedChange[], logger: Logger = consoleLogger): void {
+  if (changes.length === 0) {
+    logger.info('✅ Project is already up to date. No files would change.');
+    return;
+  }
+
+  logger.info(`📝 Planned changes (${changes.length} file(s)):\n`);
+  changes.forEach(({ relativePath, previousContent, content }) => {
+    const status = content === null ? 'deleted' : previousContent ? 'modified' : 'created';
+    logger.info(`   - ${relativePath} (${status})`);
+  });
+
+  for (const { relativePath, previousContent, content } of changes) {
+    const before = previousContent ? previousContent.toString('utf-8') : null;
+    const after = content ? content.toString('utf-8') : null;
+
+    if (relativePath === 'package.json' && after !== null) {
+      const delta = describePackageJsonDelta(before ? JSON.parse(before) : null, JSON.parse(after));
+      logger.info('\n📦 package.json scripts and dependencies:');
+      if (delta.length === 0) {
+        logger.info('   (no script or dependency changes)');
+      }
+      delta.forEach((line) => logger.info(`   ${line}`));
+    }
+
+    logger.info(`\n${createUnifiedDiff(relativePath, before, after).trimEnd()}`);
+  }
+}
+
+export interface AddPackageOptions extends Omit<InitOptions, 'targetDir' | 'workspacePackage'> {
+  projectName: string;
+  targetDir?: string; // The workspace root; defaults to the current directory
+}
+
+/**
+ * Create a package in the packages directory of a workspace root from any template except monorepo.
+ * It gets no workflows or hooks of its own: the root runs them for every package.
+ */
+export async function addPackage(options: AddPackageOptions): Promise<BootstrapResult> {
+  const rootDir = options.targetDir || process.cwd();
+  const logger = options.logger ?? consoleLogger;
+  const fileSystem = options.fileSystem ?? diskWriter;
+
+  const patterns = workspaces.readWorkspacePatterns(rootDir, workspaceFileAccess(fileSystem));
+  if (patterns.length === 0) {
+    throw new BootstrapError(
+      'NOT_A_WORKSPACE',
+      `${rootDir} is not a workspace root: package.json has no "workspaces" and there is no pnpm-workspace.yaml. ` +
+      'Create one with "typescript-bootstrap init --template monorepo".'
+    );
+  }
+
+  const projectName = await resolveProjectName(options.projectName, options, logger);
+  const directory = `${WORKSPACE_PACKAGES_DIRECTORY}/${projectName.replace(/^@[^/]+\//, '')}`;
+  if (fileSystem.exists(path.join(rootDir, directory, 'package.json'))) {
+    throw new BootstrapError('INVALID_ARGUMENTS', `${directory} already contains a package. Choose another name.`);
+  }
+
+  const result = await init({ ...options, projectName, targetDir: path.join(rootDir, directory), workspacePackage: true });
+  if (!workspaces.findWorkspacePackages(rootDir, workspaceFileAccess(fileSystem)).includes(directory)) {
+    const warning = `${directory} is not matched by the workspace patterns (${patterns.join(', ')}); ` +
+      'add it to "workspaces" in package.json or to pnpm-workspace.yaml';
+    logger.warn(`⚠️  ${warning}`);
+    result.warnings.push(warning);
+  }
+  logger.info(`📦 Run "npm install" at the workspace root to link ${projectName} into the workspace.\n`);
+  return result;
+}
+
+export interface EjectOptions {
+  targetDir?: string;
+  files: string[];
+  logger?: Logger;
+}
+
+/**
+ * Take ownership of managed files: update skips them and the integrity check stops tracking them
+ */
+export async function eject(options: EjectOptions): Promise<BootstrapResult> {
+  const targetDir = options.targetDir || process.cwd();
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const logger = options.logger ?? consoleLogger;
+
+  if (options.files.length === 0) {
+    throw new BootstrapError('INVALID_ARGUMENTS', 'No files to eject. Usage: typescript-bootstrap eject <file...>');
+  }
+
+  let packageJson;
+  try {
+    packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    throw new BootstrapError('PACKAGE_JSON_NOT_FOUND', `Failed to read package.json at ${packageJsonPath}. Run eject from a TypeScript Bootstrap project.`);
+  }
+
+  const template = packageJson.typescriptBootstrap?.template;
+  if (!template) {
+    throw new BootstrapError('METADATA_MISSING', 'TypeScript Bootstrap metadata is missing. Run "typescript-bootstrap update" first.');
+  }
+
+  const loadedTemplate = loadTemplate(template, targetDir, isWorkspacePackage(packageJson));
+  const replacements = await resolveProjectPlaceholders(loadedTemplate.manifest, packageJson, targetDir);
+  const managedFiles = listManagedFiles(loadedTemplate.files(replacements));
+  const requestedFiles = options.files.map(normalizeManagedPath);
+  const unmanagedFiles = requestedFiles.filter((file) => !managedFiles.includes(file));
+  if (unmanagedFiles.length > 0) {
+    throw new BootstrapError('UNMANAGED_FILE', `Not managed by TypeScript Bootstrap: ${unmanagedFiles.join(', ')}`);
+  }
+
+  const result = createResult('ejected', template);
+  result.files.skipped.push(...requestedFiles);
+
+  const ejectedFiles = Array.from(new Set([...readEjectedFiles(packageJson), ...requestedFiles]))
+    .sort((left, right) => left.localeCompare(right));
+  packageJson.typescriptBootstrap = { ...packageJson.typescriptBootstrap, ejected: ejectedFiles };
+  fs.writeFileSync(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`, 'utf-8');
+
+  // Stop tracking the ejected files, and re-hash package.json since eject just rewrote it
+  const manifestPath = path.join(targetDir, HASH_MANIFEST_RELATIVE_PATH);
+  if (fs.existsSync(manifestPath)) {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    manifest.managedFiles = (manifest.managedFiles ?? []).filter((file: string) => !ejectedFiles.includes(file));
+    for (const file of ejectedFiles) {
+      delete manifest.hashes?.[file];
+    }
+    if (manifest.managedFiles.includes('package.json')) {
+      manifest.hashes['package.json'] = createFileHash(packageJsonPath);
+    }
+    fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf-8');
+    result.manifestPath = HASH_MANIFEST_RELATIVE_PATH;
+  }
+
+  const previousState = readPreviousScaffoldState(targetDir, HASH_MANIFEST_RELATIVE_PATH, diskWriter);
+  if (Object.keys(previousState.baseContents).length > 0) {
+    ejectedFiles.forEach((file) => delete previousState.baseContents[file]);
+    const baseScripts = ejectedFiles.includes('package.json') ? {} : previousState.baseScripts;
+    writeBaseSnapshot(targetDir, previousState.baseContents, diskWriter, baseScripts);
+  }
+
+  logger.info('\n⏏️  Ejected from TypeScript Bootstrap management:');
+  requestedFiles.forEach((file) => logger.info(`   - ${file}`));
+  logger.info('\n✅ These files are now owned by the project. Update will leave them untouched.\n');
+  return result;
+}
+
+export interface SwitchTemplateOptions extends UpdateOptions {
+  template: string;
+}
+
+interface TemplateSwitchReport {
+  added: string[];
+  removedPackages: string[];
+  attention: string[];
+}
+
+/**
+ * The package.json of the template a project references, or null when the template has none
+ */
+function readTemplatePackageJson(template: string, projectDir: string): Record<string, Record<string, string>> | null {
+  const templateDir = resolveTemplateDirectory(template, projectDir, PACKAGE_ROOT);
+  const packageJsonPath = templateDir && path.join(templateDir, 'package.json');
+  return packageJsonPath && fs.existsSync(packageJsonPath) ? JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')) : null;
+}
+
+/**
+ * Reshape a project for another template before the regular update merges the new template in:
+ * files only the new template has are created, and packages and scripts only the old template had
+ * are dropped from package.json. Old source files and customized scripts are kept and reported.
+ */
+function prepareTemplateSwitch(
+  fromTemplate: string,
+  toTemplate: string,
+  report: TemplateSwitchReport
+): TemplateUpdatePreparation {
+  return ({ targetDir, writer, replacements }) => {
+    const fromFiles = loadTemplate(fromTemplate, targetDir).files(replacements).filter((file) => file.origin === 'template');
+    const toFiles = loadTemplate(toTemplate, targetDir).files(replacements).filter((file) => file.origin === 'template');
+    const fromPaths = fromFiles.map((file) => file.relativePath);
+    const toPaths = toFiles.map((file) => file.relativePath);
+
+    // Other files only the old template had are removed by the update as stale managed files
+    const oldSeededFiles = fromFiles
+      .filter((file) => file.ownership === 'seeded' && !toPaths.includes(file.relativePath))
+      .map((file) => file.relativePath);
+    for (const file of oldSeededFiles.filter((entry) => writer.exists(path.join(targetDir, entry)))) {
+      report.attention.push(`${file} comes from the ${fromTemplate} template and was left intact; move its code to the ${toTemplate} entry point`);
+    }
+
+    for (const file of toFiles.filter((entry) => !fromPaths.includes(entry.relativePath) && entry.relativePath !== 'package.json')) {
+      const targetPath = path.join(targetDir, file.relativePath);
+      if (!writer.exists(targetPath)) {
+        processFileContent(file.sourcePath, targetPath, replacements, writer);
+        report.added.push(file.relativePath);
+      }
+    }
+
+    const packageJsonPath = path.join(targetDir, 'package.json');
+    const packageJson = JSON.parse(writer.readFile(packageJsonPath).toString('utf-8'));
+    const fromPackageJson = readTemplatePackageJson(fromTemplate, targetDir) ?? {};
+    const toPackageJson = readTemplatePackageJson(toTemplate, targetDir) ?? {};
+
+    for (const section of VERSIONED_SECTIONS) {
+      for (const name of Object.keys(fromPackageJson[section] ?? {})) {
+        if (packageJson[section]?.[name] !== undefined && toPackageJson[section]?.[name] === undefined) {
+          delete packageJson[section][name];
+          report.removedPackages.push(`${section}.${name}`);
+        }
+      }
+      if (packageJson[section] && Object.keys(packageJson[section]).length === 0) {
+        delete packageJson[section];
+      }
+    }
+
+    for (const [name, value] of Object.entries(fromPackageJson.scripts ?? {})) {
+      if (toPackageJson.scripts?.[name] !== undefined || packageJson.scripts?.[name] === undefined) {
+        continue;
+      }
+      if (packageJson.scripts[name] === value) {
+        delete packageJson.scripts[name];
+      } else {
+        report.attention.push(`script "${name}" was customized and kept; the ${toTemplate} template does not define it`);
+      }
+    }
+
+    packageJson.typescriptBootstrap = { ...packageJson.typescriptBootstrap, template: toTemplate };
+    writer.writeFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
   };
+}
+
+function printTemplateSwitchReport(report: TemplateSwitchReport, logger: Logger = consoleLogger): void {
+  const sections: Array<[string, string[]]> = [
+    ['➕ Added for the new template:', report.added],
+    ['📦 Packages only the old template needed, removed from package.json:', report.removedPackages],
+    ['👀 Needs manual attention:', report.attention],
+  ];
+
+  for (const [title, entries] of sections) {
+    if (entries.length > 0) {
+      logger.info(`\n${title}`);
+      entries.forEach((entry) => logger.info(`   - ${entry}`));
+    }
+  }
+}
 
+/**
+ * Convert an existing project to another template, keeping user code under src/ intact
+ */
+export async function switchTemplate(options: SwitchTemplateOptions): Promise<BootstrapResult> {
+  const targetDir = options.targetDir || process.cwd();
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const logger = options.logger ?? consoleLogger;
+
+  const toTemplate = toTemplateReference(options.template, targetDir);
+  if (!resolveTemplateDirectory(toTemplate, targetDir, PACKAGE_ROOT)) {
+    throw new BootstrapError(
+      'INVALID_TEMPLATE',
+      `Unknown template "${options.template}". Choose "typescript", "react", "library", "cli", "node-service", "monorepo", a path to a template directory ` +
+      'or the name of an installed template package.'
+    );
+  }
+
+  let packageJson;
   try {
-    // Update configuration files
-    const updatedFiles = updateTemplate(templateDir, targetDir, replacements);
-
-    // Update package.json separately (merge strategy)
-    const templatePackageJson = path.join(templateDir, 'package.json');
-    if (fs.existsSync(templatePackageJson)) {
-      updatePackageJson(templatePackageJson, packageJsonPath, replacements);
-      updatedFiles.push('package.json');
+    packageJson = JSON.parse((options.fileSystem ?? diskWriter).readFile(packageJsonPath).toString('utf-8'));
+  } catch {
+    throw new BootstrapError('PACKAGE_JSON_NOT_FOUND', `Failed to read package.json at ${packageJsonPath}. Run switch-template from a TypeScript Bootstrap project.`);
+  }
+
+  const fromTemplate = packageJson.typescriptBootstrap?.template;
+  if (!fromTemplate) {
+    throw new BootstrapError('METADATA_MISSING', 'TypeScript Bootstrap metadata is missing. Run "typescript-bootstrap update" first.');
+  }
+  if (fromTemplate === toTemplate) {
+    logger.info(`\n✅ Project already uses the ${fromTemplate} template.\n`);
+    return createResult('template-switched', fromTemplate);
+  }
+
+  if (options.dryRun) {
+    logger.info(`\n🔍 Planning template switch: ${fromTemplate} → ${toTemplate} (dry run, no files will be written)\n`);
+  } else {
+    logger.info(`\n🔁 Switching template: ${fromTemplate} → ${toTemplate}\n`);
+    logger.info('⚠️  This will convert your project:');
+    logger.info(`   • Files only the ${fromTemplate} template uses are removed unless you edited them`);
+    logger.info(`   • Files, packages and scripts of the ${toTemplate} template are added and merged`);
+    logger.info('   • Source code (src/) is left intact; anything that needs manual work is listed at the end\n');
+
+    if (!options.skipPrompts) {
+      const confirmPrompt = options.confirm ?? __internal.confirm;
+      if (!await confirmPrompt(`Switch this project to the ${toTemplate} template?`)) {
+        logger.info('\n❌ Template switch cancelled.\n');
+        return createResult('cancelled', fromTemplate);
+      }
     }
+  }
 
-    // Helper callback for update (adds to updatedFiles array)
-    const trackUpdated = (relPath: string, _absPath: string) => {
-      updatedFiles.push(relPath);
-    };
-    
-    // Copy .github/workflows from the main project (excluding publish.yml)
-    copyWorkflows(targetDir, trackUpdated);
+  const report: TemplateSwitchReport = { added: [], removedPackages: [], attention: [] };
+  const result = await applyTemplateUpdate(targetDir, packageJson, toTemplate, options, prepareTemplateSwitch(fromTemplate, toTemplate, report));
+  printTemplateSwitchReport(report, logger);
+
+  result.warnings.push(...report.attention);
+  return options.dryRun ? result : { ...result, action: 'template-switched' };
+}
 
-    // Copy .github/copilot-instructions.md from the main project
-    copyFile('.github/copilot-instructions.md', targetDir, trackUpdated);
+export interface UndoOptions {
+  targetDir?: string;
+  skipPrompts?: boolean; // For AI/programmatic use
+  confirm?: (question: string) => Promise<boolean>;
+  logger?: Logger;
+}
+
+/**
+ * Restore the files changed by the most recent update from its backup
+ */
+export async function undo(options: UndoOptions = {}): Promise<BootstrapResult> {
+  const targetDir = options.targetDir || process.cwd();
+  const logger = options.logger ?? consoleLogger;
 
-    // Copy .github/PULL_REQUEST_TEMPLATE.md from the main project
-    copyFile('.github/PULL_REQUEST_TEMPLATE.md', targetDir, trackUpdated);
+  if (!options.skipPrompts) {
+    const confirmPrompt = options.confirm ?? __internal.confirm;
+    const shouldProceed = await confirmPrompt('Restore the files changed by the last update?');
 
-    // Copy .husky directory from the main project
-    copyDirectory('.husky', targetDir, trackUpdated);
+    if (!shouldProceed) {
+      logger.info('\n❌ Undo cancelled.\n');
+      return createResult('cancelled', null);
+    }
+  }
 
-    // Copy scripts directory from the main project
-    copyDirectory('scripts', targetDir, trackUpdated);
+  const restored = restoreLatestBackup(targetDir);
+  if (!restored) {
+    throw new BootstrapError(
+      'NO_BACKUP',
+      'No update backup found. Backups are created by "typescript-bootstrap update" ' +
+      'under .github/typescript-bootstrap-backups/.'
+    );
+  }
 
-    // Copy eslint.config.js from the main project
-    copyFile('eslint.config.js', targetDir, trackUpdated);
+  logger.info(`\n⏪ Restored files from the update made at ${restored.createdAt}:`);
+  restored.files.forEach((file) => logger.info(`   - ${file}`));
+  logger.info('\n✅ Undo complete. Run "npm install" if dependencies changed.\n');
 
-    // Note: src/test.setup.ts is NOT copied during update to preserve user customizations
-    // It is only created during init and users can modify it as needed
+  const result = createResult('restored', null);
+  result.files.updated.push(...restored.files);
+  return result;
+}
 
-    // Copy .gitignore from the main project
-    copyFile('.gitignore', targetDir, trackUpdated);
+export interface StatusOptions {
+  targetDir?: string;
+  logger?: Logger;
+}
 
-    const hashManifestPath = writeScaffoldHashManifest(targetDir, template);
-    updatedFiles.push(hashManifestPath);
+export interface ManagedFileStatus {
+  file: string;
+  state: ManagedFileState;
+  // Whether the next update would change the file because the packaged template differs
+  updatePending: boolean;
+}
 
-    console.log('✅ Updated files:');
-    updatedFiles.forEach(file => console.log(`   - ${file}`));
+export interface ProjectStatus {
+  template: string;
+  files: ManagedFileStatus[];
+  // Files the next update would create; they are not tracked yet
+  newFiles: string[];
+}
 
-    console.log('\n✅ Project updated successfully!');
-    console.log('\nNext steps:');
-    console.log('  1. npm install  (to update dependencies)');
-    console.log('  2. Review changes and test your project\n');
-  } catch (error) {
-    console.error('Error updating project:', error);
-    throw error;
+/**
+ * Show the drift of every managed file against the hash manifest, and which files the next
+ * update would change. Nothing is written.
+ */
+export async function status(options: StatusOptions = {}): Promise<ProjectStatus> {
+  const targetDir = options.targetDir || process.cwd();
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const logger = options.logger ?? consoleLogger;
+  if (!fs.existsSync(packageJsonPath)) {
+    throw new BootstrapError('PACKAGE_JSON_NOT_FOUND', 'No package.json found. This doesn\'t appear to be a valid project.');
+  }
+
+  const packageJson: ProjectPackageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const template = packageJson.typescriptBootstrap?.template;
+  if (!template || !resolveTemplateDirectory(template, targetDir, PACKAGE_ROOT)) {
+    throw new BootstrapError(
+      'METADATA_MISSING',
+      'TypeScript Bootstrap metadata is missing or names an unknown template. ' +
+      'Run "typescript-bootstrap update" to choose the template first.'
+    );
+  }
+
+  // Files the template manages that exist but are not tracked by the manifest
+  const loadedTemplate = loadTemplate(template, targetDir, isWorkspacePackage(packageJson));
+  const replacements = await resolveProjectPlaceholders(loadedTemplate.manifest, packageJson, targetDir);
+  const extraFiles = listManagedFiles(loadedTemplate.files(replacements))
+    .filter((file) => fs.existsSync(path.join(targetDir, file)));
+  const entries = integrity.getIntegrityStatus({ targetDir, extraFiles });
+
+  // The next update is planned in memory only, to see which files it would touch
+  const plan = await planTemplateUpdate(targetDir, packageJson, template, { targetDir, skipPrompts: true, dryRun: true, logger: silentLogger });
+  const bookkeepingFiles = [HASH_MANIFEST_RELATIVE_PATH, BASE_SNAPSHOT_RELATIVE_PATH];
+  const pendingFiles = plan.changeSet.changes()
+    .map((change) => change.relativePath)
+    .filter((file) => !bookkeepingFiles.includes(file));
+
+  const files = entries.map((entry) => ({
+    file: entry.file,
+    state: entry.status,
+    updatePending: pendingFiles.includes(entry.file),
+  }));
+  const newFiles = pendingFiles.filter((file) => !entries.some((entry) => entry.file === file));
+
+  const STATE_COLUMN_WIDTH = 14;
+  logger.info(`\n📋 Managed files (template: ${template})\n`);
+  files.forEach((entry) => {
+    const pending = entry.updatePending ? '  ← changed by next update' : '';
+    logger.info(`   ${entry.state.padEnd(STATE_COLUMN_WIDTH)}${entry.file}${pending}`);
+  });
+  if (newFiles.length > 0) {
+    logger.info('\n🆕 Created by the next update:');
+    newFiles.forEach((file) => logger.info(`   - ${file}`));
+  }
+
+  const pendingCount = files.filter((entry) => entry.updatePending).length + newFiles.length;
+  logger.info(pendingCount > 0
+    ? `\n🔄 The next update would change ${pendingCount} file(s). Run "typescript-bootstrap plan" to see the diff.\n`
+    : '\n✅ Up to date with the packaged template.\n');
+
+  return { template, files, newFiles };
+}
+
+export interface DoctorOptions {
+  targetDir?: string;
+  environment?: DoctorEnvironment;
+  logger?: Logger;
+}
+
+function createDoctorEnvironment(targetDir: string): DoctorEnvironment {
+  return {
+    nodeVersion: process.version,
+    git: (args) => execFileSync('git', args, { cwd: targetDir, encoding: 'utf-8', stdio: 'pipe' }).trim(),
+    readTemplatePackageJson: (template) => readTemplatePackageJson(template, targetDir),
+  };
+}
+
+/**
+ * Check the health of a bootstrapped project and print every problem with a suggested fix.
+ * Returns the findings; any with severity "error" should fail the calling script.
+ */
+export async function doctor(options: DoctorOptions = {}): Promise<DoctorFinding[]> {
+  const targetDir = options.targetDir || process.cwd();
+  const findings = runDoctorChecks(targetDir, options.environment ?? createDoctorEnvironment(targetDir));
+  const logger = options.logger ?? consoleLogger;
+
+  logger.info('\n🩺 Checking project health...\n');
+  findings.forEach((finding) => {
+    logger.info(`${finding.severity === 'error' ? '❌' : '⚠️ '} ${finding.message}`);
+    logger.info(`   → ${finding.fix}`);
+  });
+
+  const errors = findings.filter((finding) => finding.severity === 'error').length;
+  if (findings.length === 0) {
+    logger.info('✅ No problems found.\n');
+  } else {
+    logger.info(`\nFound ${errors} error(s) and ${findings.length - errors} warning(s).\n`);
   }
+  return findings;
 }
 
 export const __internal = {
   confirm,
-  copyFile,
-  copyWorkflows,
   prompt,
   promptTemplateChoice,
 };
@@ -0,0 +1,35 @@
+import { loadPackagedScript } from './packaged-script.js';
+
+export interface IntegrityViolation {
+  file: string;
+  reason: 'missing-hash' | 'missing-file' | 'hash-mismatch';
+}
+
+export type ManagedFileState = 'unchanged' | 'modified' | 'missing' | 'ejected' | 'unknown-extra';
+
+export interface IntegrityStatusEntry {
+  file: string;
+  status: ManagedFileState;
+}
+
+export interface ManagedBlockRange {
+  start: number;
+  end: number;
+}
+
+interface IntegrityModule {
+  MANAGED_BLOCK_START: string;
+  MANAGED_BLOCK_END: string;
+  ManagedBlockError: new (message: string) => Error;
+  splitLines: (content: string) => string[];
+  findManagedBlock: (lines: string[]) => ManagedBlockRange | null;
+  extractManagedBlock: (content: string) => string | null;
+  verifyIntegrityAgainstManifest: (options: { targetDir: string; stagedFiles: string[] }) => {
+    ok: boolean;
+    violations: IntegrityViolation[];
+  };
+  getIntegrityStatus: (options: { targetDir: string; extraFiles?: string[] }) => IntegrityStatusEntry[];
+}
+
+// The integrity check generated projects run from their pre-commit hook
+export const integrity = loadPackagedScript<IntegrityModule>('template-integrity.cjs');
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { mergeJsonc, parseJsonc } from './jsonc.js';
+
+describe('jsonc', () => {
+  const template = `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "strict": true
+  },
+  "include": ["src"]
+}
+`;
+
+  it('should parse comments and trailing commas', () => {
+    const text = `{
+  // line comment
+  "a": [1, 2,], /* block */
+  "b": { "c": "d", },
+}`;
+
+    expect(parseJsonc(text)).toEqual({ a: [1, 2], b: { c: 'd' } });
+  });
+
+  it('should report the offset of invalid content', () => {
+    expect(() => parseJsonc('{ "a": }')).toThrow('Invalid JSONC at offset 7');
+  });
+
+  it('should return the local document when it already matches the template', () => {
+    expect(mergeJsonc(template, template, template)).toBe(template);
+  });
+
+  it('should keep user-only keys, comments and ordering while applying template values', () => {
+    const base = template.replace('ES2022', 'ES2020');
+    const local = `{
+  // project settings
+  "compilerOptions": {
+    "target": "ES2020",
+    "strict": true, // required
+    "jsx": "react-jsx"
+  },
+  "include": ["src"]
+}
+`;
+
+    expect(mergeJsonc(local, template, base)).toBe(`{
+  // project settings
+  "compilerOptions": {
+    "target": "ES2022",
+    "strict": true, // required
+    "jsx": "react-jsx"
+  },
+  "include": ["src"]
+}
+`);
+  });
+
+  it('should add new template keys after the last local key', () => {
+    const local = `{
+  "compilerOptions": {
+    "target": "ES2022" // keep me
+  },
+  "include": ["src"]
+}
+`;
+    const nextTemplate = template.replace('"strict": true', '"strict": true,\n    "noEmit": true');
+
+    expect(mergeJsonc(local, nextTemplate, template)).toBe(`{
+  "compilerOptions": {
+    "target": "ES2022", // keep me
+    "noEmit": true
+  },
+  "include": ["src"]
+}
+`);
+  });
+
+  it('should keep local values the template did not change', () => {
+    const local = template.replace('ES2022', 'ESNext');
+
+    expect(mergeJsonc(local, template, template)).toBe(local);
+  });
+
+  it('should take template values without a merge base', () => {
+    const local = template.replace('ES2022', 'ESNext');
+
+    expect(mergeJsonc(local, template, undefined)).toBe(template);
+  });
+
+  it('should enforce template-owned keys', () => {
+    const local = template.replace('"strict": true', '"strict": false');
+
+    expect(mergeJsonc(local, template, template, { 'compilerOptions.strict': 'template' })).toBe(template);
+  });
+
+  it('should never touch user-owned keys', () => {
+    const local = template.replace('"strict": true', '"strict": true,\n    "paths": { "@/*": ["./src/*"] }');
+    const nextTemplate = template.replace('"strict": true', '"strict": true,\n    "paths": {}');
+
+    const merged = mergeJsonc(local, nextTemplate, template, { 'compilerOptions.paths': 'user' });
+
+    expect(parseJsonc(merged)).toEqual(parseJsonc(local));
+  });
+
+  it('should union arrays without duplicating items', () => {
+    const local = template.replace('["src"]', '["src", "scripts"]');
+    const nextTemplate = template.replace('["src"]', '["src", "tests"]');
+
+    expect(mergeJsonc(local, nextTemplate, template)).toContain('"include": ["src", "scripts", "tests"]');
+  });
+
+  it('should not restore keys the user deleted', () => {
+    const local = template.replace('"target": "ES2022",\n    ', '');
+
+    expect(mergeJsonc(local, template, template)).toBe(local);
+  });
+
+  it('should drop keys the template removed when the user never changed them', () => {
+    const base = template.replace('"strict": true', '"strict": true,\n    "noEmit": true');
+    const local = base.replace('"include"', '"exclude": ["dist"],\n  "include"');
+
+    expect(parseJsonc(mergeJsonc(local, template, base))).toEqual({
+      compilerOptions: { target: 'ES2022', strict: true },
+      exclude: ['dist'],
+      include: ['src'],
+    });
+  });
+
+  it('should throw when the local document is not valid JSONC', () => {
+    expect(() => mergeJsonc('{ "a": ', template, template)).toThrow('Invalid JSONC');
+  });
+});
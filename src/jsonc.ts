@@ -0,0 +1,393 @@
+/**
+ * How a key in a JSONC config is merged with the template:
+ * - template: the template value always wins
+ * - user: the local value is kept whenever the key exists locally
+ * - union: arrays keep every local item and gain the missing template items
+ */
+export type JsoncMergePolicy = 'template' | 'user' | 'union';
+
+type JsoncValue = null | boolean | number | string | JsoncValue[] | { [key: string]: JsoncValue };
+
+type JsoncNode =
+  | { type: 'object'; start: number; end: number; properties: JsoncProperty[] }
+  | { type: 'array'; start: number; end: number; items: JsoncNode[] }
+  | { type: 'literal'; start: number; end: number; value: JsoncValue };
+
+interface JsoncProperty {
+  key: string;
+  start: number;
+  value: JsoncNode;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const DEFAULT_INDENT_UNIT = '  ';
+const LITERAL_PATTERN = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/;
+
+/**
+ * Parser for JSON with comments and trailing commas that keeps the offset of every node
+ */
+class JsoncParser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): JsoncNode {
+    const node = this.parseValue();
+    this.skipTrivia();
+    if (this.position < this.text.length) {
+      this.fail('Unexpected content after the root value');
+    }
+    return node;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid JSONC at offset ${this.position}: ${message}`);
+  }
+
+  private skipTrivia(): void {
+    while (this.position < this.text.length) {
+      const rest = this.text.slice(this.position);
+      const trivia = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest);
+      if (!trivia) {
+        return;
+      }
+      this.position += trivia[0].length;
+    }
+  }
+
+  private parseValue(): JsoncNode {
+    this.skipTrivia();
+    const start = this.position;
+    const char = this.text[this.position];
+
+    if (char === '{') {
+      return this.parseObject(start);
+    }
+    if (char === '[') {
+      return this.parseArray(start);
+    }
+    if (char === '"') {
+      return { type: 'literal', start, end: this.skipString(), value: JSON.parse(this.text.slice(start, this.position)) };
+    }
+
+    const literal = LITERAL_PATTERN.exec(this.text.slice(this.position));
+    if (!literal) {
+      this.fail('Expected a value');
+    }
+    this.position += literal[0].length;
+    return { type: 'literal', start, end: this.position, value: JSON.parse(literal[0]) };
+  }
+
+  private skipString(): number {
+    const string = /^"(?:[^"\\\n]|\\.)*"/.exec(this.text.slice(this.position));
+    if (!string) {
+      this.fail('Unterminated string');
+    }
+    this.position += string[0].length;
+    return this.position;
+  }
+
+  private parseObject(start: number): JsoncNode {
+    const properties: JsoncProperty[] = [];
+    this.position++;
+
+    for (;;) {
+      this.skipTrivia();
+      if (this.text[this.position] === '}') {
+        break;
+      }
+      if (this.text[this.position] !== '"') {
+        this.fail('Expected a property name');
+      }
+
+      const keyStart = this.position;
+      const key = JSON.parse(this.text.slice(keyStart, this.skipString()));
+      this.skipTrivia();
+      if (this.text[this.position] !== ':') {
+        this.fail('Expected ":"');
+      }
+      this.position++;
+      properties.push({ key, start: keyStart, value: this.parseValue() });
+
+      this.skipTrivia();
+      if (this.text[this.position] === ',') {
+        this.position++;
+      } else if (this.text[this.position] !== '}') {
+        this.fail('Expected "," or "}"');
+      }
+    }
+
+    this.position++;
+    return { type: 'object', start, end: this.position, properties };
+  }
+
+  private parseArray(start: number): JsoncNode {
+    const items: JsoncNode[] = [];
+    this.position++;
+
+    for (;;) {
+      this.skipTrivia();
+      if (this.text[this.position] === ']') {
+        break;
+      }
+      items.push(this.parseValue());
+
+      this.skipTrivia();
+      if (this.text[this.position] === ',') {
+        this.position++;
+      } else if (this.text[this.position] !== ']') {
+        this.fail('Expected "," or "]"');
+      }
+    }
+
+    this.position++;
+    return { type: 'array', start, end: this.position, items };
+  }
+}
+
+function toValue(node: JsoncNode): JsoncValue {
+  if (node.type === 'object') {
+    return Object.fromEntries(node.properties.map((property) => [property.key, toValue(property.value)]));
+  }
+  if (node.type === 'array') {
+    return node.items.map(toValue);
+  }
+  return node.value;
+}
+
+/**
+ * Parse JSON with comments and trailing commas into a plain value
+ */
+export function parseJsonc(text: string): JsoncValue {
+  return toValue(new JsoncParser(text).parse());
+}
+
+function isPlainObject(value: JsoncValue | undefined): value is { [key: string]: JsoncValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(left: JsoncValue | undefined, right: JsoncValue | undefined): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Text edits that merge a template value into a parsed local document without reformatting it
+ */
+class JsoncMerger {
+  readonly edits: TextEdit[] = [];
+
+  constructor(
+    private readonly text: string,
+    private readonly indentUnit: string,
+    private readonly policies: Record<string, JsoncMergePolicy>
+  ) {}
+
+  mergeObject(
+    node: Extract<JsoncNode, { type: 'object' }>,
+    template: { [key: string]: JsoncValue },
+    base: JsoncValue | undefined,
+    prefix: string
+  ): void {
+    const baseObject = isPlainObject(base) ? base : undefined;
+
+    // Keys the template dropped are removed when the user never changed them
+    const hasRemovals = node.properties.some((property) => {
+      const keyPath = prefix ? `${prefix}.${property.key}` : property.key;
+      return !(property.key in template)
+        && this.policies[keyPath] !== 'user'
+        && baseObject?.[property.key] !== undefined
+        && deepEqual(toValue(property.value), baseObject[property.key]);
+    });
+    if (hasRemovals) {
+      // Rewrite the object when keys disappear, keeping local key order
+      this.replace(node, this.applyToValue(toValue(node), template, baseObject, prefix));
+      return;
+    }
+
+    const additions: Array<[string, JsoncValue]> = [];
+
+    for (const [key, templateValue] of Object.entries(template)) {
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      const policy = this.policies[keyPath];
+      const property = node.properties.find((entry) => entry.key === key);
+
+      if (!property) {
+        // A template key the user deleted stays deleted unless the template owns it
+        if (policy === 'template' || baseObject?.[key] === undefined) {
+          additions.push([key, templateValue]);
+        }
+        continue;
+      }
+      if (policy !== 'user') {
+        this.mergeValue(property.value, templateValue, baseObject?.[key], keyPath, policy);
+      }
+    }
+
+    this.appendEntries(node, node.properties.map((property) => property.value), additions);
+  }
+
+  private mergeValue(
+    node: JsoncNode,
+    templateValue: JsoncValue,
+    baseValue: JsoncValue | undefined,
+    keyPath: string,
+    policy: JsoncMergePolicy | undefined
+  ): void {
+    if (policy !== 'template' && node.type === 'object' && isPlainObject(templateValue)) {
+      this.mergeObject(node, templateValue, baseValue, keyPath);
+      return;
+    }
+
+    if (policy !== 'template' && node.type === 'array' && Array.isArray(templateValue)) {
+      const localItems = node.items.map(toValue);
+      const missing = templateValue.filter((item) => !localItems.some((local) => deepEqual(local, item)));
+      this.appendEntries(node, node.items, missing.map((item) => [null, item]));
+      return;
+    }
+
+    const localValue = toValue(node);
+    const templateUnchanged = baseValue !== undefined && deepEqual(baseValue, templateValue);
+    if (!deepEqual(localValue, templateValue) && (policy === 'template' || !templateUnchanged)) {
+      this.replace(node, templateValue);
+    }
+  }
+
+  /**
+   * Plain-value version of the merge, used when an object has to be rewritten
+   */
+  private applyToValue(
+    local: JsoncValue,
+    template: { [key: string]: JsoncValue },
+    base: { [key: string]: JsoncValue } | undefined,
+    prefix: string
+  ): JsoncValue {
+    const result: { [key: string]: JsoncValue } = {};
+    const localObject = isPlainObject(local) ? local : {};
+
+    for (const [key, localValue] of Object.entries(localObject)) {
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      const policy = this.policies[keyPath];
+      if (!(key in template)) {
+        const droppedByTemplate = policy !== 'user' && base?.[key] !== undefined && deepEqual(localValue, base[key]);
+        if (!droppedByTemplate) {
+          result[key] = localValue;
+        }
+      } else if (policy === 'user') {
+        result[key] = localValue;
+      } else if (policy !== 'template' && isPlainObject(localValue) && isPlainObject(template[key])) {
+        result[key] = this.applyToValue(localValue, template[key], isPlainObject(base?.[key]) ? base[key] : undefined, keyPath);
+      } else if (policy !== 'template' && Array.isArray(localValue) && Array.isArray(template[key])) {
+        const missing = template[key].filter((item) => !localValue.some((entry) => deepEqual(entry, item)));
+        result[key] = [...localValue, ...missing];
+      } else {
+        const templateUnchanged = base?.[key] !== undefined && deepEqual(base[key], template[key]);
+        result[key] = policy !== 'template' && templateUnchanged ? localValue : template[key];
+      }
+    }
+
+    for (const [key, templateValue] of Object.entries(template)) {
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      if (!(key in localObject) && (this.policies[keyPath] === 'template' || base?.[key] === undefined)) {
+        result[key] = templateValue;
+      }
+    }
+    return result;
+  }
+
+  private lineIndent(offset: number): string {
+    const lineStart = this.text.lastIndexOf('\n', offset - 1) + 1;
+    return /^[ \t]*/.exec(this.text.slice(lineStart))?.[0] ?? '';
+  }
+
+  private format(value: JsoncValue, indent: string): string {
+    return JSON.stringify(value, null, this.indentUnit).split('\n').join(`\n${indent}`);
+  }
+
+  private replace(node: JsoncNode, value: JsoncValue): void {
+    this.edits.push({ start: node.start, end: node.end, text: this.format(value, this.lineIndent(node.start)) });
+  }
+
+  /**
+   * Insert properties (key set) or array items (key null) after the last existing entry,
+   * keeping its trailing comma and same-line comment where they are
+   */
+  private appendEntries(node: JsoncNode, existing: JsoncNode[], entries: Array<[string | null, JsoncValue]>): void {
+    if (entries.length === 0) {
+      return;
+    }
+
+    const isObject = node.type === 'object';
+    const render = ([key, value]: [string | null, JsoncValue], indent: string) =>
+      `${key === null ? '' : `${JSON.stringify(key)}: `}${this.format(value, indent)}`;
+
+    if (existing.length === 0) {
+      const value = isObject
+        ? Object.fromEntries(entries.map(([key, entry]) => [key as string, entry]))
+        : entries.map(([, entry]) => entry);
+      this.replace(node, value);
+      return;
+    }
+
+    const last = existing[existing.length - 1];
+    const lastStart = isObject && node.type === 'object' ? node.properties[node.properties.length - 1].start : last.start;
+    const multiline = this.text.slice(node.start, node.end).includes('\n');
+    const indent = multiline ? this.lineIndent(lastStart) : '';
+    const separator = multiline ? `\n${indent}` : ' ';
+
+    const afterValue = /^[ \t]*(,?)[ \t]*(\/\/[^\n]*|\/\*.*?\*\/)?/.exec(this.text.slice(last.end));
+    const hasComma = Boolean(afterValue?.[1]);
+    const insertAt = multiline ? last.end + (afterValue?.[0].length ?? 0) : last.end + (hasComma ? 1 : 0);
+    const rendered = entries.map((entry) => render(entry, indent)).join(`,${separator}`);
+
+    if (hasComma) {
+      this.edits.push({ start: insertAt, end: insertAt, text: `${separator}${rendered},` });
+    } else if (insertAt === last.end) {
+      this.edits.push({ start: insertAt, end: insertAt, text: `,${separator}${rendered}` });
+    } else {
+      this.edits.push({ start: last.end, end: last.end, text: ',' });
+      this.edits.push({ start: insertAt, end: insertAt, text: `${separator}${rendered}` });
+    }
+  }
+}
+
+function detectIndentUnit(text: string): string {
+  return /\n([ \t]+)\S/.exec(text)?.[1] ?? DEFAULT_INDENT_UNIT;
+}
+
+/**
+ * Merge a template JSONC document into the local one. Template keys are applied, user-only keys,
+ * comments and ordering are preserved, and keys the template dropped are removed when the user never
+ * changed them. With a base (the template content written last time), local changes to values the
+ * template did not change are kept. Throws when either document is not valid JSONC.
+ */
+export function mergeJsonc(
+  local: string,
+  template: string,
+  base: string | undefined,
+  policies: Record<string, JsoncMergePolicy> = {}
+): string {
+  const localRoot = new JsoncParser(local).parse();
+  const templateValue = parseJsonc(template);
+  let baseValue: JsoncValue | undefined;
+  try {
+    baseValue = base === undefined ? undefined : parseJsonc(base);
+  } catch {
+    baseValue = undefined;
+  }
+
+  if (localRoot.type !== 'object' || !isPlainObject(templateValue)) {
+    throw new Error('Only JSONC objects can be merged');
+  }
+
+  const merger = new JsoncMerger(local, detectIndentUnit(local), policies);
+  merger.mergeObject(localRoot, templateValue, baseValue, '');
+
+  return merger.edits
+    .sort((left, right) => right.start - left.start)
+    .reduce((text, edit) => `${text.slice(0, edit.start)}${edit.text}${text.slice(edit.end)}`, local);
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createConsoleLogger, silentLogger } from './logger.js';
+
+describe('logger', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should print info, warnings and errors but not debug output by default', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const logger = createConsoleLogger();
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error', 1);
+
+    expect(log.mock.calls).toEqual([['info'], ['warn']]);
+    expect(error).toHaveBeenCalledWith('error', 1);
+  });
+
+  it('should drop messages below the configured level', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    createConsoleLogger('debug').debug('shown');
+    createConsoleLogger('error').warn('hidden');
+    silentLogger.error('hidden');
+
+    expect(log.mock.calls).toEqual([['shown']]);
+    expect(error).not.toHaveBeenCalled();
+  });
+});
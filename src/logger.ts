@@ -0,0 +1,34 @@
+/**
+ * Destination for human-readable progress output of the bootstrap commands
+ */
+export interface Logger {
+  debug: (...message: unknown[]) => void;
+  info: (...message: unknown[]) => void;
+  warn: (...message: unknown[]) => void;
+  error: (...message: unknown[]) => void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/**
+ * Logger that prints messages at or above the given level. Everything but errors goes to
+ * stdout, so warnings stay in order with the progress output around them.
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const enabled = (messageLevel: LogLevel) => LOG_LEVELS.indexOf(messageLevel) >= LOG_LEVELS.indexOf(level);
+  return {
+    debug: (...message) => enabled('debug') && console.log(...message),
+    info: (...message) => enabled('info') && console.log(...message),
+    warn: (...message) => enabled('warn') && console.log(...message),
+    error: (...message) => enabled('error') && console.error(...message),
+  };
+}
+
+export const consoleLogger: Logger = createConsoleLogger();
+
+/**
+ * Logger that drops everything, used when the caller renders its own output (e.g. --json)
+ */
+export const silentLogger: Logger = createConsoleLogger('silent');
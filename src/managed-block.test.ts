@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MANAGED_BLOCK_END,
+  MANAGED_BLOCK_START,
+  applyManagedBlock,
+  extractManagedBlock,
+  renderManagedBlock,
+} from './managed-block.js';
+
+describe('managed-block', () => {
+  const body = 'node_modules\ndist\n';
+  const block = `${MANAGED_BLOCK_START}\nnode_modules\ndist\n${MANAGED_BLOCK_END}\n`;
+
+  it('should wrap content in the block markers', () => {
+    expect(renderManagedBlock(body)).toBe(block);
+  });
+
+  it('should write just the block to a new file', () => {
+    expect(applyManagedBlock(null, body)).toBe(block);
+  });
+
+  it('should rewrite the block in place, keeping lines above and below', () => {
+    const existing = `.env\n${renderManagedBlock('node_modules\n')}generated/\n`;
+
+    expect(applyManagedBlock(existing, body)).toBe(`.env\n${block}generated/\n`);
+  });
+
+  it('should keep user lines of a file written whole by an older bootstrap', () => {
+    const existing = 'node_modules\ndist\n.env\n';
+
+    expect(applyManagedBlock(existing, body)).toBe(`${block}\n.env\n`);
+  });
+
+  it('should extract the block with its markers', () => {
+    expect(extractManagedBlock(`.env\n${block}generated/\n`)).toBe(block);
+    expect(extractManagedBlock('.env\n')).toBeNull();
+  });
+
+  it('should reject a block without its end marker', () => {
+    expect(() => applyManagedBlock(`${MANAGED_BLOCK_START}\nnode_modules\n`, body)).toThrow(expect.objectContaining({
+      code: 'INVALID_MANAGED_BLOCK',
+      message: expect.stringContaining('Unterminated typescript-bootstrap block'),
+    }));
+  });
+
+  it('should reject an unterminated block instead of hashing the whole file', () => {
+    expect(() => extractManagedBlock(`.env\n${MANAGED_BLOCK_START}\nnode_modules\n`)).toThrow(expect.objectContaining({
+      code: 'INVALID_MANAGED_BLOCK',
+    }));
+    expect(() => extractManagedBlock(`node_modules\n${MANAGED_BLOCK_END}\n`)).toThrow(expect.objectContaining({
+      code: 'INVALID_MANAGED_BLOCK',
+    }));
+  });
+});
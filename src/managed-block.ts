@@ -0,0 +1,62 @@
+import { integrity } from './integrity.js';
+import { BootstrapError } from './result.js';
+
+// The integrity script hashes just this block, so it owns the markers and the parsing
+export const { MANAGED_BLOCK_START, MANAGED_BLOCK_END } = integrity;
+const { splitLines } = integrity;
+
+/**
+ * Line-based files where the bootstrap only owns a marker-delimited block
+ */
+export const MANAGED_BLOCK_FILES = ['.gitignore'];
+
+// A marker without its pair fails with a stable code rather than as an unexpected error
+function withBlockErrors<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof integrity.ManagedBlockError) {
+      throw new BootstrapError('INVALID_MANAGED_BLOCK', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wrap content in the managed block markers
+ */
+export function renderManagedBlock(body: string): string {
+  return `${[MANAGED_BLOCK_START, ...splitLines(body), MANAGED_BLOCK_END].join('\n')}\n`;
+}
+
+/**
+ * The managed block of a file including its markers, or null when the file has none
+ */
+export function extractManagedBlock(content: string): string | null {
+  return withBlockErrors(() => integrity.extractManagedBlock(content));
+}
+
+/**
+ * Write body into the managed block of a file, leaving the lines above and below untouched.
+ * A new file gets just the block. An existing file without markers was written whole by an
+ * older bootstrap: lines already in the block are dropped and the rest are kept below it.
+ */
+export function applyManagedBlock(existing: string | null, body: string): string {
+  const block = renderManagedBlock(body);
+  if (existing === null || existing.trim() === '') {
+    return block;
+  }
+
+  const lines = splitLines(existing);
+  const range = withBlockErrors(() => integrity.findManagedBlock(lines));
+  if (range) {
+    const before = lines.slice(0, range.start);
+    const after = lines.slice(range.end + 1);
+    const trailingNewline = existing.endsWith('\n') ? '\n' : '';
+    return `${[...before, ...splitLines(block), ...after].join('\n')}${trailingNewline}`;
+  }
+
+  const blockLines = new Set(splitLines(body).filter((line) => line.trim() !== ''));
+  const userLines = lines.filter((line) => !blockLines.has(line)).join('\n').trim();
+  return userLines ? `${block}\n${userLines}\n` : block;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { createChangeSet } from './changeset.js';
+import { createMemoryVolume } from './memory-volume.js';
+
+describe('memory-volume', () => {
+  const rootDir = path.resolve('/virtual/project');
+
+  it('should read, write and remove files without touching the disk', () => {
+    const volume = createMemoryVolume({ [path.join(rootDir, 'package.json')]: '{}' });
+    const filePath = path.join(rootDir, 'src', 'main.ts');
+
+    volume.writeFile(filePath, 'export {};\n');
+    volume.removeFile(path.join(rootDir, 'package.json'));
+
+    expect(volume.exists(filePath)).toBe(true);
+    expect(volume.readFile(filePath).toString('utf-8')).toBe('export {};\n');
+    expect(volume.exists(path.join(rootDir, 'package.json'))).toBe(false);
+    expect(() => volume.readFile(path.join(rootDir, 'package.json'))).toThrow('ENOENT');
+  });
+
+  it('should list the files below a directory by relative path', () => {
+    const volume = createMemoryVolume({
+      [path.join(rootDir, 'b.txt')]: 'b',
+      [path.join(rootDir, 'nested', 'a.txt')]: Buffer.from('a'),
+      [path.resolve('/virtual/other.txt')]: 'outside',
+    });
+
+    expect(volume.files(rootDir)).toEqual({
+      'b.txt': Buffer.from('b'),
+      'nested/a.txt': Buffer.from('a'),
+    });
+  });
+
+  it('should list the directories directly inside a directory', () => {
+    const volume = createMemoryVolume({
+      [path.join(rootDir, 'package.json')]: '{}',
+      [path.join(rootDir, 'packages', 'web', 'package.json')]: '{}',
+      [path.join(rootDir, 'packages', 'api', 'src', 'main.ts')]: '',
+      [path.resolve('/virtual/other/file.txt')]: 'outside',
+    });
+
+    expect(volume.listDirectories(rootDir)).toEqual(['packages']);
+    expect(volume.listDirectories(path.join(rootDir, 'packages'))).toEqual(['api', 'web']);
+  });
+
+  it('should serve as the base of a change set', () => {
+    const volume = createMemoryVolume({ [path.join(rootDir, 'config.json')]: 'old' });
+    const changeSet = createChangeSet(rootDir, volume);
+
+    changeSet.writeFile(path.join(rootDir, 'config.json'), 'new');
+
+    expect(changeSet.changes()).toEqual([
+      { relativePath: 'config.json', previousContent: Buffer.from('old'), content: Buffer.from('new') },
+    ]);
+    expect(volume.readFile(path.join(rootDir, 'config.json')).toString('utf-8')).toBe('old');
+  });
+});
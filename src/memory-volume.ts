@@ -0,0 +1,59 @@
+import * as path from 'path';
+import type { FileWriter } from './changeset.js';
+
+/**
+ * File system kept entirely in memory, for generating a project to inspect, archive or diff before
+ * anything is written to disk
+ */
+export interface MemoryVolume extends FileWriter {
+  listDirectories(dirPath: string): string[];
+  // Files below rootDir keyed by their path relative to it, with forward slashes
+  files(rootDir: string): Record<string, Buffer>;
+}
+
+function toBuffer(content: string | Buffer): Buffer {
+  return typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+}
+
+/**
+ * Create an in-memory volume, optionally seeded with files keyed by path
+ */
+export function createMemoryVolume(initialFiles: Record<string, string | Buffer> = {}): MemoryVolume {
+  const contents = new Map<string, Buffer>(
+    Object.entries(initialFiles).map(([filePath, content]) => [path.resolve(filePath), toBuffer(content)])
+  );
+
+  return {
+    exists: (filePath) => contents.has(path.resolve(filePath)),
+    readFile: (filePath) => {
+      const content = contents.get(path.resolve(filePath));
+      if (!content) {
+        throw new Error(`ENOENT: no such file in memory volume, ${filePath}`);
+      }
+      return content;
+    },
+    writeFile: (filePath, content) => {
+      contents.set(path.resolve(filePath), toBuffer(content));
+    },
+    removeFile: (filePath) => {
+      contents.delete(path.resolve(filePath));
+    },
+    listDirectories: (dirPath) => {
+      const directory = path.resolve(dirPath);
+      const names = [...contents.keys()]
+        .map((absolutePath) => path.relative(directory, absolutePath).split(path.sep))
+        .filter((segments) => segments.length > 1 && segments[0] !== '..')
+        .map(([name]) => name);
+      return [...new Set(names)].sort((left, right) => left.localeCompare(right));
+    },
+    files: (rootDir) => {
+      const root = path.resolve(rootDir);
+      const entries = [...contents.entries()]
+        .map(([absolutePath, content]): [string, Buffer] => [path.relative(root, absolutePath), content])
+        .filter(([relativePath]) => !relativePath.startsWith('..') && !path.isAbsolute(relativePath))
+        .map(([relativePath, content]): [string, Buffer] => [relativePath.split(path.sep).join('/'), content])
+        .sort(([left], [right]) => left.localeCompare(right));
+      return Object.fromEntries(entries);
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { mergeThreeWay } from './merge.js';
+
+describe('merge', () => {
+  const base = `${['one', 'two', 'three', 'four', 'five', 'six', 'seven'].join('\n')}\n`;
+
+  it('should take the template when only the template changed', () => {
+    const template = base.replace('two', 'TWO');
+
+    expect(mergeThreeWay(base, base, template)).toEqual({ content: template, conflicts: 0 });
+  });
+
+  it('should keep local edits when only the local file changed', () => {
+    const local = base.replace('six', 'SIX');
+
+    expect(mergeThreeWay(base, local, base)).toEqual({ content: local, conflicts: 0 });
+  });
+
+  it('should combine non-overlapping local and template edits', () => {
+    const local = `${base}local addition\n`;
+    const template = base.replace('one', 'ONE');
+
+    const result = mergeThreeWay(base, local, template);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe(`${template}local addition\n`);
+  });
+
+  it('should accept identical edits made on both sides', () => {
+    const edited = base.replace('four', 'FOUR');
+
+    expect(mergeThreeWay(base, edited, edited)).toEqual({ content: edited, conflicts: 0 });
+  });
+
+  it('should write conflict markers when both sides change the same lines', () => {
+    const local = base.replace('four', 'local four');
+    const template = base.replace('four', 'template four');
+
+    const result = mergeThreeWay(base, local, template);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe([
+      'one',
+      'two',
+      'three',
+      '<<<<<<< local',
+      'local four',
+      '=======',
+      'template four',
+      '>>>>>>> template',
+      'five',
+      'six',
+      'seven',
+      '',
+    ].join('\n'));
+  });
+
+  it('should conflict on the whole file when there is no common base', () => {
+    const result = mergeThreeWay('', 'local\n', 'template\n');
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe('<<<<<<< local\nlocal\n=======\ntemplate\n>>>>>>> template\n');
+  });
+});
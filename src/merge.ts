@@ -0,0 +1,127 @@
+import { diffLines, splitLines } from './diff.js';
+
+export const CONFLICT_START_MARKER = '<<<<<<< local';
+export const CONFLICT_SEPARATOR_MARKER = '=======';
+export const CONFLICT_END_MARKER = '>>>>>>> template';
+
+type ChangeHunk = {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+  side: 'local' | 'template';
+};
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Group a line diff against the base into replaced base ranges
+ */
+function collectHunks(base: string[], side: string[], sideName: ChangeHunk['side']): ChangeHunk[] {
+  const hunks: ChangeHunk[] = [];
+  let current: ChangeHunk | null = null;
+  let baseIndex = 0;
+
+  for (const operation of diffLines(base, side)) {
+    if (operation.kind === 'equal') {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      baseIndex++;
+      continue;
+    }
+
+    current ??= { baseStart: baseIndex, baseEnd: baseIndex, lines: [], side: sideName };
+    if (operation.kind === 'remove') {
+      baseIndex++;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(operation.line);
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+function applyHunks(base: string[], start: number, end: number, hunks: ChangeHunk[]): string[] {
+  const lines: string[] = [];
+  let position = start;
+
+  for (const hunk of hunks) {
+    lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+    position = hunk.baseEnd;
+  }
+
+  lines.push(...base.slice(position, end));
+  return lines;
+}
+
+/**
+ * Line-based three-way merge: changes made on one side only are applied,
+ * overlapping changes that differ are written between conflict markers
+ */
+export function mergeThreeWay(base: string, local: string, template: string): MergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...collectHunks(baseLines, splitLines(local), 'local'),
+    ...collectHunks(baseLines, splitLines(template), 'template'),
+  ].sort((left, right) => left.baseStart - right.baseStart || left.baseEnd - right.baseEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    const region = [hunks[index]];
+    const regionStart = hunks[index].baseStart;
+    let regionEnd = hunks[index].baseEnd;
+    index++;
+
+    // Touching or overlapping hunks are resolved together, like git does
+    while (index < hunks.length && hunks[index].baseStart <= regionEnd) {
+      region.push(hunks[index]);
+      regionEnd = Math.max(regionEnd, hunks[index].baseEnd);
+      index++;
+    }
+
+    output.push(...baseLines.slice(cursor, regionStart));
+
+    const localHunks = region.filter((hunk) => hunk.side === 'local');
+    const templateHunks = region.filter((hunk) => hunk.side === 'template');
+    const localLines = applyHunks(baseLines, regionStart, regionEnd, localHunks);
+    const templateLines = applyHunks(baseLines, regionStart, regionEnd, templateHunks);
+
+    if (templateHunks.length === 0) {
+      output.push(...localLines);
+    } else if (localHunks.length === 0 || localLines.join('\n') === templateLines.join('\n')) {
+      output.push(...templateLines);
+    } else {
+      output.push(
+        CONFLICT_START_MARKER,
+        ...localLines,
+        CONFLICT_SEPARATOR_MARKER,
+        ...templateLines,
+        CONFLICT_END_MARKER
+      );
+      conflicts++;
+    }
+
+    cursor = regionEnd;
+  }
+
+  output.push(...baseLines.slice(cursor));
+
+  const trailingNewline = local.endsWith('\n') || template.endsWith('\n');
+  const content = output.join('\n');
+  return {
+    content: trailingNewline && content !== '' ? `${content}\n` : content,
+    conflicts,
+  };
+}
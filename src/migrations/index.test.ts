@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createChangeSet } from '../changeset.js';
+import { runMigrations, selectPendingMigrations, type Migration, type MigrationContext } from './index.js';
+
+function defineMigration(version: string, migrate: Migration['migrate'] = () => {}): Migration {
+  return { version, description: `migration ${version}`, migrate };
+}
+
+// Example migrations in the shape real ones take, exercised against a fixture project
+const renameScript: Migration = defineMigration('2.0.0', ({ targetDir, writer }: MigrationContext) => {
+  const packageJsonPath = path.join(targetDir, 'package.json');
+  const packageJson = JSON.parse(writer.readFile(packageJsonPath).toString('utf-8'));
+  if (packageJson.scripts?.['test:ci'] === undefined) {
+    return;
+  }
+
+  packageJson.scripts['test:junit'] = packageJson.scripts['test:ci'];
+  delete packageJson.scripts['test:ci'];
+  writer.writeFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+});
+
+const removeObsoleteConfig: Migration = defineMigration('2.1.0', ({ targetDir, writer }: MigrationContext) => {
+  writer.removeFile(path.join(targetDir, '.eslintrc.json'));
+});
+
+describe('migrations', () => {
+  describe('selectPendingMigrations', () => {
+    const migrations = [defineMigration('1.10.0'), defineMigration('1.2.0'), defineMigration('1.9.0')];
+
+    it('should select migrations after the recorded version up to the running version, in order', () => {
+      expect(selectPendingMigrations('1.2.0', '1.10.0', migrations).map(({ version }) => version))
+        .toEqual(['1.9.0', '1.10.0']);
+    });
+
+    it('should skip migrations newer than the running version', () => {
+      expect(selectPendingMigrations('1.0.0', '1.9.5', migrations).map(({ version }) => version))
+        .toEqual(['1.2.0', '1.9.0']);
+    });
+
+    it('should select every migration when the project has no recorded version', () => {
+      expect(selectPendingMigrations(undefined, '1.10.0', migrations)).toHaveLength(migrations.length);
+    });
+  });
+
+  describe('runMigrations against a fixture project', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-bootstrap-migrations-'));
+      fs.writeFileSync(
+        path.join(testDir, 'package.json'),
+        `${JSON.stringify({ name: 'fixture', scripts: { 'test:ci': 'vitest --reporter=junit' } }, null, 2)}\n`,
+        'utf-8'
+      );
+      fs.writeFileSync(path.join(testDir, '.eslintrc.json'), '{}', 'utf-8');
+    });
+
+    afterEach(() => {
+      fs.rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should stage every pending migration without touching the disk', () => {
+      const changeSet = createChangeSet(testDir);
+
+      const applied = runMigrations({ targetDir: testDir, writer: changeSet }, '1.0.0', '2.1.0', [
+        removeObsoleteConfig,
+        renameScript,
+      ]);
+
+      expect(applied).toEqual([renameScript, removeObsoleteConfig]);
+      expect(changeSet.changes().map(({ relativePath, content }) => [relativePath, content === null]))
+        .toEqual([['.eslintrc.json', true], ['package.json', false]]);
+      const packageJson = JSON.parse(changeSet.readFile(path.join(testDir, 'package.json')).toString('utf-8'));
+      expect(packageJson.scripts).toEqual({ 'test:junit': 'vitest --reporter=junit' });
+      expect(fs.existsSync(path.join(testDir, '.eslintrc.json'))).toBe(true);
+    });
+
+    it('should leave an already migrated project unchanged', () => {
+      const changeSet = createChangeSet(testDir);
+      const context = { targetDir: testDir, writer: changeSet };
+      runMigrations(context, undefined, '2.1.0', [renameScript, removeObsoleteConfig]);
+      const firstRun = changeSet.changes();
+
+      runMigrations(context, undefined, '2.1.0', [renameScript, removeObsoleteConfig]);
+
+      expect(changeSet.changes()).toEqual(firstRun);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import type { FileWriter } from '../changeset.js';
+import { compareVersionStrings } from '../dependencies.js';
+import { removeLegacyEslintConfig } from './remove-legacy-eslint-config.js';
+
+/**
+ * Project access given to a migration; every write goes through the update's change set,
+ * so migrations are previewed by dry runs, backed up and undone like any other update change
+ */
+export interface MigrationContext {
+  targetDir: string;
+  writer: FileWriter;
+}
+
+/**
+ * A change to existing projects that copying template files cannot express, such as renaming a
+ * script or deleting an obsolete config. Migrations must be idempotent: running one twice, or on
+ * a project that never had the old layout, leaves the project unchanged.
+ */
+export interface Migration {
+  // Bootstrap version that ships the migration; it runs when updating from an older version
+  version: string;
+  description: string;
+  migrate(context: MigrationContext): void;
+}
+
+// Add new migrations at the end; they run in version order
+export const MIGRATIONS: Migration[] = [removeLegacyEslintConfig];
+
+/**
+ * Migrations newer than the version recorded in the project, up to the running bootstrap version.
+ * Projects without a recorded version get every migration, which is safe because they are idempotent.
+ */
+export function selectPendingMigrations(
+  fromVersion: string | undefined,
+  toVersion: string,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  return migrations
+    .filter((migration) => !fromVersion || compareVersionStrings(migration.version, fromVersion) > 0)
+    .filter((migration) => compareVersionStrings(migration.version, toVersion) <= 0)
+    .sort((left, right) => compareVersionStrings(left.version, right.version));
+}
+
+/**
+ * Run every pending migration in order and return the ones that ran
+ */
+export function runMigrations(
+  context: MigrationContext,
+  fromVersion: string | undefined,
+  toVersion: string,
+  migrations: Migration[] = MIGRATIONS
+): Migration[] {
+  const pending = selectPendingMigrations(fromVersion, toVersion, migrations);
+  pending.forEach((migration) => migration.migrate(context));
+  return pending;
+}
@@ -0,0 +1,24 @@
+import * as path from 'path';
+import type { Migration } from './index.js';
+
+// Config files ESLint 9 no longer reads; the template's eslint.config.js replaces all of them
+const LEGACY_ESLINT_FILES = [
+  '.eslintrc',
+  '.eslintrc.js',
+  '.eslintrc.cjs',
+  '.eslintrc.json',
+  '.eslintrc.yml',
+  '.eslintrc.yaml',
+  '.eslintignore',
+];
+
+export const removeLegacyEslintConfig: Migration = {
+  version: '1.31.0',
+  description: 'Remove legacy .eslintrc and .eslintignore files superseded by eslint.config.js',
+  migrate({ targetDir, writer }) {
+    LEGACY_ESLINT_FILES
+      .map((file) => path.join(targetDir, file))
+      .filter((filePath) => writer.exists(filePath))
+      .forEach((filePath) => writer.removeFile(filePath));
+  },
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { applyScriptResolution, mergeScripts } from './package-scripts.js';
+
+describe('package-scripts', () => {
+  describe('mergeScripts', () => {
+    const base = { dev: 'vite', test: 'vitest' };
+
+    it('should take the template value for scripts still matching the base', () => {
+      const result = mergeScripts({ dev: 'vite', test: 'vitest' }, { dev: 'vite --host', test: 'vitest' }, base);
+
+      expect(result).toEqual({ scripts: { dev: 'vite --host', test: 'vitest' }, conflicts: [] });
+    });
+
+    it('should keep scripts changed only locally and custom scripts', () => {
+      const result = mergeScripts({ dev: 'vite', test: 'vitest --reporter=junit', custom: 'echo hi' }, base, base);
+
+      expect(result.scripts).toEqual({ dev: 'vite', test: 'vitest --reporter=junit', custom: 'echo hi' });
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should restore template scripts missing locally', () => {
+      expect(mergeScripts({ dev: 'vite' }, base, base).scripts).toEqual(base);
+    });
+
+    it('should report scripts changed on both sides as conflicts and keep the local value', () => {
+      const result = mergeScripts({ dev: 'vite', test: 'vitest --reporter=junit' }, { dev: 'vite', test: 'vitest --run' }, base);
+
+      expect(result.scripts.test).toBe('vitest --reporter=junit');
+      expect(result.conflicts).toEqual([
+        { name: 'test', local: 'vitest --reporter=junit', template: 'vitest --run', resolution: 'keep' },
+      ]);
+    });
+
+    it('should treat differing scripts without a recorded base as conflicts', () => {
+      const result = mergeScripts({ test: 'jest' }, { test: 'vitest' }, {});
+
+      expect(result.conflicts.map((conflict) => conflict.name)).toEqual(['test']);
+    });
+  });
+
+  describe('applyScriptResolution', () => {
+    const conflict = { name: 'test', local: 'jest', template: 'vitest' };
+
+    it('should leave the local value when keeping', () => {
+      const scripts = { test: 'jest' };
+      applyScriptResolution(scripts, { ...conflict, resolution: 'keep' });
+
+      expect(scripts).toEqual({ test: 'jest' });
+    });
+
+    it('should replace the local value when taking the template', () => {
+      const scripts = { test: 'jest' };
+      applyScriptResolution(scripts, { ...conflict, resolution: 'take' });
+
+      expect(scripts).toEqual({ test: 'vitest' });
+    });
+
+    it('should add the template value next to the local one when keeping both', () => {
+      const scripts: Record<string, string> = { test: 'jest' };
+      applyScriptResolution(scripts, { ...conflict, resolution: 'both' });
+
+      expect(scripts).toEqual({ test: 'jest', 'test:template': 'vitest' });
+    });
+  });
+});
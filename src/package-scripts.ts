@@ -0,0 +1,57 @@
+/**
+ * How to settle a script that was changed both locally and in the template:
+ * keep the local value, take the template value, or keep local and add the template as "<name>:template"
+ */
+export type ScriptResolution = 'keep' | 'take' | 'both';
+
+export const TEMPLATE_SCRIPT_SUFFIX = ':template';
+
+export interface ScriptConflict {
+  name: string;
+  local: string;
+  template: string;
+  resolution: ScriptResolution;
+}
+
+export interface ScriptMerge {
+  scripts: Record<string, string>;
+  conflicts: ScriptConflict[];
+}
+
+/**
+ * Three-way merge of package.json scripts against the template values written last time.
+ * Scripts still matching that base (or missing locally) take the template value, scripts only
+ * changed locally are kept, and scripts changed on both sides are returned as conflicts,
+ * left at their local value until resolved.
+ */
+export function mergeScripts(
+  local: Record<string, string> | undefined,
+  template: Record<string, string> | undefined,
+  base: Record<string, string>
+): ScriptMerge {
+  const scripts: Record<string, string> = { ...(local ?? {}) };
+  const conflicts: ScriptConflict[] = [];
+
+  for (const [name, templateValue] of Object.entries(template ?? {})) {
+    const localValue = local?.[name];
+
+    if (localValue === undefined || localValue === base[name]) {
+      scripts[name] = templateValue;
+    } else if (localValue !== templateValue && base[name] !== templateValue) {
+      conflicts.push({ name, local: localValue, template: templateValue, resolution: 'keep' });
+    }
+  }
+
+  return { scripts, conflicts };
+}
+
+/**
+ * Apply the chosen resolution of a conflict to the merged scripts
+ */
+export function applyScriptResolution(scripts: Record<string, string>, conflict: ScriptConflict): void {
+  if (conflict.resolution === 'take') {
+    scripts[conflict.name] = conflict.template;
+  } else if (conflict.resolution === 'both') {
+    scripts[`${conflict.name}${TEMPLATE_SCRIPT_SUFFIX}`] = conflict.template;
+  }
+}
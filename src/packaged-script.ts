@@ -0,0 +1,12 @@
+import { createRequire } from 'module';
+
+const requireScript = createRequire(import.meta.url);
+
+/**
+ * Load one of the CommonJS scripts shared with generated projects. Projects run them from hooks
+ * and npm scripts without a build step, so the CLI loads the same packaged copy instead of keeping
+ * a TypeScript twin in sync; T describes the part of the module's exports the CLI uses.
+ */
+export function loadPackagedScript<T>(name: string): T {
+  return requireScript(`../scripts/${name}`) as T;
+}
@@ -0,0 +1,10 @@
+import { loadPackagedScript } from './packaged-script.js';
+
+interface ProjectNameModule {
+  validateProjectName: (name: string) => string[];
+  normalizeProjectName: (rawName: string) => string;
+  deriveProjectTitle: (rawName: string) => string;
+}
+
+// npm package name rules, shared with the postinstall script
+export const projectNames = loadPackagedScript<ProjectNameModule>('project-name.cjs');
@@ -0,0 +1,87 @@
+import type { DependencyChange } from './dependencies.js';
+import type { ScriptConflict } from './package-scripts.js';
+
+/**
+ * Stable codes for failures callers may want to handle; the messages are for humans and may change
+ */
+export type BootstrapErrorCode =
+  | 'INVALID_ARGUMENTS'
+  | 'INVALID_PROJECT_NAME'
+  | 'INVALID_TEMPLATE'
+  | 'TEMPLATE_NOT_FOUND'
+  | 'INVALID_TEMPLATE_MANIFEST'
+  | 'TEMPLATE_SYNTAX_ERROR'
+  | 'UNRESOLVED_PLACEHOLDERS'
+  | 'PACKAGE_JSON_NOT_FOUND'
+  | 'PACKAGE_JSON_INVALID'
+  | 'METADATA_MISSING'
+  | 'INVALID_VERSION'
+  | 'NOT_A_BOOTSTRAP_PROJECT'
+  | 'NOT_A_WORKSPACE'
+  | 'UNMANAGED_FILE'
+  | 'INVALID_MANAGED_BLOCK'
+  | 'NO_BACKUP'
+  | 'UNEXPECTED_ERROR';
+
+export class BootstrapError extends Error {
+  constructor(readonly code: BootstrapErrorCode, message: string) {
+    super(message);
+    this.name = 'BootstrapError';
+  }
+}
+
+export type BootstrapAction =
+  | 'initialized'
+  | 'updated'
+  | 'planned'
+  | 'cancelled'
+  | 'ejected'
+  | 'template-switched'
+  | 'restored';
+
+/**
+ * What a command did to the project. File paths are relative to the project directory.
+ */
+export interface BootstrapResult {
+  action: BootstrapAction;
+  template: string | null;
+  files: {
+    created: string[];
+    // Existing files that were overwritten or merged with the template
+    updated: string[];
+    removed: string[];
+    // Files left alone because they are ejected or were kept on request
+    skipped: string[];
+  };
+  packageJson: {
+    dependencyChanges: DependencyChange[];
+    scriptConflicts: ScriptConflict[];
+  };
+  // Hash manifest written by the command, or null when it was left alone (dry runs, cancellations)
+  manifestPath: string | null;
+  // Things that need attention: merge conflicts, kept files, manual follow-ups
+  warnings: string[];
+  // Set by update at a workspace root: the outcome for every workspace package, in order
+  workspacePackages?: WorkspacePackageUpdate[];
+}
+
+/**
+ * Update of one workspace package; error is set instead of result when the package failed
+ */
+export interface WorkspacePackageUpdate {
+  // Relative to the workspace root, with forward slashes
+  directory: string;
+  result: BootstrapResult | null;
+  error: string | null;
+}
+
+export function createResult(action: BootstrapAction, template: string | null): BootstrapResult {
+  return {
+    action,
+    template,
+    files: { created: [], updated: [], removed: [], skipped: [] },
+    packageJson: { dependencyChanges: [], scriptConflicts: [] },
+    manifestPath: null,
+    warnings: [],
+  };
+}
@@ -0,0 +1,262 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { FileWriter } from './changeset.js';
+import { mergeJsonc, type JsoncMergePolicy } from './jsonc.js';
+import { mergeThreeWay } from './merge.js';
+
+export const BASE_SNAPSHOT_RELATIVE_PATH = '.github/typescript-bootstrap-base.json';
+const BASE_SNAPSHOT_VERSION = 1;
+const HASH_ALGORITHM = 'sha256';
+
+const TSCONFIG_MERGE_POLICIES: Record<string, JsoncMergePolicy> = {
+  'compilerOptions.strict': 'template',
+  'compilerOptions.noUnusedLocals': 'template',
+  'compilerOptions.noUnusedParameters': 'template',
+  'compilerOptions.noFallthroughCasesInSwitch': 'template',
+  'compilerOptions.paths': 'user',
+  'compilerOptions.baseUrl': 'user',
+  include: 'union',
+  exclude: 'union',
+};
+
+/**
+ * Managed files merged key by key as JSONC, with the merge policy of individual keys
+ */
+export const JSONC_MERGE_POLICIES: Record<string, Record<string, JsoncMergePolicy>> = {
+  'tsconfig.json': TSCONFIG_MERGE_POLICIES,
+  'tsconfig.node.json': TSCONFIG_MERGE_POLICIES,
+  '.vscode/settings.json': {},
+};
+
+/**
+ * What the bootstrap knows about the files it wrote last time
+ */
+export interface PreviousScaffoldState {
+  managedFiles: string[];
+  hashes: Record<string, string>;
+  baseContents: Record<string, string>;
+  baseScripts: Record<string, string>;
+}
+
+export interface ManagedFileMerge {
+  file: string;
+  outcome: 'merged' | 'conflict';
+  conflicts: number;
+}
+
+function toRelativePosixPath(rootDir: string, filePath: string): string {
+  return path.relative(rootDir, filePath).split(path.sep).join('/');
+}
+
+function hashContent(content: string): string {
+  return createHash(HASH_ALGORITHM).update(content).digest('hex');
+}
+
+function readJsonFile(filePath: string, writer: FileWriter): Record<string, unknown> | null {
+  if (!writer.exists(filePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(writer.readFile(filePath).toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the previous hash manifest and pristine template snapshot; both are optional
+ */
+export function readPreviousScaffoldState(
+  targetDir: string,
+  manifestRelativePath: string,
+  writer: FileWriter
+): PreviousScaffoldState {
+  const manifest = readJsonFile(path.join(targetDir, manifestRelativePath), writer);
+  const snapshot = readJsonFile(path.join(targetDir, BASE_SNAPSHOT_RELATIVE_PATH), writer);
+
+  const hashes = (manifest?.hashes as Record<string, string> | undefined) ?? {};
+  return {
+    managedFiles: Array.isArray(manifest?.managedFiles) ? manifest.managedFiles as string[] : Object.keys(hashes),
+    hashes,
+    baseContents: (snapshot?.files as Record<string, string> | undefined) ?? {},
+    baseScripts: (snapshot?.scripts as Record<string, string> | undefined) ?? {},
+  };
+}
+
+function sortRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.keys(record)
+      .sort((left, right) => left.localeCompare(right))
+      .map((key) => [key, record[key]])
+  );
+}
+
+/**
+ * Write the pristine template content of every managed file and package.json script,
+ * used as the next merge base
+ */
+export function writeBaseSnapshot(
+  targetDir: string,
+  baseContents: Record<string, string>,
+  writer: FileWriter,
+  baseScripts: Record<string, string> = {}
+): string {
+  const snapshot = {
+    version: BASE_SNAPSHOT_VERSION,
+    files: sortRecord(baseContents),
+    scripts: sortRecord(baseScripts),
+  };
+  writer.writeFile(
+    path.join(targetDir, BASE_SNAPSHOT_RELATIVE_PATH),
+    `${JSON.stringify(snapshot, null, 2)}\n`
+  );
+  return BASE_SNAPSHOT_RELATIVE_PATH;
+}
+
+/**
+ * Writer that passes writes through while recording them as pristine template content
+ */
+export function createRecordingWriter(
+  targetDir: string,
+  writer: FileWriter,
+  baseContents: Record<string, string>
+): FileWriter {
+  return {
+    exists: (filePath) => writer.exists(filePath),
+    readFile: (filePath) => writer.readFile(filePath),
+    writeFile: (filePath, content) => {
+      baseContents[toRelativePosixPath(targetDir, filePath)] = content.toString();
+      writer.writeFile(filePath, content);
+    },
+    removeFile: (filePath) => {
+      delete baseContents[toRelativePosixPath(targetDir, filePath)];
+      writer.removeFile(filePath);
+    },
+  };
+}
+
+/**
+ * Whether a managed file still holds the content the bootstrap last wrote, judged by the
+ * recorded hash or, without one, the base snapshot; unknown files count as modified
+ */
+export function isUnchangedSinceScaffold(
+  relativePath: string,
+  content: string,
+  previous: PreviousScaffoldState
+): boolean {
+  if (relativePath in previous.hashes) {
+    return previous.hashes[relativePath] === hashContent(content);
+  }
+  return previous.baseContents[relativePath] === content;
+}
+
+/**
+ * Find the common ancestor for a managed file: the stored snapshot, or when it is missing,
+ * whichever side still matches the hash recorded in the previous manifest
+ */
+function resolveMergeBase(
+  relativePath: string,
+  localContent: string,
+  templateContent: string,
+  previous: PreviousScaffoldState
+): string | undefined {
+  if (relativePath in previous.baseContents) {
+    return previous.baseContents[relativePath];
+  }
+
+  const expectedHash = previous.hashes[relativePath];
+  if (expectedHash === hashContent(localContent)) {
+    return localContent;
+  }
+  if (expectedHash === hashContent(templateContent)) {
+    return templateContent;
+  }
+  return undefined;
+}
+
+/**
+ * Writer that three-way merges new template content into locally edited files.
+ * Untouched files are replaced, edited JSONC configs are merged key by key, other edited
+ * files are merged line by line, and overlapping edits are written with conflict markers
+ * and reported through merges.
+ */
+export function createMergingWriter(
+  targetDir: string,
+  writer: FileWriter,
+  previous: PreviousScaffoldState,
+  nextBaseContents: Record<string, string>,
+  merges: ManagedFileMerge[]
+): FileWriter {
+  return {
+    exists: (filePath) => writer.exists(filePath),
+    readFile: (filePath) => writer.readFile(filePath),
+    writeFile: (filePath, content) => {
+      const relativePath = toRelativePosixPath(targetDir, filePath);
+      const templateContent = content.toString();
+      nextBaseContents[relativePath] = templateContent;
+
+      if (!writer.exists(filePath)) {
+        writer.writeFile(filePath, templateContent);
+        return;
+      }
+
+      const localContent = writer.readFile(filePath).toString('utf-8');
+      const base = resolveMergeBase(relativePath, localContent, templateContent, previous);
+      if (localContent === templateContent || base === localContent) {
+        writer.writeFile(filePath, templateContent);
+        return;
+      }
+
+      if (relativePath in JSONC_MERGE_POLICIES) {
+        try {
+          const merged = mergeJsonc(localContent, templateContent, base, JSONC_MERGE_POLICIES[relativePath]);
+          writer.writeFile(filePath, merged);
+          if (merged !== templateContent) {
+            merges.push({ file: relativePath, outcome: 'merged', conflicts: 0 });
+          }
+          return;
+        } catch {
+          // Files that are not valid JSONC fall back to the line merge
+        }
+      }
+
+      // Without a common ancestor every differing line is a conflict
+      const result = mergeThreeWay(base ?? '', localContent, templateContent);
+      writer.writeFile(filePath, result.content);
+      merges.push({
+        file: relativePath,
+        outcome: result.conflicts > 0 ? 'conflict' : 'merged',
+        conflicts: result.conflicts,
+      });
+    },
+    removeFile: (filePath) => {
+      delete nextBaseContents[toRelativePosixPath(targetDir, filePath)];
+      writer.removeFile(filePath);
+    },
+  };
+}
+
+/**
+ * Writer that drops writes and removals of files the project ejected from bootstrap management
+ */
+export function createEjectionFilter(
+  targetDir: string,
+  writer: FileWriter,
+  ejectedFiles: ReadonlySet<string>
+): FileWriter {
+  return {
+    exists: (filePath) => writer.exists(filePath),
+    readFile: (filePath) => writer.readFile(filePath),
+    writeFile: (filePath, content) => {
+      if (!ejectedFiles.has(toRelativePosixPath(targetDir, filePath))) {
+        writer.writeFile(filePath, content);
+      }
+    },
+    removeFile: (filePath) => {
+      if (!ejectedFiles.has(toRelativePosixPath(targetDir, filePath))) {
+        writer.removeFile(filePath);
+      }
+    },
+  };
+}
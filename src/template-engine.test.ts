@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { escapingForFile, renderTemplate, renderTemplatePath } from './template-engine.js';
+
+describe('template-engine', () => {
+  it('should replace placeholders and use fallbacks for missing or empty values', () => {
+    expect(renderTemplate('{{NAME}} by {{AUTHOR ?? "nobody"}} ({{LICENSE ?? MIT}})', { NAME: 'demo', LICENSE: '' }))
+      .toBe('demo by nobody (MIT)');
+    expect(renderTemplate('{{ NAME }}: $& $1', { NAME: '$&' })).toBe('$&: $& $1');
+  });
+
+  it('should render conditional blocks', () => {
+    const template = '{{#if DOCKER}}docker{{else}}plain{{/if}}{{#if LINT}}+lint{{/if}}';
+
+    expect(renderTemplate(template, { DOCKER: 'yes', LINT: 'no' })).toBe('docker');
+    expect(renderTemplate(template, { DOCKER: 'false', LINT: 'true' })).toBe('plain+lint');
+  });
+
+  it('should loop over comma-separated lists', () => {
+    const template = '[{{#each FEATURES}}"{{this}}"{{#if @last}}{{else}}, {{/if}}{{/each}}]';
+
+    expect(renderTemplate(template, { FEATURES: 'eslint, vitest ,,husky' })).toBe('["eslint", "vitest", "husky"]');
+    expect(renderTemplate(template, { FEATURES: '' })).toBe('[]');
+    expect(renderTemplate('{{#each ITEMS}}{{@index}}={{this}} {{/each}}', { ITEMS: 'a,b' })).toBe('0=a 1=b ');
+  });
+
+  it('should escape values for JSON and HTML unless triple braces are used', () => {
+    const values = { TITLE: 'Say "Hi" <b> & \\' };
+
+    expect(renderTemplate('{ "description": "{{TITLE}}" }', values, { escaping: 'json' }))
+      .toBe('{ "description": "Say \\"Hi\\" <b> & \\\\" }');
+    expect(renderTemplate('<title>{{TITLE}}</title>', values, { escaping: 'html' }))
+      .toBe('<title>Say &quot;Hi&quot; &lt;b&gt; &amp; \\</title>');
+    expect(renderTemplate('{{{TITLE}}}', values, { escaping: 'html' })).toBe(values.TITLE);
+    expect(escapingForFile('templates/react/package.json')).toBe('json');
+    expect(escapingForFile('index.HTML')).toBe('html');
+    expect(escapingForFile('src/main.ts')).toBe('none');
+  });
+
+  it('should leave braces that are not placeholders alone', () => {
+    const template = '<div style={{ color: "red" }} />\n${{ secrets.TOKEN }} ${{ github }}\n\\{{NAME}} {{}}';
+
+    expect(renderTemplate(template, {})).toBe('<div style={{ color: "red" }} />\n${{ secrets.TOKEN }} ${{ github }}\n{{NAME}} {{}}');
+  });
+
+  it('should list every unresolved placeholder', () => {
+    expect(() => renderTemplate('{{PROJECT_TILE}} {{#if FEATURE}}{{/if}} {{PROJECT_TILE}}', {}, { source: 'README.md' }))
+      .toThrow('Unresolved placeholders in README.md: {{PROJECT_TILE}}, {{FEATURE}}');
+  });
+
+  it('should reject unbalanced or malformed blocks', () => {
+    expect(() => renderTemplate('{{#if A}}', { A: 'yes' })).toThrow('{{#if A}} is never closed');
+    expect(() => renderTemplate('{{#each A}}{{/if}}', { A: 'x' })).toThrow('{{/if}} without a matching {{#if}}');
+    expect(() => renderTemplate('{{else}}', {})).toThrow('{{else}} outside of an {{#if}} block');
+    expect(() => renderTemplate('{{#if}}', {})).toThrow(expect.objectContaining({ code: 'TEMPLATE_SYNTAX_ERROR' }));
+  });
+
+  it('should render file paths that stay inside the project', () => {
+    expect(renderTemplatePath('src/{{NAME}}/index.ts', { NAME: 'widgets' })).toBe('src/widgets/index.ts');
+    expect(() => renderTemplatePath('src/{{NAME}}.ts', { NAME: '../../escape' })).toThrow('renders to an invalid path');
+    expect(() => renderTemplatePath('{{NAME}}/index.ts', { NAME: '' })).toThrow('renders to an invalid path');
+  });
+});
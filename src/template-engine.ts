@@ -0,0 +1,192 @@
+import * as path from 'path';
+import { BootstrapError } from './result.js';
+
+/**
+ * How placeholder values are escaped for the file they are written into: inside JSON strings,
+ * as HTML text, or not at all
+ */
+export type PlaceholderEscaping = 'json' | 'html' | 'none';
+
+export interface RenderOptions {
+  escaping?: PlaceholderEscaping;
+  // Name of the rendered template in error messages
+  source?: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; name: string; fallback?: string; raw: boolean }
+  | { kind: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; name: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'if' | 'each' }>;
+
+// Answers that switch an {{#if}} block off
+const FALSY_VALUES = ['', 'false', 'no', 'n', '0'];
+
+/**
+ * {{NAME}}, {{NAME ?? fallback}}, {{{NAME}}} (not escaped), {{#if NAME}}, {{else}}, {{/if}},
+ * {{#each NAME}} and {{/each}}. Braces that do not form a tag, such as JSX style={{ ... }} or
+ * GitHub Actions ${{ ... }}, are left as they are, and \{{ writes a literal {{.
+ */
+const TAG_PATTERN = /(\\)?(?<!\$)\{\{(\{)?\s*(?:(#if|#each|\/if|\/each|else)\b)?\s*([A-Za-z_@][\w]*)?\s*(?:\?\?\s*([^}]*?))?\s*(\})?\}\}/g;
+
+function syntaxError(source: string, problem: string): BootstrapError {
+  return new BootstrapError('TEMPLATE_SYNTAX_ERROR', `Invalid template syntax in ${source}: ${problem}`);
+}
+
+function unquote(value: string): string {
+  return /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+}
+
+function parseTemplate(template: string, source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, each with the list its content is added to (the then or else branch of an if)
+  const blocks: Array<{ node: BlockNode; children: TemplateNode[] }> = [];
+  const children = () => blocks[blocks.length - 1]?.children ?? root;
+
+  let position = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, escaped, rawOpen, keyword, name, fallback, rawClose] = match;
+    if (!keyword && !name) {
+      continue;
+    }
+
+    children().push({ kind: 'text', text: template.slice(position, match.index) });
+    position = match.index + tag.length;
+    if (escaped) {
+      children().push({ kind: 'text', text: tag.slice(1) });
+      continue;
+    }
+    const isBlockStart = keyword === '#if' || keyword === '#each';
+    if (Boolean(rawOpen) !== Boolean(rawClose) || (keyword && (rawOpen || fallback !== undefined || isBlockStart !== Boolean(name)))) {
+      throw syntaxError(source, `malformed tag ${tag}`);
+    }
+
+    if (name && (keyword === '#if' || keyword === '#each')) {
+      const node: BlockNode = keyword === '#if'
+        ? { kind: 'if', name, then: [], otherwise: [] }
+        : { kind: 'each', name, body: [] };
+      children().push(node);
+      blocks.push({ node, children: node.kind === 'if' ? node.then : node.body });
+    } else if (keyword === 'else') {
+      const block = blocks[blocks.length - 1];
+      if (block?.node.kind !== 'if' || block.children === block.node.otherwise) {
+        throw syntaxError(source, '{{else}} outside of an {{#if}} block');
+      }
+      block.children = block.node.otherwise;
+    } else if (keyword) {
+      const kind = keyword === '/if' ? 'if' : 'each';
+      if (blocks.pop()?.node.kind !== kind) {
+        throw syntaxError(source, `${tag} without a matching {{#${kind}}}`);
+      }
+    } else if (name) {
+      children().push({ kind: 'value', name, fallback: fallback === undefined ? undefined : unquote(fallback), raw: Boolean(rawOpen) });
+    }
+  }
+
+  const unclosed = blocks[blocks.length - 1]?.node;
+  if (unclosed) {
+    throw syntaxError(source, `{{#${unclosed.kind} ${unclosed.name}}} is never closed`);
+  }
+  root.push({ kind: 'text', text: template.slice(position) });
+  return root;
+}
+
+function escapeValue(value: string, escaping: PlaceholderEscaping): string {
+  if (escaping === 'json') {
+    return JSON.stringify(value).slice(1, -1);
+  }
+  if (escaping === 'html') {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+  return value;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  values: Record<string, string>,
+  escaping: PlaceholderEscaping,
+  unresolved: Set<string>
+): string {
+  const valueOf = (name: string): string | undefined =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+  const lookup = (name: string): string => {
+    const value = valueOf(name);
+    if (value === undefined) {
+      unresolved.add(name);
+    }
+    return value ?? '';
+  };
+
+  return nodes.map((node) => {
+    if (node.kind === 'text') {
+      return node.text;
+    }
+    if (node.kind === 'value') {
+      const value = node.fallback !== undefined && !valueOf(node.name) ? node.fallback : lookup(node.name);
+      return node.raw ? value : escapeValue(value, escaping);
+    }
+    if (node.kind === 'if') {
+      const enabled = !FALSY_VALUES.includes(lookup(node.name).trim().toLowerCase());
+      return renderNodes(enabled ? node.then : node.otherwise, values, escaping, unresolved);
+    }
+
+    // Lists are comma-separated values; each item is {{this}}, with {{@index}}, {{#if @first}} and {{#if @last}}
+    const items = lookup(node.name).split(',').map((item) => item.trim()).filter((item) => item.length > 0);
+    return items
+      .map((item, index) => renderNodes(node.body, {
+        ...values,
+        this: item,
+        '@index': String(index),
+        '@first': index === 0 ? 'true' : '',
+        '@last': index === items.length - 1 ? 'true' : '',
+      }, escaping, unresolved))
+      .join('');
+  }).join('');
+}
+
+/**
+ * Render a template with the given placeholder values. Placeholders without a value and without a
+ * fallback fail the render, listing every one of them, instead of leaking {{NAME}} into the project.
+ */
+export function renderTemplate(template: string, values: Record<string, string>, options: RenderOptions = {}): string {
+  const source = options.source ?? 'template';
+  const unresolved = new Set<string>();
+  const rendered = renderNodes(parseTemplate(template, source), values, options.escaping ?? 'none', unresolved);
+
+  if (unresolved.size > 0) {
+    const names = [...unresolved].map((name) => `{{${name}}}`).join(', ');
+    throw new BootstrapError('UNRESOLVED_PLACEHOLDERS', `Unresolved placeholders in ${source}: ${names}`);
+  }
+  return rendered;
+}
+
+/**
+ * Escaping that keeps a file valid: JSON files get JSON string escaping, HTML files HTML escaping
+ */
+export function escapingForFile(filePath: string): PlaceholderEscaping {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.json') {
+    return 'json';
+  }
+  return extension === '.html' || extension === '.htm' ? 'html' : 'none';
+}
+
+/**
+ * Render the placeholders in the path of a template file, e.g. src/{{PROJECT_NAME}}.ts. The rendered
+ * path must stay a relative path inside the project.
+ */
+export function renderTemplatePath(templatePath: string, values: Record<string, string>): string {
+  const rendered = renderTemplate(templatePath, values, { source: templatePath });
+  const segments = rendered.split('/');
+  if (segments.some((segment) => ['', '.', '..'].includes(segment) || segment.includes('\\'))) {
+    throw new BootstrapError('TEMPLATE_SYNTAX_ERROR', `Template file ${templatePath} renders to an invalid path: ${rendered}`);
+  }
+  return rendered;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  listTemplateFiles,
+  matchesPathPattern,
+  readTemplateManifest,
+  resolvePlaceholderValues,
+  type TemplateManifest,
+} from './template-manifest.js';
+
+describe('template-manifest', () => {
+  let testDir: string;
+
+  function writeFile(relativePath: string, content: string) {
+    fs.mkdirSync(path.dirname(path.join(testDir, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(testDir, relativePath), content, 'utf-8');
+  }
+
+  function writeManifest(overrides: Record<string, unknown> = {}) {
+    writeFile('template/template.json', JSON.stringify({
+      name: 'custom',
+      description: 'Custom template',
+      placeholders: ['PROJECT_NAME', 'LICENSE'],
+      prompts: [{ placeholder: 'LICENSE', message: 'License', default: 'MIT' }],
+      files: [
+        { path: 'package.json', ownership: 'managed' },
+        { path: 'src/**', ownership: 'seeded' },
+      ],
+      shared: [
+        { path: 'shared/*.yml', ownership: 'managed' },
+        { path: 'setup.ts', ownership: 'seeded' },
+      ],
+      excludeShared: ['shared/publish.yml'],
+      ...overrides,
+    }));
+  }
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-manifest-test-'));
+    writeFile('template/package.json', '{}');
+    writeFile('template/src/main.ts', '');
+    writeFile('shared/ci.yml', '');
+    writeFile('shared/publish.yml', '');
+    writeFile('shared/nested/deep.yml', '');
+    writeFile('setup.ts', '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should match single-segment and multi-segment wildcards', () => {
+    expect(matchesPathPattern('src/**', 'src/components/App.tsx')).toBe(true);
+    expect(matchesPathPattern('.github/workflows/*.yml', '.github/workflows/ci.yml')).toBe(true);
+    expect(matchesPathPattern('.github/workflows/*.yml', '.github/workflows/nested/ci.yml')).toBe(false);
+    expect(matchesPathPattern('tsconfig.json', 'tsconfig_json')).toBe(false);
+  });
+
+  it('should list template and shared files with their ownership, leaving out excluded shared files', () => {
+    writeManifest();
+    const manifest = readTemplateManifest(path.join(testDir, 'template'));
+
+    expect(listTemplateFiles(path.join(testDir, 'template'), testDir, manifest)).toEqual([
+      { relativePath: 'package.json', sourcePath: path.join(testDir, 'template', 'package.json'), ownership: 'managed', origin: 'template' },
+      { relativePath: 'src/main.ts', sourcePath: path.join(testDir, 'template', 'src', 'main.ts'), ownership: 'seeded', origin: 'template' },
+      { relativePath: 'shared/ci.yml', sourcePath: path.join(testDir, 'shared', 'ci.yml'), ownership: 'managed', origin: 'shared' },
+      { relativePath: 'setup.ts', sourcePath: path.join(testDir, 'setup.ts'), ownership: 'seeded', origin: 'shared' },
+    ]);
+  });
+
+  it('should reject template files without an ownership rule and invalid rules or prompts', () => {
+    writeFile('template/README.md', '');
+    writeManifest();
+    expect(() => readTemplateManifest(path.join(testDir, 'template'))).toThrow('no ownership rule for README.md');
+
+    writeManifest({ files: [{ path: '**', ownership: 'owned' }] });
+    expect(() => readTemplateManifest(path.join(testDir, 'template'))).toThrow('files[0] needs a "path" and an "ownership"');
+
+    writeManifest({ files: [{ path: '**', ownership: 'managed' }], prompts: [{ placeholder: 'AUTHOR', message: 'Author' }] });
+    expect(() => readTemplateManifest(path.join(testDir, 'template'))).toThrow(
+      expect.objectContaining({ code: 'INVALID_TEMPLATE_MANIFEST' })
+    );
+  });
+
+  it('should describe the packaged templates', () => {
+    for (const template of ['typescript', 'react']) {
+      const templateDir = path.resolve('templates', template);
+      const files = listTemplateFiles(templateDir, path.resolve('.'), readTemplateManifest(templateDir));
+      const ownershipOf = (file: string) => files.find((entry) => entry.relativePath === file)?.ownership;
+
+      expect(ownershipOf('tsconfig.json')).toBe('managed');
+      expect(ownershipOf('eslint.config.js')).toBe('managed');
+      expect(ownershipOf('README.md')).toBe('seeded');
+      expect(ownershipOf('src/test.setup.ts')).toBe('seeded');
+      expect(ownershipOf('.github/workflows/publish.yml')).toBeUndefined();
+      expect(ownershipOf('template.json')).toBeUndefined();
+    }
+  });
+
+  it('should ask for missing placeholder values and fall back to the defaults', async () => {
+    const manifest = {
+      prompts: [
+        { placeholder: 'LICENSE', message: 'License', default: 'MIT' },
+        { placeholder: 'AUTHOR', message: 'Author' },
+      ],
+    } as TemplateManifest;
+
+    expect(await resolvePlaceholderValues(manifest, { PROJECT_NAME: 'demo' })).toEqual({
+      PROJECT_NAME: 'demo',
+      LICENSE: 'MIT',
+      AUTHOR: '',
+    });
+    expect(await resolvePlaceholderValues(manifest, { LICENSE: 'ISC' }, async (prompt) => (prompt.placeholder === 'AUTHOR' ? ' Ada ' : '')))
+      .toEqual({ LICENSE: 'ISC', AUTHOR: 'Ada' });
+  });
+});
@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BootstrapError } from './result.js';
+
+export const TEMPLATE_MANIFEST_FILE = 'template.json';
+
+/**
+ * Who owns a file once it is in the project:
+ * - managed: written by init and kept in sync by every update; tracked in the hash manifest
+ * - seeded: written once by init, then owned by the project; update never touches it
+ * - user: always owned by the project; never written, and never removed as a stale file
+ */
+export type FileOwnership = 'managed' | 'seeded' | 'user';
+
+const OWNERSHIPS: FileOwnership[] = ['managed', 'seeded', 'user'];
+
+/**
+ * Ownership of the files matching a path pattern; "*" matches within a path segment, "**" across segments
+ */
+export interface TemplateFileRule {
+  path: string;
+  ownership: FileOwnership;
+}
+
+/**
+ * A question init asks for a placeholder value; under skipPrompts the default is used
+ */
+export interface TemplatePrompt {
+  placeholder: string;
+  message: string;
+  default?: string;
+}
+
+/**
+ * The template.json of a template directory
+ */
+export interface TemplateManifest {
+  name: string;
+  description: string;
+  // Placeholders the template files use, written as {{NAME}}
+  placeholders: string[];
+  prompts: TemplatePrompt[];
+  // Rules for the files of the template directory; the first matching rule wins
+  files: TemplateFileRule[];
+  // Files shared by every template, copied from the bootstrap package itself
+  shared: TemplateFileRule[];
+  // Shared files this template does not get
+  excludeShared: string[];
+}
+
+/**
+ * A file a template writes into a project
+ */
+export interface TemplateFile {
+  relativePath: string;
+  sourcePath: string;
+  ownership: FileOwnership;
+  // Template files get placeholders replaced; shared files are copied as they are
+  origin: 'template' | 'shared';
+}
+
+/**
+ * Relative paths, with forward slashes, of every file below baseDir
+ */
+export function collectFilesRecursively(baseDir: string, relativePrefix = ''): string[] {
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(baseDir)) {
+    const absolutePath = path.join(baseDir, entry);
+    const relativePath = relativePrefix ? `${relativePrefix}/${entry}` : entry;
+    const stats = fs.statSync(absolutePath);
+
+    if (stats.isDirectory()) {
+      files.push(...collectFilesRecursively(absolutePath, relativePath));
+    } else if (stats.isFile()) {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function matchesPathPattern(pattern: string, relativePath: string): boolean {
+  const source = pattern
+    .split('**')
+    .map((part) => part.split('*').map(escapeRegExp).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(relativePath);
+}
+
+export function resolveOwnership(rules: TemplateFileRule[], relativePath: string): FileOwnership | null {
+  return rules.find((rule) => matchesPathPattern(rule.path, relativePath))?.ownership ?? null;
+}
+
+function invalidManifest(manifestPath: string, problem: string): BootstrapError {
+  return new BootstrapError('INVALID_TEMPLATE_MANIFEST', `Invalid template manifest ${manifestPath}: ${problem}`);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function validateRules(value: unknown, field: string, manifestPath: string): TemplateFileRule[] {
+  if (!Array.isArray(value)) {
+    throw invalidManifest(manifestPath, `"${field}" must be an array of { path, ownership } rules`);
+  }
+  return value.map((rule, index) => {
+    if (typeof rule?.path !== 'string' || !OWNERSHIPS.includes(rule.ownership)) {
+      throw invalidManifest(
+        manifestPath,
+        `${field}[${index}] needs a "path" and an "ownership" of ${OWNERSHIPS.join(', ')}`
+      );
+    }
+    return { path: rule.path, ownership: rule.ownership };
+  });
+}
+
+/**
+ * Read and validate the manifest of a template directory. Every file of the template must be
+ * covered by a rule, and every prompt must fill a declared placeholder.
+ */
+export function readTemplateManifest(templateDir: string): TemplateManifest {
+  const manifestPath = path.join(templateDir, TEMPLATE_MANIFEST_FILE);
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    throw invalidManifest(manifestPath, error instanceof Error ? error.message : String(error));
+  }
+
+  if (typeof raw.name !== 'string' || typeof raw.description !== 'string') {
+    throw invalidManifest(manifestPath, '"name" and "description" must be strings');
+  }
+  const placeholders = raw.placeholders ?? [];
+  const excludeShared = raw.excludeShared ?? [];
+  if (!isStringArray(placeholders) || !isStringArray(excludeShared)) {
+    throw invalidManifest(manifestPath, '"placeholders" and "excludeShared" must be arrays of strings');
+  }
+
+  const prompts = raw.prompts ?? [];
+  if (!Array.isArray(prompts)) {
+    throw invalidManifest(manifestPath, '"prompts" must be an array');
+  }
+  for (const prompt of prompts) {
+    if (typeof prompt?.message !== 'string' || !placeholders.includes(prompt.placeholder)) {
+      throw invalidManifest(manifestPath, 'every prompt needs a "message" and a "placeholder" listed in "placeholders"');
+    }
+  }
+
+  const manifest: TemplateManifest = {
+    name: raw.name,
+    description: raw.description,
+    placeholders,
+    prompts,
+    files: validateRules(raw.files, 'files', manifestPath),
+    shared: validateRules(raw.shared ?? [], 'shared', manifestPath),
+    excludeShared,
+  };
+
+  const uncovered = collectFilesRecursively(templateDir)
+    .filter((file) => file !== TEMPLATE_MANIFEST_FILE)
+    .filter((file) => !resolveOwnership(manifest.files, file));
+  if (uncovered.length > 0) {
+    throw invalidManifest(manifestPath, `no ownership rule for ${uncovered.join(', ')}`);
+  }
+
+  return manifest;
+}
+
+// The directory a pattern can match in, i.e. its path up to the first wildcard
+function patternRoot(pattern: string): string {
+  const segments = pattern.split('/');
+  const firstWildcard = segments.findIndex((segment) => segment.includes('*'));
+  return firstWildcard === -1 ? pattern : segments.slice(0, firstWildcard).join('/');
+}
+
+/**
+ * Every file a template writes into a project: its own files, then the shared files of the
+ * bootstrap package below sharedRoot. Files owned by the user are left out.
+ */
+export function listTemplateFiles(templateDir: string, sharedRoot: string, manifest: TemplateManifest): TemplateFile[] {
+  const templateFiles: TemplateFile[] = collectFilesRecursively(templateDir)
+    .filter((file) => file !== TEMPLATE_MANIFEST_FILE)
+    .map((file) => ({
+      relativePath: file,
+      sourcePath: path.join(templateDir, file),
+      ownership: resolveOwnership(manifest.files, file) ?? 'user',
+      origin: 'template',
+    }));
+
+  const sharedFiles: TemplateFile[] = [];
+  for (const rule of manifest.shared) {
+    const root = patternRoot(rule.path);
+    const rootPath = path.join(sharedRoot, root);
+    const candidates = fs.existsSync(rootPath) && fs.statSync(rootPath).isFile()
+      ? [root]
+      : collectFilesRecursively(rootPath, root);
+
+    candidates
+      .filter((file) => matchesPathPattern(rule.path, file))
+      .filter((file) => !manifest.excludeShared.some((pattern) => matchesPathPattern(pattern, file)))
+      .filter((file) => resolveOwnership(manifest.shared, file) === rule.ownership)
+      .filter((file) => !sharedFiles.some((entry) => entry.relativePath === file))
+      .forEach((file) => sharedFiles.push({
+        relativePath: file,
+        sourcePath: path.join(sharedRoot, file),
+        ownership: rule.ownership,
+        origin: 'shared',
+      }));
+  }
+
+  return [...templateFiles, ...sharedFiles].filter((file) => file.ownership !== 'user');
+}
+
+/**
+ * Fill in the placeholders the prompts of a template ask for and that values does not supply yet.
+ * Without ask, each prompt's default is used.
+ */
+export async function resolvePlaceholderValues(
+  manifest: TemplateManifest,
+  values: Record<string, string>,
+  ask?: (prompt: TemplatePrompt) => Promise<string>
+): Promise<Record<string, string>> {
+  const resolved = { ...values };
+  for (const prompt of manifest.prompts) {
+    if (resolved[prompt.placeholder] !== undefined) {
+      continue;
+    }
+    const answer = ask ? (await ask(prompt)).trim() : '';
+    resolved[prompt.placeholder] = answer || prompt.default || '';
+  }
+  return resolved;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isTemplateReference, resolveTemplateDirectory, toTemplateReference } from './template-source.js';
+
+describe('template-source', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'template-source-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should accept built-in names, paths and package names as template references', () => {
+    expect(isTemplateReference('react')).toBe(true);
+    expect(isTemplateReference('./templates/web')).toBe(true);
+    expect(isTemplateReference('@acme/web-template')).toBe(true);
+    expect(isTemplateReference('Web Template')).toBe(false);
+  });
+
+  it('should record template paths relative to the project', () => {
+    const projectDir = path.join(testDir, 'apps', 'web');
+
+    expect(toTemplateReference('./templates/web', projectDir, projectDir)).toBe('./templates/web');
+    expect(toTemplateReference(path.join(testDir, 'templates', 'web'), projectDir)).toBe('../../templates/web');
+    expect(toTemplateReference('@acme/web-template', projectDir)).toBe('@acme/web-template');
+  });
+
+  it('should resolve built-in templates, paths and installed packages', () => {
+    const projectDir = path.join(testDir, 'apps', 'web');
+    const packageDir = path.join(testDir, 'node_modules', 'acme-template');
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(path.join(packageDir, 'package.json'), '{ "name": "acme-template" }', 'utf-8');
+
+    expect(resolveTemplateDirectory('react', projectDir, '/bootstrap')).toBe(path.join('/bootstrap', 'templates', 'react'));
+    expect(resolveTemplateDirectory('../shared', projectDir, '/bootstrap')).toBe(path.join(testDir, 'apps', 'shared'));
+    expect(resolveTemplateDirectory('acme-template', projectDir, '/bootstrap')).toBe(packageDir);
+    expect(resolveTemplateDirectory('@acme/missing', projectDir, '/bootstrap')).toBeNull();
+    expect(resolveTemplateDirectory('Not A Package', projectDir, '/bootstrap')).toBeNull();
+  });
+});
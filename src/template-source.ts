@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Templates packaged in the templates directory of TypeScript Bootstrap
+ */
+export const BUILT_IN_TEMPLATES = ['typescript', 'react', 'library', 'cli', 'node-service', 'monorepo'] as const;
+
+export type BuiltInTemplate = (typeof BUILT_IN_TEMPLATES)[number];
+
+/**
+ * Field of a template package's package.json naming its template directory, relative to the
+ * package; without it the package root is the template directory
+ */
+export const TEMPLATE_PACKAGE_FIELD = 'typescriptBootstrapTemplate';
+
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+export function isTemplateName(name: string): name is BuiltInTemplate {
+  return (BUILT_IN_TEMPLATES as readonly string[]).includes(name);
+}
+
+/**
+ * Local template directories are given as paths (./templates/web, ../web, /opt/templates/web)
+ */
+export function isTemplatePath(template: string): boolean {
+  return template.startsWith('.') || path.isAbsolute(template);
+}
+
+/**
+ * Whether template can name a template at all: a built-in template, a path or a package name
+ */
+export function isTemplateReference(template: string): boolean {
+  return isTemplateName(template) || isTemplatePath(template) || PACKAGE_NAME_PATTERN.test(template);
+}
+
+/**
+ * The reference a project records in typescriptBootstrap.template. Built-in templates and packages
+ * keep their name; paths, given relative to cwd, are stored relative to the project so that they
+ * still resolve when update runs from another directory.
+ */
+export function toTemplateReference(template: string, projectDir: string, cwd: string = process.cwd()): string {
+  if (!isTemplatePath(template)) {
+    return template;
+  }
+
+  const relativePath = path.relative(projectDir, path.resolve(cwd, template));
+  if (path.isAbsolute(relativePath)) {
+    return relativePath;
+  }
+  const posixPath = relativePath.split(path.sep).join('/');
+  return posixPath.startsWith('..') ? posixPath : `./${posixPath}`;
+}
+
+/**
+ * Find an installed package in the node_modules directories above each of the given directories
+ */
+function findInstalledPackage(packageName: string, searchDirs: string[]): string | null {
+  for (const searchDir of searchDirs) {
+    let directory = path.resolve(searchDir);
+    for (;;) {
+      const packageDir = path.join(directory, 'node_modules', packageName);
+      if (fs.existsSync(path.join(packageDir, 'package.json'))) {
+        return packageDir;
+      }
+      const parent = path.dirname(directory);
+      if (parent === directory) {
+        break;
+      }
+      directory = parent;
+    }
+  }
+  return null;
+}
+
+/**
+ * Directory of the template a project references: a built-in template of the bootstrap package at
+ * packageRoot, a directory relative to the project, or an installed package. Packages are looked up
+ * from the project first, then from the bootstrap package so that globally installed templates are
+ * found by a globally installed CLI. Returns null when the template cannot be found.
+ */
+export function resolveTemplateDirectory(template: string, projectDir: string, packageRoot: string): string | null {
+  if (isTemplateName(template)) {
+    return path.join(packageRoot, 'templates', template);
+  }
+  if (isTemplatePath(template)) {
+    return path.resolve(projectDir, template);
+  }
+  if (!PACKAGE_NAME_PATTERN.test(template)) {
+    return null;
+  }
+
+  const packageDir = findInstalledPackage(template, [projectDir, packageRoot]);
+  if (!packageDir) {
+    return null;
+  }
+  const packageJson = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf-8'));
+  const templateDir = packageJson[TEMPLATE_PACKAGE_FIELD];
+  return typeof templateDir === 'string' ? path.resolve(packageDir, templateDir) : packageDir;
+}
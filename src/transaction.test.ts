@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  BACKUPS_RELATIVE_PATH,
+  MAX_BACKUPS,
+  applyAtomically,
+  commitWithBackup,
+  createBackup,
+  listBackups,
+  restoreLatestBackup,
+} from './transaction.js';
+import { createMemoryVolume } from './memory-volume.js';
+
+describe('transaction', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts-bootstrap-transaction-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const read = (relativePath: string) => fs.readFileSync(path.join(testDir, relativePath), 'utf-8');
+
+  it('should write, create and delete files without leaving a staging directory', () => {
+    fs.writeFileSync(path.join(testDir, 'existing.txt'), 'old', 'utf-8');
+    fs.writeFileSync(path.join(testDir, 'obsolete.txt'), 'remove me', 'utf-8');
+
+    applyAtomically(testDir, [
+      { relativePath: 'existing.txt', content: Buffer.from('new') },
+      { relativePath: 'nested/created.txt', content: Buffer.from('created') },
+      { relativePath: 'obsolete.txt', content: null },
+    ]);
+
+    expect(read('existing.txt')).toBe('new');
+    expect(read('nested/created.txt')).toBe('created');
+    expect(fs.existsSync(path.join(testDir, 'obsolete.txt'))).toBe(false);
+    expect(fs.readdirSync(testDir).sort()).toEqual(['existing.txt', 'nested']);
+  });
+
+  it('should roll back already applied files when a later operation fails', () => {
+    fs.writeFileSync(path.join(testDir, 'first.txt'), 'original', 'utf-8');
+    fs.writeFileSync(path.join(testDir, 'blocker'), 'a file where a directory is needed', 'utf-8');
+
+    expect(() => applyAtomically(testDir, [
+      { relativePath: 'first.txt', content: Buffer.from('changed') },
+      { relativePath: 'second.txt', content: Buffer.from('created') },
+      { relativePath: 'blocker/third.txt', content: Buffer.from('fails') },
+    ])).toThrow();
+
+    expect(read('first.txt')).toBe('original');
+    expect(fs.existsSync(path.join(testDir, 'second.txt'))).toBe(false);
+    expect(fs.readdirSync(testDir).sort()).toEqual(['blocker', 'first.txt']);
+  });
+
+  it('should back up replaced files and restore them on undo', () => {
+    fs.writeFileSync(path.join(testDir, 'config.json'), '{"local": true}', 'utf-8');
+
+    const backupPath = commitWithBackup(testDir, [
+      {
+        relativePath: 'config.json',
+        previousContent: Buffer.from('{"local": true}'),
+        content: Buffer.from('{"template": true}'),
+      },
+      { relativePath: 'added.txt', previousContent: null, content: Buffer.from('added') },
+    ]);
+
+    expect(backupPath).toMatch(new RegExp(`^${BACKUPS_RELATIVE_PATH}/`));
+    expect(read('config.json')).toBe('{"template": true}');
+    expect(listBackups(testDir)).toHaveLength(1);
+
+    const restored = restoreLatestBackup(testDir);
+
+    expect(restored?.files).toEqual(['config.json', 'added.txt']);
+    expect(read('config.json')).toBe('{"local": true}');
+    expect(fs.existsSync(path.join(testDir, 'added.txt'))).toBe(false);
+    expect(listBackups(testDir)).toEqual([]);
+    expect(fs.existsSync(path.join(testDir, BACKUPS_RELATIVE_PATH))).toBe(false);
+  });
+
+  it('should restore files that are not valid utf-8 byte for byte', () => {
+    const binary = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00, 0xc3]);
+    fs.writeFileSync(path.join(testDir, 'logo.png'), binary);
+
+    commitWithBackup(testDir, [
+      { relativePath: 'logo.png', previousContent: binary, content: Buffer.from('replaced') },
+    ]);
+    restoreLatestBackup(testDir);
+
+    expect(fs.readFileSync(path.join(testDir, 'logo.png'))).toEqual(binary);
+  });
+
+  it('should not create a backup when there is nothing to change', () => {
+    expect(commitWithBackup(testDir, [])).toBeNull();
+    expect(restoreLatestBackup(testDir)).toBeNull();
+  });
+
+  it('should remove the backup when applying the changes fails', () => {
+    fs.writeFileSync(path.join(testDir, 'blocker'), 'file', 'utf-8');
+
+    expect(() => commitWithBackup(testDir, [
+      { relativePath: 'blocker/child.txt', previousContent: null, content: Buffer.from('x') },
+    ])).toThrow();
+
+    expect(listBackups(testDir)).toEqual([]);
+  });
+
+  it('should keep only the newest backups', () => {
+    const olderBackups = Array.from({ length: MAX_BACKUPS }, (_, index) =>
+      createBackup(testDir, [], new Date(Date.UTC(2024, 0, index + 1)))
+    );
+
+    const backupPath = commitWithBackup(testDir, [
+      { relativePath: 'created.txt', previousContent: null, content: Buffer.from('created') },
+    ]);
+
+    const kept = [...olderBackups.slice(1), backupPath].map((backup) => path.basename(backup ?? ''));
+    expect(listBackups(testDir)).toEqual(kept);
+    expect(fs.existsSync(path.join(testDir, olderBackups[0]))).toBe(false);
+  });
+
+  it('should back up and apply changes through a writer other than the disk', () => {
+    const volume = createMemoryVolume({ [path.join(testDir, 'config.json')]: 'old' });
+
+    const backupPath = commitWithBackup(testDir, [
+      { relativePath: 'config.json', previousContent: Buffer.from('old'), content: Buffer.from('new') },
+      { relativePath: 'created.txt', previousContent: null, content: Buffer.from('created') },
+    ], volume);
+
+    expect(Object.keys(volume.files(testDir))).toEqual([
+      `${backupPath}/backup.json`,
+      'config.json',
+      'created.txt',
+    ]);
+    expect(volume.readFile(path.join(testDir, 'config.json')).toString('utf-8')).toBe('new');
+    expect(fs.readdirSync(testDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { diskWriter, type FileWriter, type StagedChange } from './changeset.js';
+
+export const BACKUPS_RELATIVE_PATH = '.github/typescript-bootstrap-backups';
+const BACKUP_FILE_NAME = 'backup.json';
+const BACKUP_VERSION = 1;
+// Enough for a few steps of undo without the backups growing with every update
+export const MAX_BACKUPS = 5;
+const STAGING_DIR_PREFIX = '.typescript-bootstrap-staging-';
+
+/**
+ * A file to write, or to delete when content is null
+ */
+export interface FileOperation {
+  relativePath: string;
+  content: Buffer | null;
+}
+
+interface BackupEntry {
+  path: string;
+  // Base64, so binary and non-utf-8 files are restored byte for byte
+  previousContent: string | null;
+}
+
+export interface RestoredBackup {
+  id: string;
+  createdAt: string;
+  files: string[];
+}
+
+function readIfExists(filePath: string): Buffer | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+}
+
+/**
+ * Apply every operation or none of them. New content is staged in a temporary
+ * directory inside rootDir and renamed into place; on failure, files that were
+ * already replaced are restored to their previous content.
+ */
+export function applyAtomically(rootDir: string, operations: FileOperation[]): void {
+  const stagingDir = fs.mkdtempSync(path.join(rootDir, STAGING_DIR_PREFIX));
+  const applied: Array<{ targetPath: string; previousContent: Buffer | null }> = [];
+
+  try {
+    operations.forEach((operation, index) => {
+      if (operation.content) {
+        fs.writeFileSync(path.join(stagingDir, `${index}`), operation.content);
+      }
+    });
+
+    operations.forEach((operation, index) => {
+      const targetPath = path.join(rootDir, operation.relativePath);
+      const previousContent = readIfExists(targetPath);
+
+      if (operation.content === null) {
+        fs.rmSync(targetPath, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+        fs.renameSync(path.join(stagingDir, `${index}`), targetPath);
+      }
+      applied.push({ targetPath, previousContent });
+    });
+  } catch (error) {
+    for (const { targetPath, previousContent } of applied.reverse()) {
+      if (previousContent === null) {
+        fs.rmSync(targetPath, { force: true });
+      } else {
+        fs.writeFileSync(targetPath, previousContent);
+      }
+    }
+    throw error;
+  } finally {
+    fs.rmSync(stagingDir, { recursive: true, force: true });
+  }
+}
+
+function createBackupId(date: Date): string {
+  // Colons are not allowed in Windows file names
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Save the current content of every file the changes touch, so they can be undone later
+ */
+export function createBackup(
+  rootDir: string,
+  changes: StagedChange[],
+  date = new Date(),
+  writer: FileWriter = diskWriter
+): string {
+  const backupRelativePath = `${BACKUPS_RELATIVE_PATH}/${createBackupId(date)}`;
+  const backupDir = path.join(rootDir, backupRelativePath);
+  const files: BackupEntry[] = changes.map((change) => ({
+    path: change.relativePath,
+    previousContent: change.previousContent ? change.previousContent.toString('base64') : null,
+  }));
+
+  writer.writeFile(
+    path.join(backupDir, BACKUP_FILE_NAME),
+    `${JSON.stringify({ version: BACKUP_VERSION, createdAt: date.toISOString(), files }, null, 2)}\n`
+  );
+  return backupRelativePath;
+}
+
+/**
+ * Back up the files about to change, then apply the changes atomically.
+ * Returns the backup location, or null when there was nothing to change.
+ */
+export function commitWithBackup(rootDir: string, changes: StagedChange[], writer: FileWriter = diskWriter): string | null {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const backupRelativePath = createBackup(rootDir, changes, new Date(), writer);
+
+  // Other file systems, such as an in-memory volume, have no rename to swap files in atomically
+  if (writer !== diskWriter) {
+    for (const { relativePath, content } of changes) {
+      if (content === null) {
+        writer.removeFile(path.join(rootDir, relativePath));
+      } else {
+        writer.writeFile(path.join(rootDir, relativePath), content);
+      }
+    }
+    return backupRelativePath;
+  }
+
+  try {
+    applyAtomically(
+      rootDir,
+      changes.map(({ relativePath, content }) => ({ relativePath, content }))
+    );
+  } catch (error) {
+    fs.rmSync(path.join(rootDir, backupRelativePath), { recursive: true, force: true });
+    throw error;
+  }
+  pruneBackups(rootDir);
+  return backupRelativePath;
+}
+
+/**
+ * List backup ids from oldest to newest
+ */
+export function listBackups(rootDir: string): string[] {
+  const backupsDir = path.join(rootDir, BACKUPS_RELATIVE_PATH);
+  if (!fs.existsSync(backupsDir)) {
+    return [];
+  }
+
+  return fs.readdirSync(backupsDir)
+    .filter((entry) => fs.existsSync(path.join(backupsDir, entry, BACKUP_FILE_NAME)))
+    .sort((left, right) => left.localeCompare(right));
+}
+
+/**
+ * Delete all but the newest backups, oldest first
+ */
+export function pruneBackups(rootDir: string, keep = MAX_BACKUPS): string[] {
+  const backups = listBackups(rootDir);
+  const pruned = backups.slice(0, Math.max(backups.length - keep, 0));
+  for (const id of pruned) {
+    fs.rmSync(path.join(rootDir, BACKUPS_RELATIVE_PATH, id), { recursive: true, force: true });
+  }
+  return pruned;
+}
+
+/**
+ * Restore the newest backup atomically and delete it, so the next restore goes one step further back
+ */
+export function restoreLatestBackup(rootDir: string): RestoredBackup | null {
+  const backups = listBackups(rootDir);
+  const id = backups[backups.length - 1];
+  if (!id) {
+    return null;
+  }
+
+  const backupDir = path.join(rootDir, BACKUPS_RELATIVE_PATH, id);
+  const backup = JSON.parse(fs.readFileSync(path.join(backupDir, BACKUP_FILE_NAME), 'utf-8'));
+  const entries: BackupEntry[] = backup.files ?? [];
+
+  applyAtomically(
+    rootDir,
+    entries.map((entry) => ({
+      relativePath: entry.path,
+      content: entry.previousContent === null ? null : Buffer.from(entry.previousContent, 'base64'),
+    }))
+  );
+  fs.rmSync(backupDir, { recursive: true, force: true });
+  if (backups.length === 1) {
+    fs.rmSync(path.join(rootDir, BACKUPS_RELATIVE_PATH), { recursive: true, force: true });
+  }
+
+  return {
+    id,
+    createdAt: backup.createdAt,
+    files: entries.map((entry) => entry.path),
+  };
+}
@@ -0,0 +1,18 @@
+import { loadPackagedScript } from './packaged-script.js';
+
+/**
+ * File access the workspace helpers use instead of the real disk
+ */
+export interface WorkspaceFileAccess {
+  existsSync: (filePath: string) => boolean;
+  readFileSync: (filePath: string, encoding: 'utf-8') => string;
+  readdirSync: (dirPath: string, options: { withFileTypes: true }) => Array<{ name: string; isDirectory: () => boolean }>;
+}
+
+interface WorkspacesModule {
+  readWorkspacePatterns: (rootDir: string, files?: Partial<WorkspaceFileAccess>) => string[];
+  findWorkspacePackages: (rootDir: string, files?: Partial<WorkspaceFileAccess>) => string[];
+}
+
+// Workspace packages of a monorepo root, as the pre-commit hook and root scripts find them
+export const workspaces = loadPackagedScript<WorkspacesModule>('workspaces.cjs');
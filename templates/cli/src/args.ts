@@ -0,0 +1,39 @@
+import { parseArgs } from 'node:util';
+
+/**
+ * The command was called with arguments it does not understand; reported with the usage text
+ */
+export class UsageError extends Error {
+  name = 'UsageError';
+}
+
+export interface CliArguments {
+  help: boolean;
+  version: boolean;
+  shout: boolean;
+  names: string[];
+}
+
+const OPTIONS = {
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+  shout: { type: 'boolean' },
+} as const;
+
+/**
+ * Parse the command-line arguments, without the node executable and script path
+ */
+export function parseArguments(argv: string[]): CliArguments {
+  try {
+    const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+    return {
+      help: values.help === true,
+      version: values.version === true,
+      shout: values.shout === true,
+      names: positionals,
+    };
+  } catch (error) {
+    // parseArgs reports invalid arguments as TypeErrors whose message names the argument
+    throw new UsageError((error as Error).message);
+  }
+}
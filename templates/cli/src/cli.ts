@@ -0,0 +1,9 @@
+// {{PROJECT_TITLE}} - Command entry point
+//
+// The build adds the shebang and makes dist/cli.js executable. Setting process.exitCode instead of
+// calling process.exit lets pending output reach the terminal before the process ends.
+import { run } from './run';
+
+run(process.argv.slice(2), { stdout: process.stdout, stderr: process.stderr }).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,10 @@
+/**
+ * Exit codes of the command: 0 when it did its job, 1 when it failed, 2 when it was called wrongly
+ */
+export const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  Usage: 2,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
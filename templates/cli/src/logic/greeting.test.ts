@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { formatGreeting } from './greeting';
+
+describe('formatGreeting', () => {
+  it('should greet the name', () => {
+    expect(formatGreeting('Ada')).toBe('Hello, Ada!');
+  });
+
+  it('should shout when asked to', () => {
+    expect(formatGreeting('Ada', { shout: true })).toBe('HELLO, ADA!');
+  });
+});
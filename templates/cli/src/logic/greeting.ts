@@ -0,0 +1,11 @@
+export interface GreetingOptions {
+  shout?: boolean;
+}
+
+/**
+ * Pure logic of the command, free of arguments and streams so that it is tested on its own
+ */
+export function formatGreeting(name: string, options: GreetingOptions = {}): string {
+  const greeting = `Hello, ${name}!`;
+  return options.shout ? greeting.toUpperCase() : greeting;
+}
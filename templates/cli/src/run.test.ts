@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { ExitCode } from './exit-codes';
+import { run } from './run';
+import { runCli } from './testing/run-cli';
+
+describe('{{PROJECT_NAME}}', () => {
+  it('should print a greeting for each name to stdout', async () => {
+    const result = await runCli(['Ada', 'Grace']);
+
+    expect(result).toEqual({ exitCode: ExitCode.Success, stdout: 'Hello, Ada!\nHello, Grace!\n', stderr: '' });
+  });
+
+  it('should shout when asked to', async () => {
+    const result = await runCli(['--shout', 'Ada']);
+
+    expect(result.stdout).toBe('HELLO, ADA!\n');
+  });
+
+  it('should print usage to stdout for --help', async () => {
+    const result = await runCli(['--help']);
+
+    expect(result.exitCode).toBe(ExitCode.Success);
+    expect(result.stdout).toContain('Usage:');
+  });
+
+  it('should print the version for --version', async () => {
+    const result = await runCli(['--version']);
+
+    expect(result.stdout).toMatch(/^\d+\.\d+\.\d+\n$/);
+  });
+
+  it('should report unknown options and missing names on stderr with the usage exit code', async () => {
+    const unknownOption = await runCli(['--loud', 'Ada']);
+    const missingName = await runCli([]);
+
+    expect(unknownOption.exitCode).toBe(ExitCode.Usage);
+    expect(unknownOption.stderr).toContain('--loud');
+    expect(missingName.exitCode).toBe(ExitCode.Usage);
+    expect(missingName.stderr).toContain('Missing <name>');
+    expect(missingName.stdout).toBe('');
+  });
+
+  it('should report unexpected failures on stderr with the failure exit code', async () => {
+    const errors: string[] = [];
+    const stderr = { write: (text: string) => errors.push(text) };
+    // Libraries may throw values that are not errors
+    const notAnError: unknown = 'closed';
+
+    const failedWrite = await run(['Ada'], { stdout: { write: () => { throw new Error('write EPIPE'); } }, stderr });
+    const thrownValue = await run(['Ada'], { stdout: { write: () => { throw notAnError; } }, stderr });
+
+    expect(failedWrite).toBe(ExitCode.Failure);
+    expect(thrownValue).toBe(ExitCode.Failure);
+    expect(errors).toEqual(['Error: write EPIPE\n', 'Error: closed\n']);
+  });
+});
@@ -0,0 +1,60 @@
+import { version } from '../package.json';
+import { parseArguments, UsageError, type CliArguments } from './args';
+import { ExitCode } from './exit-codes';
+import { formatGreeting } from './logic/greeting';
+
+/**
+ * Where the command writes: results go to stdout so they can be piped, messages and errors to stderr
+ */
+export interface CliOutput {
+  write(text: string): void;
+}
+
+export interface CliStreams {
+  stdout: CliOutput;
+  stderr: CliOutput;
+}
+
+const USAGE = `Usage: {{PROJECT_NAME}} [options] <name...>
+
+{{PROJECT_TITLE}}
+
+Options:
+  --shout        Greet in capital letters
+  -h, --help     Show this help
+  -v, --version  Show the version
+`;
+
+function greet(args: CliArguments, streams: CliStreams): ExitCode {
+  if (args.names.length === 0) {
+    throw new UsageError('Missing <name>');
+  }
+  args.names.forEach((name) => streams.stdout.write(`${formatGreeting(name, { shout: args.shout })}\n`));
+  return ExitCode.Success;
+}
+
+/**
+ * Run the command with the given arguments and streams and resolve to its exit code. Never exits
+ * the process, so tests can call it in-process.
+ */
+export async function run(argv: string[], streams: CliStreams): Promise<ExitCode> {
+  try {
+    const args = parseArguments(argv);
+    if (args.help) {
+      streams.stdout.write(USAGE);
+      return ExitCode.Success;
+    }
+    if (args.version) {
+      streams.stdout.write(`${version}\n`);
+      return ExitCode.Success;
+    }
+    return greet(args, streams);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      streams.stderr.write(`Error: ${error.message}\n\n${USAGE}`);
+      return ExitCode.Usage;
+    }
+    streams.stderr.write(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return ExitCode.Failure;
+  }
+}
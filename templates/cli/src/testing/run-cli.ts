@@ -0,0 +1,21 @@
+import type { ExitCode } from '../exit-codes';
+import { run } from '../run';
+
+export interface CliRunResult {
+  exitCode: ExitCode;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the command in-process with captured output, as a test would invoke it from a shell
+ */
+export async function runCli(argv: string[]): Promise<CliRunResult> {
+  let stdout = '';
+  let stderr = '';
+  const exitCode = await run(argv, {
+    stdout: { write: (text) => { stdout += text; } },
+    stderr: { write: (text) => { stderr += text; } },
+  });
+  return { exitCode, stdout, stderr };
+}
@@ -0,0 +1,43 @@
+import { chmodSync } from 'fs'
+import { builtinModules } from 'module'
+import { join } from 'path'
+import { defineConfig, type Plugin } from 'vite'
+
+const SHEBANG = '#!/usr/bin/env node'
+const EXECUTABLE_MODE = 0o755
+
+// Start the bundled entry with exactly one shebang and mark it executable, so that npm can link it as a command
+function executableEntry(): Plugin {
+  return {
+    name: 'executable-entry',
+    renderChunk(code, chunk) {
+      return chunk.isEntry ? `${SHEBANG}\n${code.replace(/^#!.*\n/, '')}` : null
+    },
+    writeBundle(options, bundle) {
+      for (const output of Object.values(bundle)) {
+        if (output.type === 'chunk' && output.isEntry) {
+          chmodSync(join(options.dir ?? 'dist', output.fileName), EXECUTABLE_MODE)
+        }
+      }
+    },
+  }
+}
+
+// Vite configuration for Node command-line tools
+export default defineConfig({
+  plugins: [executableEntry()],
+  build: {
+    target: 'node18',
+    lib: {
+      entry: 'src/cli.ts',
+      formats: ['es'],
+      fileName: () => 'cli.js',
+    },
+    rollupOptions: {
+      // Node built-ins are imported at runtime instead of being replaced by browser stubs
+      external: [...builtinModules, /^node:/],
+    },
+    outDir: 'dist',
+    emptyOutDir: true,
+  },
+})
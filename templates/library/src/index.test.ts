@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { greet } from './index';
+
+describe('greet', () => {
+  it('should greet by name', () => {
+    expect(greet('world')).toBe('Hello, world!');
+  });
+
+  it('should use the given punctuation', () => {
+    expect(greet('world', { punctuation: '.' })).toBe('Hello, world.');
+  });
+});
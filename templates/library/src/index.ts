@@ -0,0 +1,11 @@
+// {{PROJECT_TITLE}} - Public API
+//
+// Everything exported here is part of the published package and its type declarations.
+
+export interface GreetingOptions {
+  punctuation?: string;
+}
+
+export function greet(name: string, options: GreetingOptions = {}): string {
+  return `Hello, ${name}${options.punctuation ?? '!'}`;
+}
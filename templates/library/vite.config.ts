@@ -0,0 +1,44 @@
+import { readFileSync, writeFileSync } from 'fs'
+import { defineConfig } from 'vite'
+import dts from 'vite-plugin-dts'
+
+const packageJson = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf-8'))
+
+// Dependencies are installed by the consumer, so they stay imports instead of being bundled
+const external = [
+  ...Object.keys(packageJson.dependencies ?? {}),
+  ...Object.keys(packageJson.peerDependencies ?? {}),
+]
+
+// Vite configuration for libraries published as both ES modules and CommonJS
+export default defineConfig({
+  plugins: [
+    dts({
+      include: ['src'],
+      exclude: ['src/**/*.test.ts', 'src/test.setup.ts'],
+      rollupTypes: true,
+      // require() resolves types through index.d.cts, which TypeScript reads as CommonJS
+      afterBuild: (emittedFiles) => {
+        emittedFiles.forEach((content, filePath) => {
+          if (filePath.endsWith('.d.ts')) {
+            writeFileSync(filePath.replace(/\.d\.ts$/, '.d.cts'), content)
+          }
+        })
+      },
+    }),
+  ],
+  build: {
+    target: 'node18',
+    lib: {
+      entry: 'src/index.ts',
+      formats: ['es', 'cjs'],
+      fileName: (format) => (format === 'es' ? 'index.js' : 'index.cjs'),
+    },
+    rollupOptions: {
+      external: (id) => id.startsWith('node:') || external.some((name) => id === name || id.startsWith(`${name}/`)),
+    },
+    sourcemap: true,
+    outDir: 'dist',
+    emptyOutDir: true,
+  },
+})
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigError, loadConfig } from './config';
+
+describe('loadConfig', () => {
+  it('should use defaults when nothing is set', () => {
+    expect(loadConfig({})).toEqual({ host: '0.0.0.0', port: 3000, logLevel: 'info', shutdownTimeoutMs: 10000 });
+  });
+
+  it('should read settings from the environment', () => {
+    const config = loadConfig({ HOST: '127.0.0.1', PORT: '8080', LOG_LEVEL: 'debug', SHUTDOWN_TIMEOUT_MS: '500' });
+
+    expect(config).toEqual({ host: '127.0.0.1', port: 8080, logLevel: 'debug', shutdownTimeoutMs: 500 });
+  });
+
+  it('should report every invalid setting at once', () => {
+    const load = () => loadConfig({ PORT: 'eighty', LOG_LEVEL: 'verbose' });
+
+    expect(load).toThrow(ConfigError);
+    expect(load).toThrow('PORT must be a whole number from 0 to 65535, got "eighty"; LOG_LEVEL must be one of debug, info, warn, error, got "verbose"');
+  });
+});
@@ -0,0 +1,66 @@
+import { isLogLevel, LOG_LEVELS, type LogLevel } from './logger';
+
+/**
+ * Settings of the service, read from environment variables
+ */
+export interface ServiceConfig {
+  host: string;
+  // 0 picks a free port, as the integration tests do
+  port: number;
+  logLevel: LogLevel;
+  // How long shutdown waits for open requests before closing their connections
+  shutdownTimeoutMs: number;
+}
+
+export class ConfigError extends Error {
+  name = 'ConfigError';
+}
+
+const DEFAULT_HOST = '0.0.0.0';
+const DEFAULT_PORT = 3000;
+const MAX_PORT = 65535;
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 10000;
+
+function readInteger(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  fallback: number,
+  max: number,
+  problems: string[]
+): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0 || value > max) {
+    problems.push(`${name} must be a whole number from 0 to ${max}, got "${raw}"`);
+  }
+  return value;
+}
+
+function readLogLevel(env: NodeJS.ProcessEnv, problems: string[]): LogLevel {
+  const raw = env.LOG_LEVEL || DEFAULT_LOG_LEVEL;
+  if (isLogLevel(raw)) {
+    return raw;
+  }
+  problems.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}, got "${raw}"`);
+  return DEFAULT_LOG_LEVEL;
+}
+
+/**
+ * Read the configuration from the environment. Every invalid variable is reported at once, so
+ * the service fails at startup instead of running misconfigured.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServiceConfig {
+  const problems: string[] = [];
+  const port = readInteger(env, 'PORT', DEFAULT_PORT, MAX_PORT, problems);
+  const shutdownTimeoutMs = readInteger(env, 'SHUTDOWN_TIMEOUT_MS', DEFAULT_SHUTDOWN_TIMEOUT_MS, Number.MAX_SAFE_INTEGER, problems);
+  const logLevel = readLogLevel(env, problems);
+
+  if (problems.length > 0) {
+    throw new ConfigError(`Invalid configuration: ${problems.join('; ')}`);
+  }
+  return { host: env.HOST || DEFAULT_HOST, port, logLevel, shutdownTimeoutMs };
+}
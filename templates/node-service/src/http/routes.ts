@@ -0,0 +1,35 @@
+import { createGreeting } from '../logic/greeting';
+
+export const HTTP_OK = 200;
+export const HTTP_NOT_FOUND = 404;
+export const HTTP_INTERNAL_SERVER_ERROR = 500;
+export const HTTP_SERVICE_UNAVAILABLE = 503;
+
+/**
+ * What the routes can see of the running service
+ */
+export interface ServiceState {
+  // False while the service starts and once it shuts down, so load balancers stop sending traffic
+  ready: boolean;
+}
+
+export interface RouteResponse {
+  status: number;
+  body: unknown;
+}
+
+export type Route = (url: URL, state: ServiceState) => RouteResponse;
+
+/**
+ * Routes keyed by "METHOD /path". They translate between HTTP and the logic/ functions and hold
+ * no business rules of their own.
+ */
+export const routes: Record<string, Route> = {
+  // Liveness: the process is up and serving requests
+  'GET /health': () => ({ status: HTTP_OK, body: { status: 'ok' } }),
+  // Readiness: the service should receive traffic
+  'GET /ready': (_url, state) => state.ready
+    ? { status: HTTP_OK, body: { status: 'ready' } }
+    : { status: HTTP_SERVICE_UNAVAILABLE, body: { status: 'unavailable' } },
+  'GET /hello': (url) => ({ status: HTTP_OK, body: createGreeting(url.searchParams.get('name') ?? '') }),
+};
@@ -0,0 +1,113 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createLogger } from '../logger';
+import { createRequestHandler, startService, type RunningService } from './server';
+
+// Integration tests: a real server on a free port, called over HTTP
+describe('HTTP service', () => {
+  let service: RunningService | undefined;
+  let logLines: string[] = [];
+  const logger = createLogger('info', (line) => logLines.push(line));
+
+  async function start(): Promise<RunningService> {
+    logLines = [];
+    service = await startService({ host: '127.0.0.1', port: 0, logLevel: 'info', shutdownTimeoutMs: 1000 }, logger);
+    return service;
+  }
+
+  afterEach(async () => {
+    await service?.close();
+    service = undefined;
+  });
+
+  it('should report liveness and readiness', async () => {
+    const { url } = await start();
+
+    const health = await fetch(`${url}/health`);
+    const ready = await fetch(`${url}/ready`);
+
+    expect(health.status).toBe(200);
+    expect(await health.json()).toEqual({ status: 'ok' });
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: 'ready' });
+  });
+
+  it('should answer with the greeting logic', async () => {
+    const { url } = await start();
+
+    const response = await fetch(`${url}/hello?name=Ada`);
+
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ message: 'Hello, Ada!' });
+  });
+
+  it('should greet the world when no name is given', async () => {
+    const { url } = await start();
+
+    const response = await fetch(`${url}/hello`);
+
+    expect(await response.json()).toEqual({ message: 'Hello, world!' });
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    const { url } = await start();
+
+    const response = await fetch(`${url}/missing`);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'Not found' });
+  });
+
+  it('should log every request', async () => {
+    const { url } = await start();
+
+    await fetch(`${url}/health`);
+
+    const entries = logLines.map((line) => JSON.parse(line));
+    expect(entries).toContainEqual(expect.objectContaining({ level: 'info', message: 'request', method: 'GET', path: '/health', status: 200 }));
+  });
+
+  it('should stop accepting requests once shut down', async () => {
+    const running = await start();
+    await running.close();
+    service = undefined;
+
+    await expect(fetch(`${running.url}/health`)).rejects.toThrow();
+    expect(logLines.map((line) => JSON.parse(line).message)).toContain('service stopped');
+  });
+
+  async function request(handler: http.RequestListener, path: string): Promise<Response> {
+    const server = http.createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}${path}`);
+    await new Promise((resolve) => server.close(resolve));
+    return response;
+  }
+
+  it('should report not ready while the service is not taking traffic', async () => {
+    const response = await request(createRequestHandler({ ready: false }, logger), '/ready');
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ status: 'unavailable' });
+  });
+
+  it('should answer 500 and log the error when a route fails', async () => {
+    logLines = [];
+    const failingRoute = () => {
+      throw new Error('database unavailable');
+    };
+
+    const response = await request(createRequestHandler({ ready: true }, logger, { 'GET /broken': failingRoute }), '/broken');
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal server error' });
+    expect(logLines.map((line) => JSON.parse(line))).toContainEqual(expect.objectContaining({
+      level: 'error',
+      message: 'request failed',
+      error: 'Error: database unavailable',
+    }));
+  });
+});
@@ -0,0 +1,86 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { ServiceConfig } from '../config';
+import type { Logger } from '../logger';
+import { HTTP_INTERNAL_SERVER_ERROR, HTTP_NOT_FOUND, routes, type Route, type RouteResponse, type ServiceState } from './routes';
+
+export interface RunningService {
+  // Base URL the service is reachable at, e.g. http://localhost:3000
+  url: string;
+  // Stop taking requests, let open ones finish, then close the server
+  close(): Promise<void>;
+}
+
+function respond(response: http.ServerResponse, { status, body }: RouteResponse): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Request handler dispatching to the routes, with one log entry per request once its response is sent
+ */
+export function createRequestHandler(
+  state: ServiceState,
+  logger: Logger,
+  routeTable: Record<string, Route> = routes
+): http.RequestListener {
+  return (request, response) => {
+    const startedAt = performance.now();
+    response.on('finish', () => {
+      logger.info('request', {
+        method: request.method,
+        path: request.url,
+        status: response.statusCode,
+        durationMs: Math.round(performance.now() - startedAt),
+      });
+    });
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const route = routeTable[`${request.method} ${url.pathname}`];
+    try {
+      respond(response, route ? route(url, state) : { status: HTTP_NOT_FOUND, body: { error: 'Not found' } });
+    } catch (error) {
+      logger.error('request failed', { path: url.pathname, error: String(error) });
+      respond(response, { status: HTTP_INTERNAL_SERVER_ERROR, body: { error: 'Internal server error' } });
+    }
+  };
+}
+
+/**
+ * Start listening with the given configuration. Resolves once the service is ready.
+ */
+export async function startService(config: ServiceConfig, logger: Logger): Promise<RunningService> {
+  const state: ServiceState = { ready: false };
+  const server = http.createServer(createRequestHandler(state, logger));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(config.port, config.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  const host = ['0.0.0.0', '::'].includes(config.host) ? 'localhost' : config.host;
+  state.ready = true;
+  logger.info('service started', { host: config.host, port });
+
+  return {
+    url: `http://${host}:${port}`,
+    close: async () => {
+      state.ready = false;
+      const closed = new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      });
+      server.closeIdleConnections();
+      // Requests still running after the timeout are cut off so that shutdown always ends
+      const timeout = setTimeout(() => server.closeAllConnections(), config.shutdownTimeoutMs);
+      try {
+        await closed;
+      } finally {
+        clearTimeout(timeout);
+      }
+      logger.info('service stopped');
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { createLogger, isLogLevel } from './logger';
+
+describe('createLogger', () => {
+  it('should write one JSON object per line with the message and fields', () => {
+    const lines: string[] = [];
+    const logger = createLogger('info', (line) => lines.push(line));
+
+    logger.info('service started', { port: 3000 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].endsWith('\n')).toBe(true);
+    expect(JSON.parse(lines[0])).toEqual({ time: expect.any(String), level: 'info', message: 'service started', port: 3000 });
+  });
+
+  it('should drop entries below its level', () => {
+    const lines: string[] = [];
+    const logger = createLogger('warn', (line) => lines.push(line));
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map((line) => JSON.parse(line).level)).toEqual(['warn', 'error']);
+  });
+
+  it('should recognize the log levels', () => {
+    expect(isLogLevel('debug')).toBe(true);
+    expect(isLogLevel('verbose')).toBe(false);
+  });
+});
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { createGreeting } from './greeting';
+
+describe('createGreeting', () => {
+  it('should greet the given name without surrounding spaces', () => {
+    expect(createGreeting('  Ada ')).toEqual({ message: 'Hello, Ada!' });
+  });
+
+  it('should greet the world when the name is blank', () => {
+    expect(createGreeting(' ')).toEqual({ message: 'Hello, world!' });
+  });
+});
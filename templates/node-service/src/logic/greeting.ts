@@ -0,0 +1,8 @@
+/**
+ * Business logic lives in logic/: plain functions that know nothing about HTTP, so they are
+ * tested without a server and reused by any transport
+ */
+export function createGreeting(name: string): { message: string } {
+  const trimmed = name.trim();
+  return { message: `Hello, ${trimmed || 'world'}!` };
+}
@@ -0,0 +1,28 @@
+// {{PROJECT_TITLE}} - Service entry point
+//
+// Wires configuration, logging and the HTTP server to the process. SIGTERM (sent by container
+// orchestrators) and SIGINT (Ctrl+C) shut the service down gracefully.
+import { loadConfig } from './config';
+import { startService } from './http/server';
+import { createLogger } from './logger';
+
+async function main(): Promise<void> {
+  const config = loadConfig();
+  const logger = createLogger(config.logLevel);
+  const service = await startService(config, logger);
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    logger.info('shutting down', { signal });
+    service.close().catch((error: unknown) => {
+      logger.error('shutdown failed', { error: error instanceof Error ? error.message : String(error) });
+      process.exitCode = 1;
+    });
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+}
+
+main().catch((error: unknown) => {
+  process.stderr.write(`Failed to start: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+});
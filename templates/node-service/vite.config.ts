@@ -0,0 +1,20 @@
+import { builtinModules } from 'module'
+import { defineConfig } from 'vite'
+
+// Vite configuration for Node HTTP services
+export default defineConfig({
+  build: {
+    target: 'node18',
+    lib: {
+      entry: 'src/main.ts',
+      formats: ['es'],
+      fileName: () => 'main.js',
+    },
+    rollupOptions: {
+      // Node built-ins are imported at runtime instead of being replaced by browser stubs
+      external: [...builtinModules, /^node:/],
+    },
+    outDir: 'dist',
+    emptyOutDir: true,
+  },
+})
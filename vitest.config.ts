@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 
 // Vitest configuration for Node.js CLI tool
 export default defineConfig({
@@ -7,6 +7,8 @@ export default defineConfig({
     environment: 'node',
     setupFiles: ['./src/test.setup.ts'],
     testTimeout: 30000,
+    // Tests inside templates belong to the generated projects and use their placeholders
+    exclude: [...configDefaults.exclude, 'templates/**'],
     coverage: {
       provider: 'v8',
       reporter: ['text', 'json', 'html'],